@@ -0,0 +1,61 @@
+// src/api.ts
+// The API returned from `activate`, for other extensions:
+//
+//     const extension = vscode.extensions.getExtension<LLMCommitterApi>('magtheo.llm-committer');
+//     const api = extension && (extension.isActive ? extension.exports : await extension.activate());
+//
+// Consuming extensions can copy this file together with the declarations it uses from src/services/StateService.ts.
+import { CancellationToken, Event } from 'vscode';
+import { AppState, StagedGroup } from './services/StateService';
+
+export type { AppState, StagedGroup };
+
+export interface GenerateCommitMessageOptions {
+    specificContext?: string;  // Context for this change only; the general context of the view is always added
+    presetId?: string;         // Instruction preset to use instead of the regular instructions
+    token?: CancellationToken;
+}
+
+export interface CreateStagedGroupOptions {
+    specificContext?: string;
+    presetId?: string;
+    title?: string;             // Label shown while the group has no commit message yet
+    commitMessage?: string;     // Without one, the group waits for a message in the view and is not committed
+}
+
+export interface CommitStagedGroupsResult {
+    committed: string[];  // Ids of the committed groups, which are removed from the staged groups
+    failed: { groupId: string; error: string }[];
+}
+
+/**
+ * Arguments that cannot work (an unknown repository or group, no files, files already in a staged
+ * group) are rejected with an Error. Generation and commit problems are reported to the user like
+ * those of the view, and show up as an undefined message or as failed groups.
+ */
+export interface LLMCommitterApi {
+    /** Repositories found in the workspace; `repositoryRoot` arguments must be one of them. */
+    getRepositoryRoots(): Promise<string[]>;
+
+    /**
+     * Summarizes the changes of the given files (paths relative to `repositoryRoot`) and returns the
+     * commit message, or undefined when generation failed or was cancelled. Nothing is staged or changed.
+     * Only one message is generated at a time, in the view or through this API.
+     */
+    generateCommitMessage(repositoryRoot: string, files: string[], options?: GenerateCommitMessageOptions): Promise<string | undefined>;
+
+    /** Adds a staged group, shown in the view like one staged there. Groups always take whole files. */
+    createStagedGroup(repositoryRoot: string, files: string[], options?: CreateStagedGroupOptions): Promise<StagedGroup>;
+
+    getStagedGroups(): StagedGroup[];
+
+    /**
+     * Stages the files of each group with Git and commits them, without the confirmation the view asks
+     * for. Commits all staged groups when no ids are given. Returns undefined without committing anything
+     * when a group still needs review or a message breaks the repository's commit rules.
+     */
+    commitStagedGroups(groupIds?: string[]): Promise<CommitStagedGroupsResult | undefined>;
+
+    /** Fires with the full state whenever the view's state changes, e.g. files, groups or the current view. */
+    readonly onDidChangeState: Event<AppState>;
+}
@@ -0,0 +1,207 @@
+// src/cli/EnvSettingsProvider.ts
+import * as fs from 'fs';
+import { DEFAULT_COMMIT_LINT_RULES, CommitLintRules } from '../utils/commitMessageLint';
+import { RepositoryConfigService, LoadedRepositoryConfig } from '../services/RepositoryConfigService';
+import {
+    SettingsProvider, LLMSettings, LLMProvider, LLM_PROVIDERS, KEYLESS_PROVIDERS, DEFAULT_OLLAMA_BASE_URL, OPENAI_COMPATIBLE_AUTH_SCHEMES,
+    OpenAICompatibleAuthScheme, OpenAICompatibleSettings, RetrySettings, SecretScanSettings, SecretHandlingMode, PromptTemplates, SettingsSnapshot,
+    DEFAULT_IGNORE_PATTERNS, DEFAULT_LLM_INSTRUCTIONS, DEFAULT_RETRY_SETTINGS, getDefaultModel
+} from '../services/SettingsProvider';
+
+// The usual variable of each provider's own SDK, read when LLM_COMMITTER_API_KEY is not set.
+export const PROVIDER_API_KEY_VARIABLES: Partial<Record<LLMProvider, string>> = {
+    openai: 'OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+    gemini: 'GEMINI_API_KEY',
+    openrouter: 'OPENROUTER_API_KEY',
+};
+
+type LoggerFunction = (message: string, type?: 'info' | 'error' | 'warning' | 'debug', showPopup?: boolean) => void;
+
+/**
+ * Settings for the CLI. `LLM_COMMITTER_*` environment variables win over the settings snapshot named by
+ * LLM_COMMITTER_SETTINGS_FILE (written by the extension for its commit hook), which wins over the
+ * repository settings file (`.llmcommitter.json|yaml|yml`) and the built-in defaults of the extension.
+ */
+export class EnvSettingsProvider implements SettingsProvider {
+    private env: NodeJS.ProcessEnv;
+    private logger: LoggerFunction;
+    private repositoryConfigService: RepositoryConfigService;
+    private snapshot: SettingsSnapshot | undefined;
+
+    constructor(env: NodeJS.ProcessEnv, logger: LoggerFunction = console.log) {
+        this.env = env;
+        this.logger = logger;
+        // The CLI runs with the user's own permissions and loads JavaScript commitlint configs too, so the file is trusted.
+        this.repositoryConfigService = new RepositoryConfigService(logger, () => true);
+        this.snapshot = this.loadSnapshot();
+    }
+
+    private loadSnapshot(): SettingsSnapshot | undefined {
+        const snapshotFile = this.getString('SETTINGS_FILE');
+        if (!snapshotFile) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(fs.readFileSync(snapshotFile, 'utf8')) as SettingsSnapshot;
+        } catch (error) {
+            const errorInst = error as Error;
+            this.logger(`Could not read the settings snapshot ${snapshotFile}: ${errorInst.message}`, 'warning');
+            return undefined;
+        }
+    }
+
+    public getRepositoryConfig(repositoryRoot: string | undefined): LoadedRepositoryConfig | undefined {
+        return repositoryRoot ? this.repositoryConfigService.load(repositoryRoot) : undefined;
+    }
+
+    private getString(name: string): string | undefined {
+        const value = this.env[`LLM_COMMITTER_${name}`];
+        return value !== undefined && value.trim() !== '' ? value : undefined;
+    }
+
+    private getNumber(name: string): number | undefined {
+        const value = this.getString(name);
+        if (value === undefined) {
+            return undefined;
+        }
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed)) {
+            this.logger(`Ignoring LLM_COMMITTER_${name}="${value}": not a number.`, 'warning');
+            return undefined;
+        }
+        return parsed;
+    }
+
+    public getLlmProvider(repositoryRoot?: string): LLMProvider {
+        const provider = this.getString('PROVIDER') ?? this.snapshot?.provider ?? this.getRepositoryConfig(repositoryRoot)?.config.provider;
+        if (provider && !LLM_PROVIDERS.includes(provider as LLMProvider)) {
+            this.logger(`Ignoring unknown provider '${provider}'; using openai.`, 'warning');
+            return 'openai';
+        }
+        return (provider as LLMProvider | undefined) ?? 'openai';
+    }
+
+    public getApiKey(provider: LLMProvider): string {
+        const providerVariable = PROVIDER_API_KEY_VARIABLES[provider];
+        return this.getString('API_KEY') ?? (providerVariable ? this.env[providerVariable]?.trim() : undefined) ?? '';
+    }
+
+    public getOllamaBaseUrl(): string {
+        return (this.getString('OLLAMA_BASE_URL') ?? this.snapshot?.ollamaBaseUrl ?? DEFAULT_OLLAMA_BASE_URL).trim().replace(/\/+$/, '');
+    }
+
+    public getOpenAICompatibleSettings(): OpenAICompatibleSettings {
+        const fromSnapshot = this.snapshot?.openAICompatible;
+        if (fromSnapshot && !this.getString('OPENAI_COMPATIBLE_BASE_URL')) {
+            return fromSnapshot;
+        }
+        const authScheme = this.getString('OPENAI_COMPATIBLE_AUTH_SCHEME') as OpenAICompatibleAuthScheme | undefined;
+        const headers: Record<string, string> = {};
+        const rawHeaders = this.getString('OPENAI_COMPATIBLE_HEADERS');
+        if (rawHeaders) {
+            try {
+                for (const [name, value] of Object.entries(JSON.parse(rawHeaders) as Record<string, unknown>)) {
+                    if (typeof value === 'string') {
+                        headers[name] = value;
+                    }
+                }
+            } catch (error) {
+                const errorInst = error as Error;
+                this.logger(`Ignoring LLM_COMMITTER_OPENAI_COMPATIBLE_HEADERS: ${errorInst.message}`, 'warning');
+            }
+        }
+        return {
+            baseUrl: (this.getString('OPENAI_COMPATIBLE_BASE_URL') ?? '').trim().replace(/\/+$/, ''),
+            authScheme: authScheme && OPENAI_COMPATIBLE_AUTH_SCHEMES.includes(authScheme) ? authScheme : 'bearer',
+            headers
+        };
+    }
+
+    public providerRequiresApiKey(provider?: LLMProvider, repositoryRoot?: string): boolean {
+        const effectiveProvider = provider || this.getLlmProvider(repositoryRoot);
+        if (effectiveProvider === 'openai-compatible') {
+            return this.getOpenAICompatibleSettings().authScheme !== 'none';
+        }
+        return !KEYLESS_PROVIDERS.includes(effectiveProvider);
+    }
+
+    public getPromptTemplates(repositoryRoot?: string): PromptTemplates {
+        const repositoryConfig = this.getRepositoryConfig(repositoryRoot)?.config;
+        return {
+            fileSummary: this.getString('FILE_SUMMARY_PROMPT_TEMPLATE') ?? this.snapshot?.promptTemplates.fileSummary ?? repositoryConfig?.fileSummaryPromptTemplate ?? '',
+            commitMessage: this.getString('COMMIT_MESSAGE_PROMPT_TEMPLATE') ?? this.snapshot?.promptTemplates.commitMessage ?? repositoryConfig?.commitMessagePromptTemplate ?? ''
+        };
+    }
+
+    public async getLLMSettings(repositoryRoot?: string): Promise<LLMSettings> {
+        const repositoryConfig = this.getRepositoryConfig(repositoryRoot)?.config;
+        const provider = this.getLlmProvider(repositoryRoot);
+        return {
+            apiKey: this.getApiKey(provider),
+            instructions: this.getString('INSTRUCTIONS') ?? this.snapshot?.instructions ?? repositoryConfig?.instructions ?? DEFAULT_LLM_INSTRUCTIONS,
+            provider,
+            // A model picked in the extension belongs to the snapshot's provider, so it is dropped when the provider is overridden.
+            model: this.getString('MODEL') ?? (this.snapshot?.provider === provider ? this.snapshot.model : undefined) ?? repositoryConfig?.model ?? getDefaultModel(provider),
+            maxTokens: this.getNumber('MAX_TOKENS') ?? this.snapshot?.maxTokens ?? repositoryConfig?.maxTokens ?? 4000,
+            temperature: this.getNumber('TEMPERATURE') ?? this.snapshot?.temperature ?? repositoryConfig?.temperature ?? 0.3,
+            openRouterRefererUrl: this.getString('OPENROUTER_REFERER_URL') ?? this.snapshot?.openRouterRefererUrl ?? 'http://localhost',
+            ollamaBaseUrl: this.getOllamaBaseUrl(),
+            openAICompatible: this.getOpenAICompatibleSettings(),
+            // The CLI prints the finished message, so streaming would only add overhead.
+            streamResponses: false,
+            retry: this.getRetrySettings(),
+            promptTemplates: this.getPromptTemplates(repositoryRoot)
+        };
+    }
+
+    /** Uses the same bounds as the extension's retry settings. */
+    public getRetrySettings(): RetrySettings {
+        const retry = this.snapshot?.retry ?? DEFAULT_RETRY_SETTINGS;
+        const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.floor(value)));
+        const maxDelayMs = clamp(this.getNumber('RETRY_MAX_DELAY_MS') ?? retry.maxDelayMs, 0, 300000);
+        return {
+            maxRetries: clamp(this.getNumber('MAX_RETRIES') ?? retry.maxRetries, 0, 10),
+            baseDelayMs: Math.min(maxDelayMs, clamp(this.getNumber('RETRY_BASE_DELAY_MS') ?? retry.baseDelayMs, 0, 60000)),
+            maxDelayMs
+        };
+    }
+
+    /** The repository file's general context, followed by LLM_COMMITTER_CONTEXT and the `--context` option. */
+    public combineGeneralContext(repositoryRoot: string | undefined, generalContext: string): string {
+        const repositoryContext = this.getRepositoryConfig(repositoryRoot)?.config.generalContext?.trim() || '';
+        return [repositoryContext, this.getString('CONTEXT')?.trim() || '', generalContext.trim()].filter(Boolean).join('\n\n');
+    }
+
+    public getIgnorePatterns(repositoryRoot?: string): string[] {
+        if (this.snapshot) {
+            return this.snapshot.ignorePatterns;
+        }
+        return [...DEFAULT_IGNORE_PATTERNS, ...(this.getRepositoryConfig(repositoryRoot)?.config.ignorePatterns || [])];
+    }
+
+    public getCommitLintRules(repositoryRoot?: string): CommitLintRules {
+        if (this.snapshot) {
+            return this.snapshot.commitLintRules;
+        }
+        const commitTypes = this.getRepositoryConfig(repositoryRoot)?.config.commitTypes;
+        return {
+            ...DEFAULT_COMMIT_LINT_RULES,
+            types: commitTypes && commitTypes.length > 0 ? commitTypes : DEFAULT_COMMIT_LINT_RULES.types
+        };
+    }
+
+    public getSecretScanSettings(): SecretScanSettings {
+        const mode = this.getString('SECRET_HANDLING') as SecretHandlingMode | undefined;
+        return {
+            mode: mode && ['redact', 'block', 'off'].includes(mode) ? mode : this.snapshot?.secretScan.mode ?? 'redact',
+            customPatterns: this.snapshot?.secretScan.customPatterns ?? []
+        };
+    }
+
+    /** Number of earlier commit messages shown as style examples; 0 turns them off. At most 20, like `llmCommitter.commitHistoryExampleCount`. */
+    public getStyleExampleCount(): number {
+        const count = Math.floor(this.getNumber('STYLE_EXAMPLE_COUNT') ?? this.snapshot?.styleExampleCount ?? 5);
+        return Math.min(20, Math.max(0, Number.isFinite(count) ? count : 5));
+    }
+}
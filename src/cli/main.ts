@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+// src/cli/main.ts
+import { GitService, runGit } from '../services/GitService';
+import { LLMService, FileSummary } from '../services/LLMService';
+import { LLMIgnoreService, describeIgnoredFileChange } from '../services/LLMIgnoreService';
+import { CommitlintConfigService } from '../services/CommitlintConfigService';
+import { EnvSettingsProvider, PROVIDER_API_KEY_VARIABLES } from './EnvSettingsProvider';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { curateStyleExamples } from '../utils/styleExamples';
+import { scanForSecrets, SecretFinding } from '../utils/secretScanner';
+import { PromptTemplateStage, validatePromptTemplate } from '../utils/promptTemplate';
+
+const USAGE = `Usage: llm-committer generate [options]
+
+Prints a commit message for the changes of the Git repository in the current directory.
+
+Options:
+  --staged           Describe only what is staged (what \`git commit\` would commit).
+                     Without it, all uncommitted changes are described.
+  --context <text>   Extra context for the LLM, e.g. a ticket number.
+  -C <directory>     Run as if started in <directory>.
+  --verbose          Log every step to stderr.
+  -h, --help         Show this help.
+
+Settings come from LLM_COMMITTER_* environment variables and the repository's
+.llmcommitter.json|yaml|yml. See the README for the full list.`;
+
+const SUMMARY_CONCURRENCY = 4;
+
+interface CliOptions {
+    staged: boolean;
+    context: string;
+    cwd: string;
+    verbose: boolean;
+}
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+function parseArguments(args: string[]): CliOptions | undefined {
+    const [command, ...rest] = args;
+    if (!command || command === '-h' || command === '--help') {
+        return undefined;
+    }
+    if (command !== 'generate') {
+        throw new UsageError(`Unknown command "${command}".`);
+    }
+    const options: CliOptions = { staged: false, context: '', cwd: process.cwd(), verbose: false };
+    for (let i = 0; i < rest.length; i++) {
+        const takeValue = () => {
+            const value = rest[++i];
+            if (value === undefined) {
+                throw new UsageError(`${rest[i - 1]} needs a value.`);
+            }
+            return value;
+        };
+        switch (rest[i]) {
+            case '--staged': options.staged = true; break;
+            case '--context': options.context = takeValue(); break;
+            case '-C': options.cwd = takeValue(); break;
+            case '--verbose': options.verbose = true; break;
+            case '-h':
+            case '--help': return undefined;
+            default: throw new UsageError(`Unknown option "${rest[i]}".`);
+        }
+    }
+    return options;
+}
+
+/**
+ * Runs the same pipeline as the extension's "Generate Message": ignored files are only mentioned,
+ * everything sent is scanned for secrets, each file is summarized and the summaries are combined.
+ */
+async function generate(options: CliOptions, settings: EnvSettingsProvider, logger: (message: string, type?: 'info' | 'error' | 'warning' | 'debug') => void): Promise<string> {
+    const gitService = new GitService(logger);
+    const llmService = new LLMService(settings, logger);
+    const llmIgnoreService = new LLMIgnoreService(settings, logger);
+    // The CLI runs with the user's own permissions, like commitlint itself, so JavaScript configs are loaded.
+    const commitlintConfigService = new CommitlintConfigService(settings, logger, () => true);
+
+    const repositoryRoot = (await runGit(['rev-parse', '--show-toplevel'], options.cwd)).stdout.trim();
+    const provider = settings.getLlmProvider(repositoryRoot);
+    if (settings.providerRequiresApiKey(provider, repositoryRoot) && !settings.getApiKey(provider)) {
+        const providerVariable = PROVIDER_API_KEY_VARIABLES[provider];
+        throw new Error(`No API key for ${provider}. Set LLM_COMMITTER_API_KEY${providerVariable ? ` or ${providerVariable}` : ''}.`);
+    }
+    const promptTemplates = settings.getPromptTemplates(repositoryRoot);
+    for (const stage of ['fileSummary', 'commitMessage'] as PromptTemplateStage[]) {
+        const templateErrors = validatePromptTemplate(promptTemplates[stage], stage).filter(issue => issue.severity === 'error');
+        if (promptTemplates[stage].trim() && templateErrors.length > 0) {
+            throw new Error(`The ${stage === 'fileSummary' ? 'file summary' : 'commit message'} prompt template is invalid: ${templateErrors.map(issue => issue.message).join(' ')}`);
+        }
+    }
+
+    const rawFileDiffs = options.staged
+        ? await gitService.getStagedFileDiffs(repositoryRoot)
+        : await gitService.getFileDiffs(repositoryRoot, await gitService.getChangedFiles(repositoryRoot));
+    if (rawFileDiffs.length === 0) {
+        throw new Error(options.staged ? 'Nothing is staged.' : 'There are no uncommitted changes.');
+    }
+
+    const isIgnored = await llmIgnoreService.getMatcher(repositoryRoot);
+    const ignoredSummaries: FileSummary[] = rawFileDiffs
+        .filter(diff => isIgnored(diff.filePath))
+        .map(diff => ({ filePath: diff.filePath, summary: describeIgnoredFileChange(diff.filePath, diff.changeType) }));
+    const summarizedDiffs = rawFileDiffs.filter(diff => !isIgnored(diff.filePath));
+
+    const branch = await gitService.getCurrentBranch(repositoryRoot);
+    const files = rawFileDiffs.map(diff => diff.filePath);
+    const styleExampleCount = settings.getStyleExampleCount();
+    const rawStyleExamples = styleExampleCount > 0
+        ? curateStyleExamples([
+            ...await gitService.getRecentCommitMessages(repositoryRoot, styleExampleCount * 4, files),
+            ...await gitService.getRecentCommitMessages(repositoryRoot, styleExampleCount * 4),
+        ], styleExampleCount)
+        : undefined;
+
+    const { mode: secretHandling, customPatterns } = settings.getSecretScanSettings();
+    const texts = [
+        ...summarizedDiffs.map(diff => ({ source: diff.filePath, content: diff.content })),
+        { source: 'General context', content: settings.combineGeneralContext(repositoryRoot, options.context) },
+        ...(rawStyleExamples || []).map(example => ({ source: 'Commit history', content: example })),
+    ];
+    const scanned = texts.map(text => secretHandling === 'off' ? { content: text.content, findings: [] as SecretFinding[] } : scanForSecrets(text.content, text.source, customPatterns));
+    const findings = scanned.flatMap(result => result.findings);
+    if (findings.length > 0) {
+        const list = findings.map(f => `  ${f.source}${f.line ? `:${f.line}` : ''} ${f.description} (${f.preview})`).join('\n');
+        if (secretHandling === 'block') {
+            throw new Error(`Not sent to the LLM: ${findings.length} possible secret(s) found:\n${list}`);
+        }
+        logger(`Redacted ${findings.length} possible secret(s) before sending to the LLM:\n${list}`, 'warning');
+    }
+    const generalContext = scanned[summarizedDiffs.length].content;
+    const styleExamples = rawStyleExamples && scanned.slice(summarizedDiffs.length + 1).map(result => result.content);
+
+    logger(`Summarizing ${summarizedDiffs.length} file(s)...`, 'debug');
+    const summaries = await mapWithConcurrency(summarizedDiffs, SUMMARY_CONCURRENCY, async (diff, index) => {
+        const result = await llmService.generateFileSummary({
+            repositoryRoot,
+            filePath: diff.filePath,
+            diffContent: scanned[index].content,
+            generalContext,
+            branch,
+            groupFiles: files,
+            styleExamples
+        });
+        if (result.success && result.message) {
+            return { filePath: diff.filePath, summary: result.message };
+        }
+        logger(`Failed to summarize ${diff.filePath}: ${result.error || 'Unknown error'}`, 'warning');
+        return { filePath: diff.filePath, summary: `Could not summarize changes for ${diff.filePath}.` };
+    });
+
+    // Back in the order of the files, with the notes for ignored files in their place.
+    const summariesByPath = new Map([...summaries, ...ignoredSummaries]
+        .filter((summary): summary is FileSummary => summary !== undefined)
+        .map(summary => [summary.filePath, summary]));
+    const fileSummaries = rawFileDiffs
+        .map(diff => summariesByPath.get(diff.filePath))
+        .filter((summary): summary is FileSummary => summary !== undefined);
+
+    const { rules: commitRules, source: commitRulesSource } = await commitlintConfigService.getRules(repositoryRoot);
+    const hasRepositoryCommitTypes = !!settings.getRepositoryConfig(repositoryRoot)?.config.commitTypes;
+    const result = await llmService.generateOverallCommitMessage({
+        repositoryRoot,
+        fileSummaries,
+        specificContext: '',
+        generalContext,
+        commitRules: commitRulesSource || hasRepositoryCommitTypes ? commitRules : undefined,
+        styleExamples,
+        branch
+    });
+    if (!result.success || !result.message) {
+        throw new Error(`Failed to generate the commit message: ${result.error || 'Unknown error'}`);
+    }
+    return result.message;
+}
+
+async function main(args: string[]): Promise<number> {
+    let options: CliOptions | undefined;
+    try {
+        options = parseArguments(args);
+    } catch (error) {
+        process.stderr.write(`llm-committer: ${(error as Error).message}\n\n${USAGE}\n`);
+        return 2;
+    }
+    if (!options) {
+        process.stdout.write(`${USAGE}\n`);
+        return 0;
+    }
+
+    const verbose = options.verbose;
+    // stdout only ever gets the message, so it can be piped into `git commit -F -`.
+    const logger = (message: string, type: 'info' | 'error' | 'warning' | 'debug' = 'info') => {
+        if (type === 'error' || type === 'warning' || verbose) {
+            process.stderr.write(`${type === 'info' || type === 'debug' ? '' : `${type}: `}${message}\n`);
+        }
+    };
+    try {
+        const message = await generate(options, new EnvSettingsProvider(process.env, logger), logger);
+        process.stdout.write(`${message}\n`);
+        return 0;
+    } catch (error) {
+        const errorInst = error as Error;
+        process.stderr.write(`llm-committer: ${errorInst.message}\n`);
+        return 1;
+    }
+}
+
+main(process.argv.slice(2)).then(exitCode => {
+    process.exitCode = exitCode;
+});
@@ -3,15 +3,32 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 
-import { GitService } from './services/GitService';
-import { StateService, AppState } from './services/StateService';
+import { GitService, FileDiff } from './services/GitService';
+import { GitExtension, Repository, InputBox } from './types/git';
+import { StateService, AppState, GroupHunks, StagedGroup } from './services/StateService';
 import { ConfigurationService } from './services/ConfigurationService';
-import { LLMService } from './services/LLMService';
+import { LLMService, FileSummary } from './services/LLMService';
+import { SummaryCacheService } from './services/SummaryCacheService';
+import { CommitlintConfigService } from './services/CommitlintConfigService';
+import { LLMIgnoreService, describeIgnoredFileChange } from './services/LLMIgnoreService';
+import { GitHookService, HookRunnerOptions } from './services/GitHookService';
+import { LLMCommitterApi, GenerateCommitMessageOptions, CommitStagedGroupsResult } from './api';
+import { CommitPlan, COMMIT_PLAN_VERSION, getCommitPlanFormat, parseCommitPlan, serializeCommitPlan } from './utils/commitPlan';
+import { mapWithConcurrency } from './utils/concurrency';
+import { DiffHunk } from './utils/diffHunks';
+import { curateStyleExamples } from './utils/styleExamples';
+import { PromptTemplateStage, validatePromptTemplate } from './utils/promptTemplate';
+import { compileSecretPattern, scanForSecrets } from './utils/secretScanner';
+import { lintCommitMessage, hasCommitLintErrors, formatCommitLintIssues } from './utils/commitMessageLint';
 
 let gitService: GitService;
 let stateService: StateService;
 let configService: ConfigurationService;
 let llmService: LLMService;
+let summaryCacheService: SummaryCacheService;
+let commitlintConfigService: CommitlintConfigService;
+let llmIgnoreService: LLMIgnoreService;
+let gitHookService: GitHookService;
 let llmCommitterViewProvider: LLMCommitterViewProvider | undefined;
 
 let llmCommitterOutputChannel: vscode.OutputChannel;
@@ -60,9 +77,16 @@ export function logToOutputAndNotify( // Exporting so services can potentially u
     }
 }
 
+/** A generation for a caller outside the view's groups: the Source Control input box or the extension API. */
+interface ExternalGenerationTarget {
+    stagedOnly: boolean;  // Describe what is staged instead of the given files
+    inputBox?: InputBox;  // Receives the message while it is written
+}
+
 class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'llmCommitterView';
     public _view?: vscode.WebviewView;
+    private generationAbortController?: AbortController;
 
     constructor(private readonly _extensionUri: vscode.Uri) {}
 
@@ -100,16 +124,16 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
 
                 case 'fetchChanges':
                     logToOutputAndNotify('Webview requested "fetchChanges".', 'debug');
+                    // An explicit refresh also picks up repositories cloned or initialized since the last scan.
+                    gitService.invalidateRepositories();
                     await vscode.workspace.saveAll(false);
                     await updateChangedFilesAndNotifyState(this._view);
                     return;
 
                 case 'viewFileDiff':
                     if (payload && payload.filePath) {
-                        const workspaceFolders = vscode.workspace.workspaceFolders;
-                        if (workspaceFolders && workspaceFolders.length > 0) {
-                            const workspaceRootUri = workspaceFolders[0].uri;
-                            const fileUri = vscode.Uri.joinPath(workspaceRootUri, payload.filePath);
+                        if (payload.repositoryRoot) {
+                            const fileUri = vscode.Uri.file(path.join(payload.repositoryRoot, payload.filePath));
                             try {
                                 await configService.openFileDiff(fileUri);
                             } catch (e) {
@@ -118,13 +142,13 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                                 logToOutputAndNotify(`Failed to open diff for ${path.basename(payload.filePath)}: ${errorMsg}`, 'error', true);
                             }
                         } else {
-                            logToOutputAndNotify('No workspace folder open to view diff.', 'warning', true);
+                            logToOutputAndNotify('No repository given to view diff.', 'warning', true);
                         }
                     }
                     return;
 
                 case 'revertFileChanges':
-                    if (payload && payload.filePath) {
+                    if (payload && payload.filePath && payload.repositoryRoot) {
                         const confirm = await vscode.window.showWarningMessage(
                             `Are you sure you want to revert all changes to "${path.basename(payload.filePath)}"? This action cannot be undone.`,
                             { modal: true },
@@ -132,7 +156,7 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                         );
                         if (confirm === "Revert Changes") {
                             try {
-                                await gitService.revertFile(payload.filePath);
+                                await gitService.revertFile(payload.repositoryRoot, payload.filePath);
                                 logToOutputAndNotify(`Changes to "${path.basename(payload.filePath)}" reverted.`, 'info', true);
                                 await updateChangedFilesAndNotifyState(this._view);
                             } catch (error) {
@@ -143,14 +167,14 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                     return;
 
                 case 'toggleFileSelection':
-                    if (payload && payload.filePath) {
-                        stateService.toggleFileSelection(payload.filePath);
+                    if (payload && payload.filePath && payload.repositoryRoot) {
+                        stateService.toggleFileSelection(payload.repositoryRoot, payload.filePath);
                     }
                     return;
 
                 case 'createGroup':
-                    if (payload && payload.selectedFiles && payload.selectedFiles.length > 0) {
-                        stateService.startNewGroup(payload.selectedFiles);
+                    if (payload && payload.selectedFiles && payload.selectedFiles.length > 0 && stateService.state.selectedRepositoryRoot) {
+                        stateService.startNewGroup(stateService.state.selectedRepositoryRoot, payload.selectedFiles);
                     } else {
                         logToOutputAndNotify('No files selected for grouping.', 'warning', true);
                     }
@@ -193,7 +217,7 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                     return;
 
                 case 'getSettings':
-                    const instructions = configService.getLlmInstructions();
+                    const instructions = configService.getLlmInstructions(this.getSettingsRepositoryRoot());
                     if (this._view) {
                         this._view.webview.postMessage({
                             command: 'settingsLoaded',
@@ -205,12 +229,12 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                 case 'saveApiKey':
                     if (payload && typeof payload.apiKey === 'string') {
                         try {
-                            await configService.setApiKey(payload.apiKey);
+                            await configService.setApiKey(payload.apiKey, payload.provider);
                             if (payload.provider) {
-                                await configService.setLlmProvider(payload.provider);
+                                await configService.setLlmProvider(payload.provider, this.getSettingsRepositoryRoot());
                             }
                             await this.updateSettingsState();
-                            logToOutputAndNotify('API key saved successfully.', 'info', true);
+                            logToOutputAndNotify(payload.apiKey.trim() ? 'API key saved successfully.' : 'API key removed.', 'info', true);
                         } catch (error) {
                             logToOutputAndNotify(`Failed to save API key: ${(error as Error).message}`, 'error', true);
                         }
@@ -220,9 +244,9 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                 case 'saveLlmInstructions':
                     if (payload && typeof payload.instructions === 'string') {
                         try {
-                            await configService.setLlmInstructions(payload.instructions);
+                            await configService.setLlmInstructions(payload.instructions, this.getSettingsRepositoryRoot());
                             if (payload.provider) {
-                                await configService.setLlmProvider(payload.provider);
+                                await configService.setLlmProvider(payload.provider, this.getSettingsRepositoryRoot());
                             }
                             await this.updateSettingsState();
                             logToOutputAndNotify('LLM instructions saved successfully.', 'info', true);
@@ -235,10 +259,18 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                 case 'saveLlmSettings':
                     if (payload) {
                         try {
-                            if (payload.provider) await configService.setLlmProvider(payload.provider);
-                            if (payload.model) await configService.setLlmModel(payload.model);
-                            if (payload.maxTokens) await configService.setMaxTokens(payload.maxTokens);
-                            if (payload.temperature !== undefined) await configService.setTemperature(payload.temperature);
+                            // Only changed values are written, so saving doesn't pin every field over the repository file.
+                            const settingsRoot = this.getSettingsRepositoryRoot();
+                            if (payload.provider) await configService.setLlmProvider(payload.provider, settingsRoot);
+                            if (payload.model) await configService.setLlmModel(payload.model, settingsRoot);
+                            if (payload.maxTokens) await configService.setMaxTokens(payload.maxTokens, settingsRoot);
+                            if (payload.temperature !== undefined) await configService.setTemperature(payload.temperature, settingsRoot);
+                            if (typeof payload.ollamaBaseUrl === 'string') {
+                                await configService.setOllamaBaseUrl(payload.ollamaBaseUrl);
+                            }
+                            if (payload.openAICompatible) {
+                                await configService.setOpenAICompatibleSettings(payload.openAICompatible);
+                            }
                             await this.updateSettingsState();
                             logToOutputAndNotify('Model settings saved successfully.', 'info', true);
                         } catch (error) {
@@ -247,9 +279,58 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                     }
                     return;
 
+                case 'saveInstructionPresets':
+                    if (payload && Array.isArray(payload.presets)) {
+                        try {
+                            await configService.setInstructionPresets(payload.presets);
+                            await this.updateSettingsState();
+                            logToOutputAndNotify('Instruction presets saved successfully.', 'info', true);
+                        } catch (error) {
+                            logToOutputAndNotify(`Failed to save instruction presets: ${(error as Error).message}`, 'error', true);
+                        }
+                    }
+                    return;
+
+                case 'savePromptTemplates':
+                    if (payload && typeof payload.fileSummary === 'string' && typeof payload.commitMessage === 'string') {
+                        try {
+                            await configService.setPromptTemplates({ fileSummary: payload.fileSummary, commitMessage: payload.commitMessage }, this.getSettingsRepositoryRoot());
+                            await this.updateSettingsState();
+                            logToOutputAndNotify('Prompt templates saved successfully.', 'info', true);
+                        } catch (error) {
+                            logToOutputAndNotify(`Failed to save prompt templates: ${(error as Error).message}`, 'error', true);
+                        }
+                    }
+                    return;
+
+                case 'previewPromptTemplate':
+                    if (payload && (payload.stage === 'fileSummary' || payload.stage === 'commitMessage') && typeof payload.template === 'string') {
+                        const stage: PromptTemplateStage = payload.stage;
+                        const issues = payload.template.trim() ? validatePromptTemplate(payload.template, stage) : [];
+                        const preview = issues.some(issue => issue.severity === 'error')
+                            ? ''
+                            : llmService.previewPromptTemplate(stage, payload.template, configService.getLlmInstructions(this.getSettingsRepositoryRoot()));
+                        if (this._view) {
+                            this._view.webview.postMessage({ command: 'promptTemplatePreview', payload: { stage, issues, preview } });
+                        }
+                    }
+                    return;
+
+                case 'getAvailableModels':
+                    if (payload && payload.provider) {
+                        const models = await llmService.getAvailableModels(payload.provider, this.getSettingsRepositoryRoot());
+                        if (this._view) {
+                            this._view.webview.postMessage({
+                                command: 'availableModelsLoaded',
+                                payload: { provider: payload.provider, models }
+                            });
+                        }
+                    }
+                    return;
+
                 case 'testApiConnection':
                     try {
-                        const result = await llmService.testConnection();
+                        const result = await llmService.testConnection(this.getSettingsRepositoryRoot());
                         if (result.success) {
                             logToOutputAndNotify('✅ API connection successful!', 'info', true);
                         } else {
@@ -263,11 +344,17 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                 case 'generateCommitMessage':
                     let filesForLLM: string[] | undefined;
                     let groupContextForLLM: string | undefined;
+                    let hunksForLLM: GroupHunks | undefined;
+                    let repositoryRootForLLM: string | undefined;
+                    let presetIdForLLM: string | undefined;
 
                     // For new group generation, use specific context from payload
                     if (stateService.state.currentGroup && payload.files && payload.currentGroupSpecificContext !== undefined) {
                         filesForLLM = stateService.state.currentGroup.files;
                         groupContextForLLM = payload.currentGroupSpecificContext;
+                        hunksForLLM = stateService.state.currentGroup.hunks;
+                        repositoryRootForLLM = stateService.state.currentGroup.repositoryRoot;
+                        presetIdForLLM = stateService.state.currentGroup.presetId;
                         // The StateService's currentGroup.specificContext will be updated when staging or if user blurs/saves it.
                         // For generation, we use the immediate context from the webview.
                     } else if (stateService.state.currentEditingStagedGroupId && payload.stagedGroupId && payload.files) { // For staged group editing
@@ -275,27 +362,101 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                         if (stagedGroup) {
                             filesForLLM = payload.files || stagedGroup.files;
                             groupContextForLLM = payload.groupContext !== undefined ? payload.groupContext : stagedGroup.specificContext;
+                            hunksForLLM = payload.hunks !== undefined ? payload.hunks : stagedGroup.hunks;
+                            repositoryRootForLLM = stagedGroup.repositoryRoot;
+                            // The review view may have picked another preset that is not saved yet.
+                            presetIdForLLM = 'presetId' in payload ? payload.presetId || undefined : stagedGroup.presetId;
                         }
                     }
 
-                    if (filesForLLM && groupContextForLLM !== undefined) {
+                    if (repositoryRootForLLM && filesForLLM && groupContextForLLM !== undefined) {
                         await this.handleGenerateCommitMessage(
+                            repositoryRootForLLM,
                             filesForLLM,
                             stateService.getGeneralContext(),
                             groupContextForLLM,
-                            payload.stagedGroupId // Will be undefined for new groups, present for staged groups
+                            payload.stagedGroupId, // Will be undefined for new groups, present for staged groups
+                            hunksForLLM,
+                            presetIdForLLM
                         );
                     } else {
                         logToOutputAndNotify("Could not determine files or context for message generation.", 'warning', true);
                     }
                     return;
 
+                case 'getFileHunks':
+                    if (payload && payload.filePath && payload.repositoryRoot) {
+                        let hunks: DiffHunk[] = [];
+                        let hunkError: string | undefined;
+                        try {
+                            hunks = await gitService.getFileHunks(payload.repositoryRoot, payload.filePath);
+                        } catch (error) {
+                            const errorInst = error as Error;
+                            hunkError = errorInst.message;
+                            logToOutputAndNotify(`Could not load hunks for ${payload.filePath}: ${errorInst.message}`, 'error', true);
+                        }
+                        if (this._view) {
+                            this._view.webview.postMessage({
+                                command: 'fileHunksLoaded',
+                                payload: { repositoryRoot: payload.repositoryRoot, filePath: payload.filePath, hunks, error: hunkError }
+                            });
+                        }
+                    }
+                    return;
+
+                case 'setCurrentGroupHunks':
+                    if (payload && payload.filePath) {
+                        stateService.setCurrentGroupHunks(payload.filePath, Array.isArray(payload.hunkIds) ? payload.hunkIds : null);
+                    }
+                    return;
+
+                case 'setCurrentGroupPreset':
+                    if (payload) {
+                        stateService.setCurrentGroupPreset(payload.presetId || undefined);
+                    }
+                    return;
+
+                case 'autoGroupFiles':
+                    await this.handleAutoGroupFiles(payload && Array.isArray(payload.files) ? payload.files : []);
+                    return;
+
+                case 'lintCommitMessage':
+                    if (payload && typeof payload.message === 'string' && this._view) {
+                        const issues = configService.getLintCommitMessages()
+                            ? lintCommitMessage(payload.message, (await commitlintConfigService.getRules(payload.repositoryRoot)).rules)
+                            : [];
+                        this._view.webview.postMessage({ command: 'commitMessageLintResult', payload: { message: payload.message, issues } });
+                    }
+                    return;
+
+                case 'fixCommitMessage':
+                    if (payload && typeof payload.message === 'string') {
+                        const groupForFix = payload.stagedGroupId
+                            ? stateService.state.stagedGroups.find(g => g.id === payload.stagedGroupId)
+                            : stateService.state.currentGroup;
+                        const presetIdForFix = 'presetId' in payload ? payload.presetId || undefined : groupForFix?.presetId;
+                        await this.handleFixCommitMessage(groupForFix?.repositoryRoot, payload.message, payload.groupContext || '', payload.stagedGroupId, presetIdForFix);
+                    } else {
+                        logToOutputAndNotify('Invalid payload for fixCommitMessage.', 'warning');
+                    }
+                    return;
+
+                case 'cancelGeneration':
+                    if (this.generationAbortController && !this.generationAbortController.signal.aborted) {
+                        logToOutputAndNotify('Cancelling commit message generation...', 'debug');
+                        this.generationAbortController.abort();
+                    }
+                    return;
+
                 case 'stageCurrentGroup':
                     if (payload && payload.commitMessage && payload.specificContext !== undefined && stateService.state.currentGroup) {
                         // Update StateService with the latest message and context from the webview before staging
                         stateService.updateCurrentGroupCommitMessage(payload.commitMessage);
                         stateService.updateCurrentGroupSpecificContext(payload.specificContext);
-                        
+
+                        if (!await this.checkRepositoryCommitRules(stateService.state.currentGroup.repositoryRoot, payload.commitMessage)) {
+                            return;
+                        }
                         if (stateService.stageCurrentGroup()) {
                             logToOutputAndNotify('Group staged successfully with latest details.', 'info', false);
                         }
@@ -333,6 +494,12 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                     }
                     return;
 
+                case 'mergeStagedGroups':
+                    if (payload && Array.isArray(payload.groupIds)) {
+                        stateService.mergeStagedGroups(payload.groupIds);
+                    }
+                    return;
+
                 case 'removeFileFromStagedGroup':
                     if (payload && payload.groupId && payload.filePath) {
                         stateService.removeFileFromStagedGroup(payload.groupId, payload.filePath);
@@ -343,72 +510,192 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
     }
 
     private async handleGenerateCommitMessage(
+        repositoryRoot: string,
         files: string[],
         generalContext: string,
         groupContext: string,
-        stagedGroupIdForUpdate?: string
-    ): Promise<void> {
+        stagedGroupIdForUpdate?: string,
+        hunks?: GroupHunks,
+        presetId?: string,
+        externalTarget?: ExternalGenerationTarget
+    ): Promise<string | undefined> {
         let isGeneratingForStagedGroup = !!stagedGroupIdForUpdate;
+        // When generating for the Source Control input box or the extension API, the webview's groups are not involved.
+        const view = externalTarget ? undefined : this._view;
+        // The UI allows one generation at a time, so Cancel targets the most recently started one.
+        const abortController = new AbortController();
+        this.generationAbortController = abortController;
+        const signal = abortController.signal;
         try {
             if (isGeneratingForStagedGroup) {
-                if (this._view) {
-                    this._view.webview.postMessage({ command: 'generatingStagedGroupMessage', payload: { groupId: stagedGroupIdForUpdate, isGenerating: true } });
+                if (view) {
+                    view.webview.postMessage({ command: 'generatingStagedGroupMessage', payload: { groupId: stagedGroupIdForUpdate, isGenerating: true } });
                 }
-            } else {
+            } else if (!externalTarget) {
                 stateService.setGeneratingMessage(true);
             }
 
-            logToOutputAndNotify(`Starting commit message generation for ${files.length} file(s)...`, 'debug');
+            logToOutputAndNotify(externalTarget?.stagedOnly ? 'Starting commit message generation for the staged changes...' : `Starting commit message generation for ${files.length} file(s)...`, 'debug');
+
+            // A broken template would silently produce a useless prompt, so stop before any request is made.
+            const promptTemplates = configService.getPromptTemplates(repositoryRoot);
+            for (const stage of ['fileSummary', 'commitMessage'] as PromptTemplateStage[]) {
+                const templateErrors = validatePromptTemplate(promptTemplates[stage], stage).filter(issue => issue.severity === 'error');
+                if (promptTemplates[stage].trim() && templateErrors.length > 0) {
+                    logToOutputAndNotify(`The ${stage === 'fileSummary' ? 'file summary' : 'commit message'} prompt template is invalid: ${templateErrors.map(issue => issue.message).join(' ')}`, 'error', true);
+                    return;
+                }
+            }
 
             // Step 1: Get file diffs
-            const fileDiffs = await gitService.getFileDiffs(files);
-            if (fileDiffs.length === 0) {
-                logToOutputAndNotify('No file diffs found for selected files.', 'warning', true);
+            const rawFileDiffs = externalTarget?.stagedOnly
+                ? await gitService.getStagedFileDiffs(repositoryRoot)
+                : await gitService.getFileDiffs(repositoryRoot, files, hunks);
+            if (rawFileDiffs.length === 0) {
+                logToOutputAndNotify(externalTarget?.stagedOnly ? 'There are no staged changes to describe.' : 'No file diffs found for selected files.', 'warning', true);
                 return;
             }
 
-            // Step 2: Generate summaries for each file
-            const fileSummaries: { filePath: string; summary: string }[] = [];
-            let totalTokensUsed = 0;
+            // Files matched by .llmcommitterignore or llmCommitter.ignorePatterns are only mentioned by name.
+            const isIgnored = await llmIgnoreService.getMatcher(repositoryRoot);
+            const ignoredSummaries: FileSummary[] = rawFileDiffs
+                .filter(diff => isIgnored(diff.filePath))
+                .map(diff => ({ filePath: diff.filePath, summary: describeIgnoredFileChange(diff.filePath, diff.changeType) }));
+            const summarizedDiffs = rawFileDiffs.filter(diff => !isIgnored(diff.filePath));
+            if (ignoredSummaries.length > 0) {
+                logToOutputAndNotify(`Not sending diffs of ${ignoredSummaries.length} ignored file(s) to the LLM: ${ignoredSummaries.map(s => s.filePath).join(', ')}`, 'debug');
+            }
 
-            for (let i = 0; i < fileDiffs.length; i++) {
-                const diff = fileDiffs[i];
-                logToOutputAndNotify(`Generating summary for file ${i + 1}/${fileDiffs.length}: ${diff.filePath}`, 'debug');
-                if (this._view) {
-                    this._view.webview.postMessage({ command: 'updateGenerationProgress', payload: { message: `Summarizing file ${i + 1} of ${fileDiffs.length}...`, percentage: Math.floor((i / fileDiffs.length) * 50) } });
-                }
+            const branch = await gitService.getCurrentBranch(repositoryRoot);
+            const rawStyleExamples = configService.getUseCommitHistoryStyle()
+                ? await this.collectStyleExamples(repositoryRoot, rawFileDiffs.map(diff => diff.filePath))
+                : undefined;
+
+            // Nothing leaves the machine before it has been scanned for secrets, earlier commit messages included.
+            const safeTexts = this.scanBeforeSending([
+                ...summarizedDiffs.map(diff => ({ source: diff.filePath, content: diff.content })),
+                { source: 'General context', content: configService.combineGeneralContext(repositoryRoot, generalContext) },
+                { source: 'Group context', content: groupContext },
+                ...(rawStyleExamples || []).map(example => ({ source: 'Commit history', content: example })),
+            ]);
+            if (!safeTexts) {
+                return;
+            }
+            const fileDiffs = summarizedDiffs.map((diff, index) => ({ ...diff, content: safeTexts[index] }));
+            generalContext = safeTexts[summarizedDiffs.length];
+            groupContext = safeTexts[summarizedDiffs.length + 1];
+            const styleExamples = rawStyleExamples && safeTexts.slice(summarizedDiffs.length + 2);
+
+            // Step 2: Generate summaries for each file, several at a time
+            const concurrency = configService.getSummaryConcurrency();
+            let totalTokensUsed = 0;
+            let completedSummaries = 0;
+            let cachedSummaries = 0;
+            logToOutputAndNotify(`Summarizing ${fileDiffs.length} file(s) with up to ${concurrency} concurrent request(s).`, 'debug');
+            if (view) {
+                view.webview.postMessage({ command: 'updateGenerationProgress', payload: { message: `Summarizing ${fileDiffs.length} file(s)...`, percentage: 0 } });
+            }
 
+            const summaryResults = await mapWithConcurrency(fileDiffs, concurrency, async (diff) => {
+                logToOutputAndNotify(`Generating summary for file: ${diff.filePath}`, 'debug');
                 const summaryResult = await llmService.generateFileSummary({
+                    repositoryRoot,
+                    presetId,
                     filePath: diff.filePath,
                     diffContent: diff.content,
-                    generalContext: generalContext
+                    generalContext: generalContext,
+                    specificContext: groupContext,
+                    branch,
+                    groupFiles: rawFileDiffs.map(fileDiff => fileDiff.filePath),
+                    styleExamples,
+                    signal
                 });
 
+                if (summaryResult.cancelled) {
+                    return undefined;
+                }
+                completedSummaries++;
+                if (summaryResult.fromCache) {
+                    cachedSummaries++;
+                }
+                if (view) {
+                    const cacheNote = cachedSummaries > 0 ? ` (${cachedSummaries} from cache)` : '';
+                    view.webview.postMessage({ command: 'updateGenerationProgress', payload: { message: `Summarized ${completedSummaries} of ${fileDiffs.length} files${cacheNote}...`, percentage: Math.floor((completedSummaries / fileDiffs.length) * 50) } });
+                    if (summaryResult.success) {
+                        view.webview.postMessage({ command: 'fileSummaryStatus', payload: { filePath: diff.filePath, fromCache: !!summaryResult.fromCache, stagedGroupId: stagedGroupIdForUpdate } });
+                    }
+                }
                 if (summaryResult.success && summaryResult.message) {
-                    fileSummaries.push({ filePath: diff.filePath, summary: summaryResult.message });
-                    if (summaryResult.tokensUsed) totalTokensUsed += summaryResult.tokensUsed;
-                } else {
-                    const errorMsg = summaryResult.error || 'Unknown error';
-                    logToOutputAndNotify(`Failed to generate summary for ${diff.filePath}: ${errorMsg}`, 'warning');
-                    // Continue with other files, but note the failure
-                    fileSummaries.push({ filePath: diff.filePath, summary: `Could not summarize changes for ${diff.filePath}.` });
+                    if (summaryResult.tokensUsed) {
+                        totalTokensUsed += summaryResult.tokensUsed;
+                    }
+                    return { filePath: diff.filePath, summary: summaryResult.message };
                 }
+                const errorMsg = summaryResult.error || 'Unknown error';
+                logToOutputAndNotify(`Failed to generate summary for ${diff.filePath}: ${errorMsg}`, 'warning');
+                // Continue with other files, but note the failure
+                return { filePath: diff.filePath, summary: `Could not summarize changes for ${diff.filePath}.` };
+            }, signal);
+            // Back in the order of the group's files, with the notes for ignored files in their place.
+            const summariesByPath = new Map([...summaryResults, ...ignoredSummaries]
+                .filter((summary): summary is FileSummary => summary !== undefined)
+                .map(summary => [summary.filePath, summary]));
+            const fileSummaries = rawFileDiffs
+                .map(diff => summariesByPath.get(diff.filePath))
+                .filter((summary): summary is FileSummary => summary !== undefined);
+
+            if (cachedSummaries > 0) {
+                logToOutputAndNotify(`Reused ${cachedSummaries} of ${fileDiffs.length} file summaries from cache.`, 'info');
+            }
+
+            if (signal.aborted) {
+                logToOutputAndNotify(`Commit message generation cancelled after ${fileSummaries.length} of ${fileDiffs.length} file summaries.`, 'info', true);
+                return;
             }
 
             // Step 3: Generate overall commit message from file summaries
             logToOutputAndNotify('Generating overall commit message from file summaries...', 'debug');
-            if (this._view) {
-                this._view.webview.postMessage({ command: 'updateGenerationProgress', payload: { message: 'Synthesizing final commit message...', percentage: 75 } });
+            if (view) {
+                view.webview.postMessage({ command: 'updateGenerationProgress', payload: { message: 'Synthesizing final commit message...', percentage: 75 } });
             }
 
+            const { rules: commitRules, source: commitRulesSource } = await commitlintConfigService.getRules(repositoryRoot);
+            if (commitRulesSource) {
+                logToOutputAndNotify(`Applying commit rules from ${commitRulesSource}.`, 'debug');
+            }
+            // Types from the repository settings file are worth telling the LLM about even without commitlint.
+            const hasRepositoryCommitTypes = !!configService.getRepositoryConfig(repositoryRoot)?.config.commitTypes;
             const overallMessageResult = await llmService.generateOverallCommitMessage({
+                repositoryRoot,
+                presetId,
                 fileSummaries: fileSummaries,
                 specificContext: groupContext,
-                generalContext: generalContext
+                generalContext: generalContext,
+                commitRules: commitRulesSource || hasRepositoryCommitTypes ? commitRules : undefined,
+                styleExamples,
+                branch,
+                signal,
+                onPartialMessage: (messageSoFar) => {
+                    if (externalTarget?.inputBox) {
+                        externalTarget.inputBox.value = messageSoFar;
+                    }
+                    if (view) {
+                        view.webview.postMessage({
+                            command: 'updateGenerationProgress',
+                            payload: { message: 'Writing commit message...', percentage: 85, partialMessage: messageSoFar, stagedGroupId: stagedGroupIdForUpdate }
+                        });
+                    }
+                }
             });
 
-            if (overallMessageResult.success && overallMessageResult.message) {
-                if (stagedGroupIdForUpdate) {
+            if (overallMessageResult.cancelled) {
+                logToOutputAndNotify('Commit message generation cancelled.', 'info', true);
+            } else if (overallMessageResult.success && overallMessageResult.message) {
+                if (externalTarget) {
+                    if (externalTarget.inputBox) {
+                        externalTarget.inputBox.value = overallMessageResult.message;
+                    }
+                } else if (stagedGroupIdForUpdate) {
                     stateService.updateStagedGroup(stagedGroupIdForUpdate, { commitMessage: overallMessageResult.message });
                 } else {
                     stateService.updateCurrentGroupCommitMessage(overallMessageResult.message);
@@ -419,6 +706,7 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                 if (overallMessageResult.tokensUsed) totalTokensUsed += overallMessageResult.tokensUsed;
                 if (totalTokensUsed > 0) successMsg += ` (Total tokens: ${totalTokensUsed})`;
                 logToOutputAndNotify(successMsg, 'info', true);
+                return overallMessageResult.message;
 
             } else {
                 const errorMsg = overallMessageResult.error || 'Unknown error during overall message generation';
@@ -430,7 +718,184 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
             logToOutputAndNotify(`Error during commit message generation process: ${errorInst.message}`, 'error', true);
             console.error("Error in handleGenerateCommitMessage:", errorInst);
         } finally {
+            if (this.generationAbortController === abortController) {
+                this.generationAbortController = undefined;
+            }
             if (isGeneratingForStagedGroup) {
+                if (view) {
+                    view.webview.postMessage({ command: 'generatingStagedGroupMessage', payload: { groupId: stagedGroupIdForUpdate, isGenerating: false } });
+                }
+            } else if (!externalTarget) {
+                stateService.setGeneratingMessage(false);
+            }
+            if (view) {
+                view.webview.postMessage({ command: 'updateGenerationProgress', payload: { message: '', percentage: 100 } }); // Clear progress
+            }
+        }
+    }
+
+    /**
+     * Runs the secret scanner over everything about to be sent to the LLM and reports the findings to
+     * the webview. Returns the texts to send, redacted unless scanning is off, or undefined when the
+     * request has to be blocked.
+     */
+    private scanBeforeSending(items: { source: string; content: string }[]): string[] | undefined {
+        const { mode, customPatterns } = configService.getSecretScanSettings();
+        if (mode === 'off') {
+            return items.map(item => item.content);
+        }
+
+        let results;
+        try {
+            results = items.map(item => scanForSecrets(item.content, item.source, customPatterns));
+        } catch (error) {
+            const errorInst = error as Error;
+            logToOutputAndNotify(`Invalid pattern in llmCommitter.secretPatterns: ${errorInst.message}. Nothing was sent to the LLM.`, 'error', true);
+            return undefined;
+        }
+
+        const findings = results.flatMap(result => result.findings);
+        const blocked = mode === 'block' && findings.length > 0;
+        if (this._view) {
+            this._view.webview.postMessage({ command: 'secretScanResult', payload: { findings, blocked } });
+        }
+        if (findings.length === 0) {
+            return results.map(result => result.content);
+        }
+
+        const sources = [...new Set(findings.map(finding => finding.source))];
+        logToOutputAndNotify(`Possible secrets found: ${findings.map(f => `${f.source}${f.line ? `:${f.line}` : ''} ${f.rule} (${f.preview})`).join(', ')}`, 'debug');
+        if (blocked) {
+            logToOutputAndNotify(`🔒 Not sent to the LLM: ${findings.length} possible secret(s) found in ${sources.join(', ')}. Remove them or set llmCommitter.secretHandling to "redact".`, 'error', true);
+            return undefined;
+        }
+        logToOutputAndNotify(`🔒 Redacted ${findings.length} possible secret(s) in ${sources.join(', ')} before sending to the LLM.`, 'warning', true);
+        return results.map(result => result.content);
+    }
+
+    /**
+     * Picks earlier commit messages as style examples: commits that touched the same files first,
+     * then the latest commits of the repository.
+     */
+    private async collectStyleExamples(repositoryRoot: string, files: string[]): Promise<string[]> {
+        const count = configService.getCommitHistoryExampleCount();
+        // Fetch extra candidates, since curation skips fixups, reverts and duplicates.
+        const candidateCount = count * 4;
+        const samePathMessages = await gitService.getRecentCommitMessages(repositoryRoot, candidateCount, files);
+        const recentMessages = await gitService.getRecentCommitMessages(repositoryRoot, candidateCount);
+        const examples = curateStyleExamples([...samePathMessages, ...recentMessages], count);
+        logToOutputAndNotify(`Using ${examples.length} earlier commit message(s) as style examples.`, 'debug');
+        return examples;
+    }
+
+    /**
+     * Validates a commit message against the repository's commitlint configuration, so messages
+     * that would fail the repository's own commit lint are not staged. Messages are only blocked
+     * when the repository has a commitlint config; the built-in rules stay advisory.
+     */
+    private async checkRepositoryCommitRules(repositoryRoot: string, message: string): Promise<boolean> {
+        if (!configService.getLintCommitMessages()) {
+            return true;
+        }
+        const { rules, source } = await commitlintConfigService.getRules(repositoryRoot);
+        if (!source) {
+            return true;
+        }
+        const issues = lintCommitMessage(message, rules);
+        if (this._view) {
+            this._view.webview.postMessage({ command: 'commitMessageLintResult', payload: { message, issues } });
+        }
+        if (!hasCommitLintErrors(issues)) {
+            return true;
+        }
+        const errors = issues.filter(issue => issue.severity === 'error');
+        logToOutputAndNotify(`Commit message does not satisfy ${source}:\n${formatCommitLintIssues(errors)}`, 'debug');
+        logToOutputAndNotify(`Commit message breaks ${errors.length} rule(s) from ${source}. Fix the listed problems (or use "Fix with LLM") before staging.`, 'error', true);
+        return false;
+    }
+
+    /**
+     * Feeds the lint issues of a commit message back to the LLM and replaces the message with the
+     * corrected one. Uses the same progress and cancel handling as a regular generation.
+     */
+    private async handleFixCommitMessage(repositoryRoot: string | undefined, message: string, groupContext: string, stagedGroupIdForUpdate?: string, presetId?: string): Promise<void> {
+        const { rules, source } = await commitlintConfigService.getRules(repositoryRoot);
+        const issues = lintCommitMessage(message, rules);
+        if (issues.length === 0) {
+            logToOutputAndNotify('The commit message has no lint issues to fix.', 'info', true);
+            return;
+        }
+
+        // The message and both contexts are sent to the LLM, so they get the same secret scan as a generation.
+        const safeTexts = this.scanBeforeSending([
+            { source: 'Commit message', content: message },
+            { source: 'Group context', content: groupContext },
+            { source: 'General context', content: configService.combineGeneralContext(repositoryRoot, stateService.getGeneralContext()) },
+        ]);
+        if (!safeTexts) {
+            return;
+        }
+        const [safeMessage, safeGroupContext, safeGeneralContext] = safeTexts;
+
+        const abortController = new AbortController();
+        this.generationAbortController = abortController;
+        try {
+            if (stagedGroupIdForUpdate) {
+                if (this._view) {
+                    this._view.webview.postMessage({ command: 'generatingStagedGroupMessage', payload: { groupId: stagedGroupIdForUpdate, isGenerating: true } });
+                }
+            } else {
+                stateService.setGeneratingMessage(true);
+            }
+            if (this._view) {
+                this._view.webview.postMessage({ command: 'updateGenerationProgress', payload: { message: `Fixing ${issues.length} lint issue(s)...`, percentage: 50 } });
+            }
+
+            const result = await llmService.fixCommitMessage({
+                repositoryRoot,
+                presetId,
+                message: safeMessage,
+                lintIssues: issues,
+                commitRules: source || configService.getRepositoryConfig(repositoryRoot)?.config.commitTypes ? rules : undefined,
+                specificContext: safeGroupContext,
+                generalContext: safeGeneralContext,
+                signal: abortController.signal,
+                onPartialMessage: (messageSoFar) => {
+                    if (this._view) {
+                        this._view.webview.postMessage({
+                            command: 'updateGenerationProgress',
+                            payload: { message: 'Rewriting commit message...', percentage: 75, partialMessage: messageSoFar, stagedGroupId: stagedGroupIdForUpdate }
+                        });
+                    }
+                }
+            });
+
+            if (result.cancelled) {
+                logToOutputAndNotify('Commit message fix cancelled.', 'info', true);
+            } else if (result.success && result.message) {
+                if (stagedGroupIdForUpdate) {
+                    stateService.updateStagedGroup(stagedGroupIdForUpdate, { commitMessage: result.message });
+                } else {
+                    stateService.updateCurrentGroupCommitMessage(result.message);
+                }
+                const remaining = lintCommitMessage(result.message, rules);
+                if (remaining.length === 0) {
+                    logToOutputAndNotify('✅ Commit message fixed.', 'info', true);
+                } else {
+                    logToOutputAndNotify(`Commit message rewritten, but ${remaining.length} lint issue(s) remain.`, 'warning', true);
+                }
+            } else {
+                logToOutputAndNotify(`Failed to fix commit message: ${result.error || 'Unknown error'}`, 'error', true);
+            }
+        } catch (error) {
+            const errorInst = error as Error;
+            logToOutputAndNotify(`Error while fixing commit message: ${errorInst.message}`, 'error', true);
+            console.error("Error in handleFixCommitMessage:", errorInst);
+        } finally {
+            if (this.generationAbortController === abortController) {
+                this.generationAbortController = undefined;
+            }
+            if (stagedGroupIdForUpdate) {
                 if (this._view) {
                     this._view.webview.postMessage({ command: 'generatingStagedGroupMessage', payload: { groupId: stagedGroupIdForUpdate, isGenerating: false } });
                 }
@@ -443,21 +908,132 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Sends the given (or all unstaged) changed files to the LLM and adds its proposed groups as
+     * staged groups flagged for review. Each repository is grouped separately, since a group
+     * can only be committed to one repository.
+     */
+    private async handleAutoGroupFiles(requestedFiles: string[]): Promise<void> {
+        const state = stateService.state;
+        const targets = (requestedFiles.length > 0 && state.selectedRepositoryRoot
+            ? [{ root: state.selectedRepositoryRoot, candidates: requestedFiles }]
+            : state.repositories.map(repo => ({ root: repo.root, candidates: repo.changedFiles })))
+            .map(({ root, candidates }) => {
+                const stagedFiles = new Set(state.stagedGroups.filter(g => g.repositoryRoot === root).flatMap(g => g.files));
+                return { root, files: candidates.filter(file => !stagedFiles.has(file)) };
+            })
+            .filter(target => target.files.length > 0);
+        if (targets.length === 0) {
+            logToOutputAndNotify('No ungrouped changed files to auto-group.', 'info', true);
+            return;
+        }
+
+        const abortController = new AbortController();
+        this.generationAbortController = abortController;
+        if (this._view) {
+            this._view.webview.postMessage({ command: 'autoGroupStatus', payload: { isRunning: true } });
+        }
+        let addedCount = 0;
+        try {
+            const diffsByTarget: FileDiff[][] = [];
+            for (const target of targets) {
+                const isIgnored = await llmIgnoreService.getMatcher(target.root);
+                const diffs = await gitService.getFileDiffs(target.root, target.files);
+                // Ignored files still need a group, so they are proposed from their name alone.
+                diffsByTarget.push(diffs.map(diff => isIgnored(diff.filePath)
+                    ? { ...diff, content: describeIgnoredFileChange(diff.filePath, diff.changeType) }
+                    : diff));
+            }
+            // Scan every repository's diffs in one pass so the webview gets a single list of findings.
+            const allDiffs = diffsByTarget.flat();
+            const safeTexts = this.scanBeforeSending([
+                ...allDiffs.map(diff => ({ source: diff.filePath, content: diff.content })),
+                ...targets.map(target => ({ source: 'General context', content: configService.combineGeneralContext(target.root, stateService.getGeneralContext()) })),
+            ]);
+            if (!safeTexts) {
+                return;
+            }
+            let diffOffset = 0;
+
+            for (const [targetIndex, target] of targets.entries()) {
+                logToOutputAndNotify(`Auto-grouping ${target.files.length} file(s) in ${target.root}...`, 'debug');
+                const fileDiffs = diffsByTarget[targetIndex].map((diff, index) => ({ ...diff, content: safeTexts[diffOffset + index] }));
+                diffOffset += fileDiffs.length;
+                if (fileDiffs.length === 0) {
+                    logToOutputAndNotify(`No file diffs found for the changed files in ${target.root}.`, 'warning');
+                    continue;
+                }
+
+                const result = await llmService.proposeFileGroups({
+                    repositoryRoot: target.root,
+                    fileDiffs,
+                    generalContext: safeTexts[allDiffs.length + targetIndex],
+                    signal: abortController.signal
+                });
+                if (result.cancelled) {
+                    logToOutputAndNotify('Auto-grouping cancelled.', 'info', true);
+                    return;
+                } else if (result.success && result.groups) {
+                    addedCount += stateService.addProposedGroups(target.root, result.groups).length;
+                } else {
+                    logToOutputAndNotify(`Auto-grouping failed for ${target.root}: ${result.error || 'Unknown error'}`, 'error', true);
+                }
+            }
+            if (addedCount > 0) {
+                logToOutputAndNotify(`✅ Proposed ${addedCount} group(s). Review each one, generate its message, then commit.`, 'info', true);
+            }
+        } catch (error) {
+            const errorInst = error as Error;
+            logToOutputAndNotify(`Error during auto-grouping: ${errorInst.message}`, 'error', true);
+            console.error('[LLM-Committer] Error in handleAutoGroupFiles:', errorInst);
+        } finally {
+            if (this.generationAbortController === abortController) {
+                this.generationAbortController = undefined;
+            }
+            if (this._view) {
+                this._view.webview.postMessage({ command: 'autoGroupStatus', payload: { isRunning: false } });
+            }
+        }
+    }
+
     private async handleCommitAllStaged(): Promise<void> {
-        const stagedGroupsToCommit = [...stateService.state.stagedGroups];
+        await this.commitStagedGroups([...stateService.state.stagedGroups], true);
+    }
+
+    /**
+     * Stages and commits the given groups one after another. Returns undefined without committing
+     * anything when a group is not ready, a message breaks the commit rules or the user declined.
+     */
+    public async commitStagedGroups(stagedGroupsToCommit: StagedGroup[], askForConfirmation: boolean): Promise<CommitStagedGroupsResult | undefined> {
         if (stagedGroupsToCommit.length === 0) {
             logToOutputAndNotify('No groups staged for commit.', 'info', true);
-            return;
+            return { committed: [], failed: [] };
         }
 
-        const confirm = await vscode.window.showWarningMessage(
-            `You are about to commit ${stagedGroupsToCommit.length} group(s). Proceed?`,
-            { modal: true },
-            "Commit All"
-        );
-        if (confirm !== "Commit All") {
-            logToOutputAndNotify('Commit operation cancelled by user.', 'info', true);
-            return;
+        const unreviewedGroups = stagedGroupsToCommit.filter(g => g.needsReview || !g.commitMessage.trim());
+        if (unreviewedGroups.length > 0) {
+            const names = unreviewedGroups.map(g => `"${g.title || g.commitMessage.split('\n')[0] || g.id}"`).join(', ');
+            logToOutputAndNotify(`${unreviewedGroups.length} staged group(s) still need review or a commit message: ${names}. Open them, generate or write a message and save before committing.`, 'warning', true);
+            return undefined;
+        }
+
+        // Staged messages may have been edited since they were checked at staging time.
+        for (const group of stagedGroupsToCommit) {
+            if (!await this.checkRepositoryCommitRules(group.repositoryRoot, group.commitMessage)) {
+                return undefined;
+            }
+        }
+
+        if (askForConfirmation) {
+            const confirm = await vscode.window.showWarningMessage(
+                `You are about to commit ${stagedGroupsToCommit.length} group(s). Proceed?`,
+                { modal: true },
+                "Commit All"
+            );
+            if (confirm !== "Commit All") {
+                logToOutputAndNotify('Commit operation cancelled by user.', 'info', true);
+                return undefined;
+            }
         }
 
         logToOutputAndNotify(`Starting to commit ${stagedGroupsToCommit.length} group(s)...`, 'debug');
@@ -467,18 +1043,30 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
 
         let successCount = 0;
         let failureCount = 0;
+        const result: CommitStagedGroupsResult = { committed: [], failed: [] };
 
         for (const group of stagedGroupsToCommit) {
             const groupIdentifier = `Group for "${group.commitMessage.substring(0, 30)}..."`;
             try {
                 logToOutputAndNotify(`Staging ${group.files.length} file(s) for ${groupIdentifier}...`, 'debug');
-                await gitService.stageFiles(group.files);
+                if (!group.repositoryRoot) {
+                    throw new Error('The group is not linked to a repository yet. Refresh the changes and try again.');
+                }
+                const groupHunks = group.hunks || {};
+                const wholeFiles = group.files.filter(file => !groupHunks[file]);
+                if (wholeFiles.length > 0) {
+                    await gitService.stageFiles(group.repositoryRoot, wholeFiles);
+                }
+                for (const file of group.files.filter(file => groupHunks[file])) {
+                    await gitService.stageHunks(group.repositoryRoot, file, groupHunks[file]);
+                }
 
-                logToOutputAndNotify(`Committing ${groupIdentifier}...`, 'debug');
-                await gitService.commit(group.commitMessage);
+                logToOutputAndNotify(`Committing ${groupIdentifier} in ${group.repositoryRoot}...`, 'debug');
+                await gitService.commit(group.repositoryRoot, group.commitMessage);
 
                 stateService.removeStagedGroupById(group.id);
                 successCount++;
+                result.committed.push(group.id);
                 logToOutputAndNotify(`Successfully committed ${groupIdentifier}.`, 'info', true);
                  if (this._view) {
                     this._view.webview.postMessage({ command: 'commitGroupSuccess', payload: { groupId: group.id }});
@@ -488,6 +1076,7 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
                 failureCount++;
                 const errorInst = error as Error;
                 const errorMessage = errorInst.message || 'Unknown error';
+                result.failed.push({ groupId: group.id, error: errorMessage });
                 logToOutputAndNotify(`Failed to commit ${groupIdentifier}: ${errorMessage}`, 'error', true);
                 console.error(`[LLM-Committer] Error committing group ${group.id} (${groupIdentifier}):`, errorInst);
                  if (this._view) {
@@ -508,6 +1097,7 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
         }
 
         await updateChangedFilesAndNotifyState(this._view);
+        return result;
     }
 
     private async initializeUIState(): Promise<void> {
@@ -536,17 +1126,34 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /** The settings view shows the effective settings of the selected repository, or of the first one. */
+    private getSettingsRepositoryRoot(): string | undefined {
+        return stateService.state.selectedRepositoryRoot ?? stateService.state.repositories[0]?.root;
+    }
+
     private async updateSettingsState(): Promise<void> {
         try {
-            const hasApiKey = !!(await configService.getApiKey());
+            const repositoryRoot = this.getSettingsRepositoryRoot();
+            const provider = configService.getLlmProvider(repositoryRoot);
+            const providersWithApiKey = await configService.getProvidersWithApiKey();
             const settings = {
-                hasApiKey,
-                provider: configService.getLlmProvider(),
-                model: configService.getLlmModel(),
-                maxTokens: configService.getMaxTokens(),
-                temperature: configService.getTemperature(),
-                instructionsLength: configService.getLlmInstructions().length,
-                openRouterRefererUrl: configService.getOpenRouterRefererUrl()
+                hasApiKey: providersWithApiKey.includes(provider),
+                requiresApiKey: configService.providerRequiresApiKey(provider, repositoryRoot),
+                providersWithApiKey,
+                provider,
+                model: configService.getLlmModel(repositoryRoot),
+                maxTokens: configService.getMaxTokens(repositoryRoot),
+                temperature: configService.getTemperature(repositoryRoot),
+                instructionsLength: configService.getLlmInstructions(repositoryRoot).length,
+                settingSources: configService.getSettingSources(repositoryRoot),
+                instructionPresets: configService.getInstructionPresets(),
+                promptTemplates: configService.getPromptTemplates(repositoryRoot),
+                repositoryConfigFile: repositoryRoot && configService.getRepositoryConfig(repositoryRoot)
+                    ? path.join(repositoryRoot, configService.getRepositoryConfig(repositoryRoot)!.source)
+                    : undefined,
+                openRouterRefererUrl: configService.getOpenRouterRefererUrl(),
+                ollamaBaseUrl: configService.getOllamaBaseUrl(repositoryRoot),
+                openAICompatible: configService.getOpenAICompatibleSettings(repositoryRoot)
             };
             stateService.updateSettings(settings);
         } catch (error) {
@@ -591,6 +1198,47 @@ class LLMCommitterViewProvider implements vscode.WebviewViewProvider {
             logToOutputAndNotify("Refreshing webview data...", 'debug');
             await vscode.workspace.saveAll(false);
             await updateChangedFilesAndNotifyState(this._view);
+            // Saving .llmcommitter.json or switching repositories can change the effective settings.
+            await this.updateSettingsState();
+        }
+    }
+
+    /**
+     * Describes what is staged in a repository and writes the message into its Source Control input
+     * box, using the same summarize-then-synthesize pipeline as the groups of the view.
+     */
+    public async generateIntoSourceControl(repository: Repository): Promise<void> {
+        if (this.generationAbortController) {
+            logToOutputAndNotify('A commit message is already being generated.', 'warning', true);
+            return;
+        }
+        const repositoryRoot = repository.rootUri.fsPath;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `LLM Committer: Writing a commit message for ${path.basename(repositoryRoot)}`,
+            cancellable: true
+        }, async (_progress, token) => {
+            token.onCancellationRequested(() => this.generationAbortController?.abort());
+            await this.handleGenerateCommitMessage(repositoryRoot, [], stateService.getGeneralContext(), '', undefined, undefined, undefined, { stagedOnly: true, inputBox: repository.inputBox });
+        });
+    }
+
+    /** Generates a message for whole files on behalf of another extension; see LLMCommitterApi. */
+    public async generateForApi(repositoryRoot: string, files: string[], options: GenerateCommitMessageOptions): Promise<string | undefined> {
+        if (this.generationAbortController) {
+            logToOutputAndNotify('A commit message is already being generated.', 'warning', true);
+            return undefined;
+        }
+        if (options.token?.isCancellationRequested) {
+            return undefined;
+        }
+        const generation = this.handleGenerateCommitMessage(repositoryRoot, files, stateService.getGeneralContext(), options.specificContext || '', undefined, undefined, options.presetId, { stagedOnly: false });
+        // handleGenerateCommitMessage sets up its abort controller before its first await.
+        const cancellation = options.token?.onCancellationRequested(() => this.generationAbortController?.abort());
+        try {
+            return await generation;
+        } finally {
+            cancellation?.dispose();
         }
     }
 }
@@ -602,17 +1250,287 @@ async function updateChangedFilesAndNotifyState(view?: vscode.WebviewView) {
         return;
     }
     try {
-        const files = await gitService.getChangedFiles();
-        stateService.setChangedFiles(files);
+        const repositories = await gitService.getChangedFilesByRepository();
+        stateService.setRepositories(repositories);
     } catch (error) {
         const errorInst = error as Error;
         console.error("[LLM-Committer] Failed to update changed files:", errorInst);
         logToOutputAndNotify('Error fetching Git changes: ' + errorInst.message, 'error', true);
-        stateService.setChangedFiles([]);
+        stateService.setRepositories([]);
+    }
+}
+
+/**
+ * Finds the built-in Git extension's repository the command was run for: the one whose Source Control
+ * title bar was clicked, the one of the active editor, the only one open, or one picked by the user.
+ */
+async function pickGitRepository(rootUri?: vscode.Uri): Promise<Repository | undefined> {
+    const gitExtension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!gitExtension) {
+        logToOutputAndNotify('The built-in Git extension is not available.', 'error', true);
+        return undefined;
+    }
+    const extensionExports = gitExtension.isActive ? gitExtension.exports : await gitExtension.activate();
+    if (!extensionExports.enabled) {
+        logToOutputAndNotify('The built-in Git extension is disabled (git.enabled).', 'error', true);
+        return undefined;
+    }
+    const git = extensionExports.getAPI(1);
+
+    const activeEditorUri = vscode.window.activeTextEditor?.document.uri;
+    const repository = (rootUri && git.getRepository(rootUri))
+        || (git.repositories.length === 1 ? git.repositories[0] : undefined)
+        || (activeEditorUri && git.getRepository(activeEditorUri));
+    if (repository) {
+        return repository;
+    }
+    if (git.repositories.length === 0) {
+        logToOutputAndNotify('No Git repository is open.', 'warning', true);
+        return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+        git.repositories.map(repo => ({ label: path.basename(repo.rootUri.fsPath), description: repo.rootUri.fsPath, repo })),
+        { placeHolder: 'Repository to write a commit message for' }
+    );
+    return picked?.repo;
+}
+
+/** Picks one of the repositories GitService found: the only one, or one chosen by the user. */
+async function pickRepositoryRoot(placeHolder: string): Promise<string | undefined> {
+    const roots = await gitService.getRepositoryRoots();
+    if (roots.length === 0) {
+        logToOutputAndNotify('No Git repository found in the workspace.', 'warning', true);
+        return undefined;
+    }
+    if (roots.length === 1) {
+        return roots[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+        roots.map(root => ({ label: path.basename(root), description: root, root })),
+        { placeHolder }
+    );
+    return picked?.root;
+}
+
+function getHookRunnerOptions(context: vscode.ExtensionContext, repositoryRoot: string): HookRunnerOptions {
+    return {
+        nodePath: process.execPath,
+        cliPath: context.asAbsolutePath(path.join('out', 'cli', 'main.js')),
+        settings: configService.getSettingsSnapshot(repositoryRoot)
+    };
+}
+
+/** Keeps the hook runners of repositories with the hook installed in step with this extension's path and settings. */
+async function refreshCommitHookRunners(context: vscode.ExtensionContext): Promise<void> {
+    for (const root of await gitService.getRepositoryRoots()) {
+        try {
+            if ((await gitHookService.getStatus(root)).installed) {
+                await gitHookService.writeRunner(root, getHookRunnerOptions(context, root));
+            }
+        } catch (error) {
+            logToOutputAndNotify(`Could not update the commit hook of ${root}: ${(error as Error).message}`, 'warning');
+        }
+    }
+}
+
+/** Warns about custom secret patterns that cannot be used; while one is set, nothing is sent to the LLM. */
+function checkSecretPatterns(): void {
+    for (const pattern of configService.getSecretScanSettings().customPatterns) {
+        try {
+            compileSecretPattern(pattern);
+        } catch (error) {
+            logToOutputAndNotify(`Invalid pattern in llmCommitter.secretPatterns: ${(error as Error).message}. Fix or remove it; until then nothing is sent to the LLM.`, 'warning', true);
+        }
     }
 }
 
-export function activate(context: vscode.ExtensionContext) {
+const COMMIT_PLAN_FILTERS = { 'Commit plan': ['json', 'yaml', 'yml'] };
+
+/**
+ * How a commit plan names a repository: its path relative to the workspace folder it belongs to,
+ * prefixed with the folder's name in multi-root workspaces.
+ */
+function getPlanRepositoryName(repositoryRoot: string): string {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(repositoryRoot)) || folders[0];
+    if (!folder) {
+        return path.basename(repositoryRoot);
+    }
+    const relative = path.relative(folder.uri.fsPath, repositoryRoot).split(path.sep).join('/');
+    return (folders.length > 1 ? path.posix.join(folder.name, relative) : relative) || '.';
+}
+
+async function exportCommitPlan(): Promise<void> {
+    const stagedGroups = stateService.state.stagedGroups;
+    if (stagedGroups.length === 0) {
+        logToOutputAndNotify('There are no staged groups to export.', 'info', true);
+        return;
+    }
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileUri = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder && vscode.Uri.joinPath(workspaceFolder, 'commit-plan.json'),
+        filters: COMMIT_PLAN_FILTERS,
+        saveLabel: 'Export Plan'
+    });
+    if (!fileUri) {
+        return;
+    }
+    const plan: CommitPlan = {
+        version: COMMIT_PLAN_VERSION,
+        groups: stagedGroups.map(group => ({
+            repository: getPlanRepositoryName(group.repositoryRoot),
+            files: group.files,
+            specificContext: group.specificContext,
+            commitMessage: group.commitMessage,
+            title: group.title,
+            needsReview: group.needsReview || undefined,
+            hunks: group.hunks && Object.keys(group.hunks).length > 0 ? group.hunks : undefined,
+            presetId: group.presetId
+        }))
+    };
+    try {
+        await fs.promises.writeFile(fileUri.fsPath, serializeCommitPlan(plan, getCommitPlanFormat(fileUri.fsPath)));
+        vscode.window.showInformationMessage(`LLM Committer: Exported ${plan.groups.length} staged group(s) to ${path.basename(fileUri.fsPath)}.`);
+    } catch (error) {
+        logToOutputAndNotify(`Could not export the commit plan: ${(error as Error).message}`, 'error', true);
+    }
+}
+
+/**
+ * Reads a commit plan back into the staged groups. Only files that are still changed are kept, and
+ * hunks are matched by id, so a plan still applies after a rebase moved the changed lines.
+ */
+async function importCommitPlan(view?: vscode.WebviewView): Promise<void> {
+    const fileUri = (await vscode.window.showOpenDialog({ canSelectMany: false, filters: COMMIT_PLAN_FILTERS, openLabel: 'Import Plan' }))?.[0];
+    if (!fileUri) {
+        return;
+    }
+    let plan: CommitPlan;
+    try {
+        plan = parseCommitPlan(await fs.promises.readFile(fileUri.fsPath, 'utf8'), getCommitPlanFormat(fileUri.fsPath));
+    } catch (error) {
+        logToOutputAndNotify(`Could not read the commit plan ${path.basename(fileUri.fsPath)}: ${(error as Error).message}`, 'error', true);
+        return;
+    }
+
+    // Check against the changes as they are now, not as of the last refresh.
+    await updateChangedFilesAndNotifyState(view);
+    const roots = await gitService.getRepositoryRoots();
+    const groups: Omit<StagedGroup, 'id'>[] = [];
+    const problems: string[] = [];
+    for (const [index, planGroup] of plan.groups.entries()) {
+        const label = `"${planGroup.title || planGroup.commitMessage.split('\n')[0] || `Group ${index + 1}`}"`;
+        const repositoryRoot = roots.find(root => getPlanRepositoryName(root) === planGroup.repository) ?? (roots.length === 1 ? roots[0] : undefined);
+        if (!repositoryRoot) {
+            problems.push(`${label}: repository "${planGroup.repository}" is not open`);
+            continue;
+        }
+        const changedFiles = stateService.getChangedFiles(repositoryRoot);
+        const unchangedFiles = planGroup.files.filter(file => !changedFiles.includes(file));
+        if (unchangedFiles.length > 0) {
+            problems.push(`${label}: no changes in ${unchangedFiles.join(', ')}`);
+        }
+        const files: string[] = [];
+        const hunks: GroupHunks = {};
+        for (const file of planGroup.files.filter(file => changedFiles.includes(file))) {
+            const plannedHunks = planGroup.hunks?.[file];
+            if (!plannedHunks) {
+                files.push(file);
+                continue;
+            }
+            const currentHunks = new Set((await gitService.getFileHunks(repositoryRoot, file).catch(() => [])).map(hunk => hunk.id));
+            const keptHunks = plannedHunks.filter(id => currentHunks.has(id));
+            if (keptHunks.length < plannedHunks.length) {
+                problems.push(`${label}: ${plannedHunks.length - keptHunks.length} hunk(s) of ${file} no longer exist`);
+            }
+            if (keptHunks.length > 0) {
+                files.push(file);
+                hunks[file] = keptHunks;
+            }
+        }
+        if (files.length === 0) {
+            problems.push(`${label}: skipped, none of its changes are left`);
+            continue;
+        }
+        groups.push({
+            repositoryRoot,
+            files,
+            specificContext: planGroup.specificContext,
+            commitMessage: planGroup.commitMessage,
+            title: planGroup.title,
+            needsReview: planGroup.needsReview,
+            hunks: Object.keys(hunks).length > 0 ? hunks : undefined,
+            presetId: planGroup.presetId
+        });
+    }
+    if (problems.length > 0) {
+        logToOutputAndNotify(`Commit plan ${path.basename(fileUri.fsPath)} does not match the current changes:\n${problems.join('\n')}`, 'warning');
+    }
+    if (groups.length === 0) {
+        logToOutputAndNotify('Nothing to import: none of the plan\'s groups has changes left. See the LLM Committer output for details.', 'error', true);
+        return;
+    }
+
+    let replace = false;
+    const existingCount = stateService.state.stagedGroups.length;
+    if (existingCount > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `There are already ${existingCount} staged group(s). Replace them with the ${groups.length} group(s) of the plan, or add the plan after them?`,
+            { modal: true },
+            'Replace',
+            'Add'
+        );
+        if (!choice) {
+            return;
+        }
+        replace = choice === 'Replace';
+    }
+
+    const { imported, skippedFiles } = stateService.importStagedGroups(groups, replace);
+    if (skippedFiles.length > 0) {
+        logToOutputAndNotify(`Left out of the imported groups because other staged groups already contain them: ${skippedFiles.join(', ')}`, 'warning');
+    }
+    const notes = problems.length > 0 || skippedFiles.length > 0 ? ' Some files or groups were left out; see the LLM Committer output.' : '';
+    logToOutputAndNotify(`Imported ${imported.length} of ${plan.groups.length} group(s) from ${path.basename(fileUri.fsPath)}.${notes}`, notes ? 'warning' : 'info', true);
+}
+
+async function checkApiRepositoryRoot(repositoryRoot: string): Promise<void> {
+    if (!(await gitService.getRepositoryRoots()).includes(repositoryRoot)) {
+        throw new Error(`Not a Git repository of this workspace: ${repositoryRoot}`);
+    }
+}
+
+function createApi(provider: LLMCommitterViewProvider): LLMCommitterApi {
+    return {
+        getRepositoryRoots: () => gitService.getRepositoryRoots(),
+        generateCommitMessage: async (repositoryRoot, files, options = {}) => {
+            await checkApiRepositoryRoot(repositoryRoot);
+            if (files.length === 0) {
+                throw new Error('No files to describe.');
+            }
+            return provider.generateForApi(repositoryRoot, files, options);
+        },
+        createStagedGroup: async (repositoryRoot, files, options = {}) => {
+            await checkApiRepositoryRoot(repositoryRoot);
+            if (files.length === 0) {
+                throw new Error('A staged group needs at least one file.');
+            }
+            return stateService.addStagedGroup(repositoryRoot, files, options);
+        },
+        getStagedGroups: () => [...stateService.state.stagedGroups],
+        commitStagedGroups: async (groupIds) => {
+            const stagedGroups = stateService.state.stagedGroups;
+            const unknownIds = (groupIds || []).filter(id => !stagedGroups.some(group => group.id === id));
+            if (unknownIds.length > 0) {
+                throw new Error(`No staged group with id ${unknownIds.join(', ')}`);
+            }
+            return provider.commitStagedGroups(groupIds ? stagedGroups.filter(group => groupIds.includes(group.id)) : [...stagedGroups], false);
+        },
+        onDidChangeState: stateService.onStateChanged
+    };
+}
+
+export function activate(context: vscode.ExtensionContext): LLMCommitterApi {
     llmCommitterOutputChannel = vscode.window.createOutputChannel("LLM Committer");
     context.subscriptions.push(llmCommitterOutputChannel);
     
@@ -620,10 +1538,15 @@ export function activate(context: vscode.ExtensionContext) {
 
     const logger = logToOutputAndNotify; // Use a local const for clarity
 
-    gitService = new GitService(logger);
+    gitService = new GitService(logger, () => (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath));
     stateService = new StateService(logger);
     configService = new ConfigurationService(context, logger);
-    llmService = new LLMService(configService, logger);
+    configService.migrateLegacyApiKey();
+    summaryCacheService = new SummaryCacheService(context, configService, logger);
+    llmService = new LLMService(configService, logger, summaryCacheService);
+    commitlintConfigService = new CommitlintConfigService(configService, logger, () => vscode.workspace.isTrusted);
+    llmIgnoreService = new LLMIgnoreService(configService, logger);
+    gitHookService = new GitHookService(logger);
 
     stateService.initialize(context);
 
@@ -652,8 +1575,18 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(fileWatcher);
     
+    const workspaceFoldersWatcher = vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+        logToOutputAndNotify('Workspace folders changed, rescanning repositories.', 'debug');
+        gitService.invalidateRepositories();
+        if (llmCommitterViewProvider) {
+            await llmCommitterViewProvider.refresh();
+        }
+    });
+    context.subscriptions.push(workspaceFoldersWatcher);
+
     const refreshCommand = vscode.commands.registerCommand('llm-committer.refresh', async () => {
         logToOutputAndNotify("Refresh command triggered.", 'debug');
+        gitService.invalidateRepositories();
         if (llmCommitterViewProvider) {
             await llmCommitterViewProvider.refresh();
         }
@@ -665,7 +1598,76 @@ export function activate(context: vscode.ExtensionContext) {
         stateService.setCurrentView('settings');
     });
     context.subscriptions.push(settingsCommand);
+
+    const clearSummaryCacheCommand = vscode.commands.registerCommand('llm-committer.clearSummaryCache', () => {
+        summaryCacheService.clear();
+        vscode.window.showInformationMessage('LLM Committer: Cached file summaries cleared.');
+    });
+    context.subscriptions.push(clearSummaryCacheCommand);
+
+    const generateForSourceControlCommand = vscode.commands.registerCommand('llm-committer.generateForSourceControl', async (sourceControl?: vscode.SourceControl) => {
+        const repository = await pickGitRepository(sourceControl?.rootUri);
+        if (repository) {
+            await provider.generateIntoSourceControl(repository);
+        }
+    });
+    context.subscriptions.push(generateForSourceControlCommand);
+
+    const installCommitHookCommand = vscode.commands.registerCommand('llm-committer.installCommitHook', async () => {
+        const root = await pickRepositoryRoot('Repository to install the prepare-commit-msg hook in');
+        if (!root) {
+            return;
+        }
+        try {
+            const status = await gitHookService.install(root, getHookRunnerOptions(context, root));
+            const provider = configService.getLlmProvider(root);
+            const keyHint = configService.providerRequiresApiKey(provider, root)
+                ? ' The API key is not stored with the hook: set LLM_COMMITTER_API_KEY in the environment git runs in.'
+                : '';
+            vscode.window.showInformationMessage(`LLM Committer: prepare-commit-msg hook installed in ${status.hookPath}.${keyHint}`);
+        } catch (error) {
+            logToOutputAndNotify(`Could not install the commit hook: ${(error as Error).message}`, 'error', true);
+        }
+    });
+    context.subscriptions.push(installCommitHookCommand);
+
+    const uninstallCommitHookCommand = vscode.commands.registerCommand('llm-committer.uninstallCommitHook', async () => {
+        const root = await pickRepositoryRoot('Repository to remove the prepare-commit-msg hook from');
+        if (!root) {
+            return;
+        }
+        try {
+            const status = await gitHookService.getStatus(root);
+            await gitHookService.uninstall(root);
+            vscode.window.showInformationMessage(status.installed
+                ? `LLM Committer: prepare-commit-msg hook removed from ${status.hookPath}.`
+                : 'LLM Committer: the prepare-commit-msg hook was not installed in this repository.');
+        } catch (error) {
+            logToOutputAndNotify(`Could not remove the commit hook: ${(error as Error).message}`, 'error', true);
+        }
+    });
+    context.subscriptions.push(uninstallCommitHookCommand);
+
+    const exportCommitPlanCommand = vscode.commands.registerCommand('llm-committer.exportCommitPlan', () => exportCommitPlan());
+    context.subscriptions.push(exportCommitPlanCommand);
+
+    const importCommitPlanCommand = vscode.commands.registerCommand('llm-committer.importCommitPlan', () => importCommitPlan(provider._view));
+    context.subscriptions.push(importCommitPlanCommand);
+
+    const configurationWatcher = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('llmCommitter')) {
+            void refreshCommitHookRunners(context);
+        }
+        if (event.affectsConfiguration('llmCommitter.secretPatterns')) {
+            checkSecretPatterns();
+        }
+    });
+    context.subscriptions.push(configurationWatcher);
+    void refreshCommitHookRunners(context);
+    checkSecretPatterns();
+
     logToOutputAndNotify("LLM Committer extension activated successfully.", "info");
+    return createApi(provider);
 }
 
 export function deactivate() {
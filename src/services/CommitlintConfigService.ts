@@ -0,0 +1,216 @@
+// src/services/CommitlintConfigService.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { SettingsProvider } from './SettingsProvider';
+import { CommitLintRules, CommitLintSeverity, COMMIT_LINT_RULE_IDS } from '../utils/commitMessageLint';
+
+export interface RepositoryCommitRules {
+    rules: CommitLintRules;
+    source?: string; // Config file the rules were read from; undefined when only the extension settings apply
+}
+
+// A commitlint rule entry: [level, applicability, value], with level 0 = off, 1 = warning, 2 = error.
+type CommitlintRuleEntry = [number, ('always' | 'never')?, unknown?];
+
+interface CommitlintConfig {
+    extends?: string | string[];
+    rules?: Record<string, CommitlintRuleEntry>;
+}
+
+type LoggerFunction = (message: string, type?: 'info' | 'error' | 'warning' | 'debug', showPopup?: boolean) => void;
+
+// Searched in this order, like commitlint's own loader.
+const CONFIG_FILE_NAMES = [
+    '.commitlintrc',
+    '.commitlintrc.json',
+    '.commitlintrc.yaml',
+    '.commitlintrc.yml',
+    '.commitlintrc.js',
+    '.commitlintrc.cjs',
+    '.commitlintrc.mjs',
+    'commitlint.config.js',
+    'commitlint.config.cjs',
+    'commitlint.config.mjs',
+    '.commitlintrc.ts',
+    'commitlint.config.ts',
+];
+
+// Rules of @commitlint/config-conventional, used when the repository extends it but has no node_modules to load it from.
+const CONFIG_CONVENTIONAL_RULES: Record<string, CommitlintRuleEntry> = {
+    'body-leading-blank': [1, 'always'],
+    'body-max-line-length': [2, 'always', 100],
+    'header-max-length': [2, 'always', 100],
+    'subject-empty': [2, 'never'],
+    'subject-full-stop': [2, 'never', '.'],
+    'type-case': [2, 'always', 'lower-case'],
+    'type-empty': [2, 'never'],
+    'type-enum': [2, 'always', ['build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test']],
+};
+
+// commitlint rules that map directly onto a rule of our linter with the same id.
+const SEVERITY_ONLY_RULES = ['body-leading-blank', 'subject-full-stop', 'subject-empty', 'type-case', 'type-enum', 'scope-enum', 'header-max-length', 'body-max-line-length'];
+
+/**
+ * Reads a repository's commitlint configuration (`.commitlintrc*`, `commitlint.config.*` or the
+ * `commitlint` key of package.json) and turns the rules our linter understands into `CommitLintRules`,
+ * layered over the extension settings. JavaScript configs are only executed in trusted workspaces.
+ */
+export class CommitlintConfigService {
+    private configService: SettingsProvider;
+    private logger: LoggerFunction;
+    private isTrusted: () => boolean;
+
+    // `isTrusted` decides whether JavaScript configs may be executed; the extension passes VS Code's workspace trust.
+    constructor(configService: SettingsProvider, logger: LoggerFunction = console.log, isTrusted: () => boolean = () => false) {
+        this.configService = configService;
+        this.logger = logger;
+        this.isTrusted = isTrusted;
+    }
+
+    public async getRules(repositoryRoot: string | undefined): Promise<RepositoryCommitRules> {
+        const baseRules = this.configService.getCommitLintRules(repositoryRoot);
+        if (!repositoryRoot) {
+            return { rules: baseRules };
+        }
+        try {
+            const loaded = await this.loadConfig(repositoryRoot);
+            if (!loaded) {
+                return { rules: baseRules };
+            }
+            const rules = await this.resolveRules(loaded.config, repositoryRoot);
+            this.logger(`Using commitlint rules from ${loaded.source}: ${Object.keys(rules).join(', ') || 'none'}`, 'debug');
+            return { rules: this.applyRules(baseRules, rules), source: loaded.source };
+        } catch (error) {
+            const errorInst = error as Error;
+            this.logger(`Could not read the commitlint configuration in ${repositoryRoot}: ${errorInst.message}`, 'warning');
+            return { rules: baseRules };
+        }
+    }
+
+    private async loadConfig(repositoryRoot: string): Promise<{ config: CommitlintConfig; source: string } | undefined> {
+        for (const fileName of CONFIG_FILE_NAMES) {
+            const filePath = path.join(repositoryRoot, fileName);
+            if (!fs.existsSync(filePath)) {
+                continue;
+            }
+            const extension = path.extname(fileName);
+            if (extension === '.ts') {
+                this.logger(`${fileName} found, but TypeScript commitlint configs are not supported; falling back to the extension settings.`, 'warning');
+                return undefined;
+            }
+            if (['.js', '.cjs', '.mjs'].includes(extension)) {
+                if (!this.isTrusted()) {
+                    this.logger(`${fileName} is ignored because the workspace is not trusted.`, 'warning');
+                    return undefined;
+                }
+                return { config: await this.importModule(filePath), source: fileName };
+            }
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            // .commitlintrc may hold either JSON or YAML; YAML is a superset of JSON.
+            const config = extension === '.json' ? JSON.parse(content) : parseYaml(content);
+            return { config: config || {}, source: fileName };
+        }
+
+        const packageJsonPath = path.join(repositoryRoot, 'package.json');
+        if (fs.existsSync(packageJsonPath)) {
+            const packageJson = JSON.parse(await fs.promises.readFile(packageJsonPath, 'utf8'));
+            if (packageJson && typeof packageJson.commitlint === 'object') {
+                return { config: packageJson.commitlint, source: 'package.json' };
+            }
+        }
+        return undefined;
+    }
+
+    private async importModule(filePath: string): Promise<CommitlintConfig> {
+        // Drop cached copies so edits to the config are picked up without reloading the window.
+        delete require.cache[filePath];
+        const mtime = (await fs.promises.stat(filePath)).mtimeMs;
+        const imported = await import(`${pathToFileURL(filePath).href}?mtime=${mtime}`);
+        return imported.default ?? imported;
+    }
+
+    /** Merges the rules of `extends` presets (earlier presets first) with the config's own rules. */
+    private async resolveRules(config: CommitlintConfig, repositoryRoot: string): Promise<Record<string, CommitlintRuleEntry>> {
+        const presets = config.extends === undefined ? [] : Array.isArray(config.extends) ? config.extends : [config.extends];
+        let rules: Record<string, CommitlintRuleEntry> = {};
+        for (const preset of presets) {
+            rules = { ...rules, ...await this.loadPresetRules(preset, repositoryRoot) };
+        }
+        return { ...rules, ...(config.rules || {}) };
+    }
+
+    private async loadPresetRules(preset: string, repositoryRoot: string): Promise<Record<string, CommitlintRuleEntry>> {
+        const presetName = preset.startsWith('@') || preset.startsWith('.') || preset.startsWith('commitlint-config-')
+            ? preset
+            : `commitlint-config-${preset}`;
+        if (this.isTrusted()) {
+            try {
+                const presetPath = createRequire(path.join(repositoryRoot, 'package.json')).resolve(presetName);
+                const presetConfig = await this.importModule(presetPath);
+                return this.resolveRules(presetConfig, repositoryRoot);
+            } catch (error) {
+                const errorInst = error as Error;
+                this.logger(`Could not load commitlint preset "${preset}" from the repository: ${errorInst.message}`, 'debug');
+            }
+        }
+        if (presetName === '@commitlint/config-conventional') {
+            return CONFIG_CONVENTIONAL_RULES;
+        }
+        this.logger(`Commitlint preset "${preset}" could not be loaded; only the repository's own rules are used.`, 'warning');
+        return {};
+    }
+
+    private applyRules(baseRules: CommitLintRules, commitlintRules: Record<string, CommitlintRuleEntry>): CommitLintRules {
+        const rules: CommitLintRules = { ...baseRules, severities: { ...baseRules.severities } };
+        const entry = (name: string) => {
+            const value = commitlintRules[name];
+            return Array.isArray(value) && value.length > 0 ? value : undefined;
+        };
+        const severity = (level: number): CommitLintSeverity | 'off' => level >= 2 ? 'error' : level === 1 ? 'warning' : 'off';
+
+        for (const name of SEVERITY_ONLY_RULES) {
+            const value = entry(name);
+            if (value) {
+                rules.severities[name] = severity(value[0]);
+            }
+        }
+
+        // commitlint reports an unparsable header as an empty type.
+        const typeEmpty = entry('type-empty');
+        if (typeEmpty) {
+            rules.severities['header-format'] = severity(typeEmpty[0]);
+        }
+        // Rules the config doesn't set are still shown, but only as warnings, so they never block a message commitlint accepts.
+        for (const rule of COMMIT_LINT_RULE_IDS) {
+            if (!(rule in rules.severities) && rule !== 'header-empty') {
+                rules.severities[rule] = baseRules.severities[rule] === 'off' ? 'off' : 'warning';
+            }
+        }
+
+        const typeEnum = entry('type-enum');
+        if (typeEnum && typeEnum[0] > 0 && typeEnum[1] !== 'never' && Array.isArray(typeEnum[2])) {
+            rules.types = typeEnum[2].map(String);
+        }
+        const scopeEnum = entry('scope-enum');
+        if (scopeEnum && scopeEnum[0] > 0 && scopeEnum[1] !== 'never' && Array.isArray(scopeEnum[2])) {
+            rules.scopes = scopeEnum[2].map(String);
+        }
+        const scopeEmpty = entry('scope-empty');
+        if (scopeEmpty) {
+            rules.requireScope = scopeEmpty[0] > 0 && scopeEmpty[1] === 'never';
+            rules.severities['scope-empty'] = severity(scopeEmpty[0]);
+        }
+        const headerMaxLength = entry('header-max-length');
+        if (headerMaxLength && typeof headerMaxLength[2] === 'number') {
+            rules.headerMaxLength = headerMaxLength[2];
+        }
+        const bodyMaxLineLength = entry('body-max-line-length');
+        if (bodyMaxLineLength && typeof bodyMaxLineLength[2] === 'number') {
+            rules.bodyMaxLineLength = bodyMaxLineLength[2];
+        }
+        return rules;
+    }
+}
@@ -1,34 +1,94 @@
 // src/services/ConfigurationService.ts
 import * as vscode from 'vscode';
+import { CommitLintRules, DEFAULT_COMMIT_LINT_RULES } from '../utils/commitMessageLint';
+import { RepositoryConfigService, LoadedRepositoryConfig } from './RepositoryConfigService';
+import {
+    LLM_PROVIDERS, LLMProvider, KEYLESS_PROVIDERS, DEFAULT_OLLAMA_BASE_URL, OPENAI_COMPATIBLE_AUTH_SCHEMES, OpenAICompatibleAuthScheme,
+    OpenAICompatibleSettings, RetrySettings, SecretHandlingMode, SecretScanSettings, InstructionPreset, SettingSource, ResolvedSetting,
+    PromptTemplates, LLMSettings, SettingsProvider, SettingsSnapshot, DEFAULT_LLM_INSTRUCTIONS, getDefaultModel
+} from './SettingsProvider';
 // Assuming logToOutputAndNotify is exported from extension.ts and accessible globally
 // For better practice, it should be passed if not truly global or imported directly if module structure allows.
 // For this example, assuming it's passed via constructor as implemented in extension.ts
 // import { logToOutputAndNotify as globalLogger } from '../extension';
 
-export const LLM_PROVIDERS = ['openai', 'anthropic', 'gemini', 'openrouter'] as const;
-export type LLMProvider = typeof LLM_PROVIDERS[number];
-
-export interface LLMSettings {
-    apiKey: string;
-    instructions: string;
-    provider: LLMProvider;
-    model: string;
-    maxTokens: number;
-    temperature: number;
-    openRouterRefererUrl?: string;
-}
+// The settings types live in a module without the `vscode` dependency, so the CLI can share them.
+export * from './SettingsProvider';
 
 type LoggerFunction = (message: string, type?: 'info' | 'error' | 'warning' | 'debug', showPopup?: boolean) => void;
 
-export class ConfigurationService {
+/** Reads the settings from VS Code's configuration, SecretStorage and the repository settings file. */
+export class ConfigurationService implements SettingsProvider {
     private context: vscode.ExtensionContext;
     private readonly CONFIG_SECTION = 'llmCommitter';
-    private readonly SECRET_KEY_API = 'llmCommitter.apiKey';
+    // Single key used before keys were stored per provider; only read for migration.
+    private readonly LEGACY_SECRET_KEY_API = 'llmCommitter.apiKey';
     private logger: LoggerFunction;
+    private legacyKeyMigration: Promise<void> | undefined;
+    private repositoryConfigService: RepositoryConfigService;
 
     constructor(context: vscode.ExtensionContext, logger: LoggerFunction) { // Expect logger to be passed
         this.context = context;
         this.logger = logger;
+        this.repositoryConfigService = new RepositoryConfigService(logger, () => vscode.workspace.isTrusted);
+    }
+
+    /** The repository's checked-in `.llmcommitter.json|yaml|yml`, if it has one. */
+    public getRepositoryConfig(repositoryRoot: string | undefined): LoadedRepositoryConfig | undefined {
+        return repositoryRoot ? this.repositoryConfigService.load(repositoryRoot) : undefined;
+    }
+
+    /**
+     * Resolves a setting that the repository file can also provide. VS Code's user settings are
+     * overridden by the repository file, which is in turn overridden by workspace and folder settings,
+     * so a checkout can still deviate from the team defaults locally. Empty strings count as unset.
+     */
+    private resolveSetting<T>(key: string, fallback: T, repositoryValue: T | undefined, repositoryRoot?: string): ResolvedSetting<T> {
+        const scope = repositoryRoot ? vscode.Uri.file(repositoryRoot) : undefined;
+        const inspected = vscode.workspace.getConfiguration(this.CONFIG_SECTION, scope).inspect<T>(key);
+        const isSet = (value: T | undefined): value is T => value !== undefined && value !== '';
+        if (isSet(inspected?.workspaceFolderValue)) {
+            return { value: inspected!.workspaceFolderValue, source: 'workspaceFolder' };
+        }
+        if (isSet(inspected?.workspaceValue)) {
+            return { value: inspected!.workspaceValue, source: 'workspace' };
+        }
+        if (isSet(repositoryValue)) {
+            return { value: repositoryValue, source: 'repository' };
+        }
+        if (isSet(inspected?.globalValue)) {
+            return { value: inspected!.globalValue, source: 'user' };
+        }
+        return { value: inspected?.defaultValue ?? fallback, source: 'default' };
+    }
+
+    /**
+     * Saves a value from the settings view. It goes to the user settings, so a checked-in repository file
+     * keeps its precedence, unless the workspace (folder) already overrides the key; then that override is
+     * updated. Values equal to the effective one are not written, and the user is warned when the saved
+     * value is shadowed by the repository file or shadows it.
+     */
+    private async saveSetting<T>(key: string, label: string, value: T, repositoryValue?: T, repositoryRoot?: string): Promise<void> {
+        const scope = repositoryRoot ? vscode.Uri.file(repositoryRoot) : undefined;
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION, scope);
+        const inspected = config.inspect<T>(key);
+        const current = this.resolveSetting<T | undefined>(key, undefined, repositoryValue, repositoryRoot);
+        if (JSON.stringify(current.value) === JSON.stringify(value)) {
+            this.logger(`${label} is unchanged; not saved.`, 'debug');
+            return;
+        }
+        const target = inspected?.workspaceFolderValue !== undefined ? vscode.ConfigurationTarget.WorkspaceFolder
+            : inspected?.workspaceValue !== undefined ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        await config.update(key, value, target);
+        this.logger(`${label} saved to ${target === vscode.ConfigurationTarget.Global ? 'user' : 'workspace'} settings.`, 'debug');
+
+        const repositoryFile = repositoryRoot && this.getRepositoryConfig(repositoryRoot)?.source;
+        if (repositoryFile && repositoryValue !== undefined && repositoryValue !== '') {
+            this.logger(target === vscode.ConfigurationTarget.Global
+                ? `${label} was saved to your user settings, but ${repositoryFile} sets it for this repository and takes precedence. The saved value applies to repositories without it.`
+                : `${label} was saved to the workspace settings, which override the value in ${repositoryFile}.`, 'warning', true);
+        }
     }
 
     public async getGeneralContext(): Promise<string> {
@@ -39,9 +99,45 @@ export class ConfigurationService {
         await this.context.workspaceState.update('llmCommitter.generalContext', context);
     }
 
-    public async getApiKey(): Promise<string> {
+    private getApiKeySecretName(provider: LLMProvider): string {
+        return `${this.LEGACY_SECRET_KEY_API}.${provider}`;
+    }
+
+    /**
+     * Moves the shared API key used by earlier versions to the provider that is currently selected,
+     * since that is the provider it was being used with. Safe to call more than once.
+     */
+    public migrateLegacyApiKey(): Promise<void> {
+        if (!this.legacyKeyMigration) {
+            this.legacyKeyMigration = (async () => {
+                try {
+                    const legacyKey = await this.context.secrets.get(this.LEGACY_SECRET_KEY_API);
+                    if (!legacyKey) {
+                        return;
+                    }
+                    const provider = this.getLlmProvider();
+                    const secretName = this.getApiKeySecretName(provider);
+                    if (!(await this.context.secrets.get(secretName))) {
+                        await this.context.secrets.store(secretName, legacyKey);
+                        this.logger(`Migrated existing API key to provider '${provider}'.`, 'info');
+                    } else {
+                        this.logger(`Provider '${provider}' already has an API key; discarding legacy shared key.`, 'debug');
+                    }
+                    await this.context.secrets.delete(this.LEGACY_SECRET_KEY_API);
+                } catch (error) {
+                    const errorInst = error as Error;
+                    console.error('[ConfigService] Error migrating legacy API key:', errorInst);
+                    this.logger(`Failed to migrate legacy API key: ${errorInst.message}`, 'error');
+                }
+            })();
+        }
+        return this.legacyKeyMigration;
+    }
+
+    public async getApiKey(provider?: LLMProvider): Promise<string> {
         try {
-            const apiKey = await this.context.secrets.get(this.SECRET_KEY_API);
+            await this.migrateLegacyApiKey();
+            const apiKey = await this.context.secrets.get(this.getApiKeySecretName(provider || this.getLlmProvider()));
             return apiKey || '';
         } catch (error) {
             const errorInst = error as Error;
@@ -51,14 +147,16 @@ export class ConfigurationService {
         }
     }
 
-    public async setApiKey(apiKey: string): Promise<void> {
+    public async setApiKey(apiKey: string, provider?: LLMProvider): Promise<void> {
+        const targetProvider = provider || this.getLlmProvider();
         try {
+            await this.migrateLegacyApiKey();
             if (apiKey.trim()) {
-                await this.context.secrets.store(this.SECRET_KEY_API, apiKey.trim());
-                this.logger('API key stored securely.', 'debug', false);
+                await this.context.secrets.store(this.getApiKeySecretName(targetProvider), apiKey.trim());
+                this.logger(`API key for '${targetProvider}' stored securely.`, 'debug', false);
             } else {
-                await this.context.secrets.delete(this.SECRET_KEY_API);
-                this.logger('API key cleared.', 'debug', false);
+                await this.context.secrets.delete(this.getApiKeySecretName(targetProvider));
+                this.logger(`API key for '${targetProvider}' cleared.`, 'debug', false);
             }
         } catch (error) {
             const errorInst = error as Error;
@@ -68,264 +166,336 @@ export class ConfigurationService {
         }
     }
 
-    public getLlmInstructions(): string {
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        const configValue = config.get<string>('llmInstructions');
+    public async getProvidersWithApiKey(): Promise<LLMProvider[]> {
+        const providers: LLMProvider[] = [];
+        for (const provider of LLM_PROVIDERS) {
+            if (await this.getApiKey(provider)) {
+                providers.push(provider);
+            }
+        }
+        return providers;
+    }
+
+    public getLlmInstructions(repositoryRoot?: string): string {
+        return this.resolveLlmInstructions(repositoryRoot).value;
+    }
+
+    private resolveLlmInstructions(repositoryRoot?: string): ResolvedSetting<string> {
+        const resolved = this.resolveSetting<string>('llmInstructions', '', this.getRepositoryConfig(repositoryRoot)?.config.instructions, repositoryRoot);
         
-        if (!configValue || configValue.trim() === '') {
-            const defaultInstructions = this.getDefaultInstructions();
+        if (!resolved.value || resolved.value.trim() === '') {
+            const defaultInstructions = DEFAULT_LLM_INSTRUCTIONS;
             this.logger(`Using default LLM instructions (length: ${defaultInstructions.length}) as custom instructions are empty or not set.`, 'debug');
-            return defaultInstructions;
+            return { value: defaultInstructions, source: 'default' };
         }
         
-        this.logger(`Using custom LLM instructions (length: ${configValue.length}).`, 'debug');
-        return configValue;
+        this.logger(`Using custom LLM instructions (length: ${resolved.value.length}, from ${resolved.source}).`, 'debug');
+        return resolved;
     }
 
-    public async setLlmInstructions(instructions: string): Promise<void> {
+    public getInstructionPresets(): InstructionPreset[] {
         const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        await config.update('llmInstructions', instructions, vscode.ConfigurationTarget.Workspace);
-        this.logger('LLM instructions saved to workspace configuration.', 'debug');
+        const presets = config.get<unknown[]>('instructionPresets', []);
+        if (!Array.isArray(presets)) {
+            return [];
+        }
+        return presets.filter((preset): preset is InstructionPreset => {
+            const candidate = preset as Partial<InstructionPreset> | null;
+            return !!candidate && typeof candidate.id === 'string' && typeof candidate.name === 'string' && typeof candidate.instructions === 'string';
+        });
     }
 
-    public getLlmProvider(): LLMProvider {
+    public async setInstructionPresets(presets: InstructionPreset[]): Promise<void> {
         const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        const provider = config.get<LLMProvider>('llmProvider');
-        this.logger(`Using LLM provider: ${provider || 'openai (defaulted)'}`, 'debug');
-        return provider || 'openai';
+        // Presets are a personal library used across repositories, unless the workspace already keeps its own list.
+        const target = config.inspect('instructionPresets')?.workspaceValue !== undefined
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        await config.update('instructionPresets', presets, target);
+        this.logger(`${presets.length} instruction preset(s) saved.`, 'debug');
     }
 
-    public async setLlmProvider(provider: LLMProvider): Promise<void> {
-        this.logger(`Setting LLM provider to: ${provider}`, 'debug');
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        await config.update('llmProvider', provider, vscode.ConfigurationTarget.Workspace);
-        this.logger(`LLM provider '${provider}' saved to workspace configuration.`, 'debug');
+    /** Instructions of the given preset, or the regular instructions when no preset is chosen or it no longer exists. */
+    public getInstructionsForPreset(presetId: string | undefined, repositoryRoot?: string): string {
+        if (presetId) {
+            const preset = this.getInstructionPresets().find(p => p.id === presetId);
+            if (preset && preset.instructions.trim()) {
+                this.logger(`Using instruction preset "${preset.name}".`, 'debug');
+                return preset.instructions;
+            }
+            this.logger(`Instruction preset "${presetId}" not found; using the regular instructions.`, 'warning');
+        }
+        return this.getLlmInstructions(repositoryRoot);
     }
 
-    public getLlmModel(): string {
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        const provider = this.getLlmProvider();
-        let defaultModel = 'gpt-4o-mini';
-        switch (provider) {
-            case 'anthropic': defaultModel = 'claude-3-5-sonnet-20240620'; break;
-            case 'gemini': defaultModel = 'gemini-1.5-flash-latest'; break;
-            case 'openrouter': defaultModel = 'openrouter/auto'; break;
-            case 'openai': defaultModel = 'gpt-4o-mini'; break;
+    public async setLlmInstructions(instructions: string, repositoryRoot?: string): Promise<void> {
+        await this.saveSetting('llmInstructions', 'LLM instructions', instructions, this.getRepositoryConfig(repositoryRoot)?.config.instructions, repositoryRoot);
+    }
+
+    public getLlmProvider(repositoryRoot?: string): LLMProvider {
+        return this.resolveLlmProvider(repositoryRoot).value;
+    }
+
+    private resolveLlmProvider(repositoryRoot?: string): ResolvedSetting<LLMProvider> {
+        let repositoryProvider = this.getRepositoryConfig(repositoryRoot)?.config.provider as LLMProvider | undefined;
+        if (repositoryProvider && !LLM_PROVIDERS.includes(repositoryProvider)) {
+            this.logger(`Ignoring unknown provider '${repositoryProvider}' in the repository settings file.`, 'warning');
+            repositoryProvider = undefined;
         }
-        const model = config.get<string>('llmModel', defaultModel);
-        this.logger(`Using LLM model: ${model} (Provider: ${provider})`, 'debug');
-        return model;
+        const resolved = this.resolveSetting<LLMProvider>('llmProvider', 'openai', repositoryProvider, repositoryRoot);
+        this.logger(`Using LLM provider: ${resolved.value} (from ${resolved.source})`, 'debug');
+        return resolved;
     }
 
-    public async setLlmModel(model: string): Promise<void> {
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        await config.update('llmModel', model, vscode.ConfigurationTarget.Workspace);
-        this.logger(`LLM model '${model}' saved to workspace configuration.`, 'debug');
+    public async setLlmProvider(provider: LLMProvider, repositoryRoot?: string): Promise<void> {
+        this.logger(`Setting LLM provider to: ${provider}`, 'debug');
+        await this.saveSetting('llmProvider', `LLM provider '${provider}'`, provider, this.getRepositoryConfig(repositoryRoot)?.config.provider as LLMProvider | undefined, repositoryRoot);
     }
 
-    public getMaxTokens(): number {
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        return config.get<number>('maxTokens', 4000);
+    public getLlmModel(repositoryRoot?: string): string {
+        return this.resolveLlmModel(repositoryRoot).value;
     }
 
-    public async setMaxTokens(maxTokens: number): Promise<void> {
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        await config.update('maxTokens', maxTokens, vscode.ConfigurationTarget.Workspace);
-        this.logger(`Max tokens setting '${maxTokens}' saved.`, 'debug');
+    private resolveLlmModel(repositoryRoot?: string): ResolvedSetting<string> {
+        const provider = this.getLlmProvider(repositoryRoot);
+        const defaultModel = getDefaultModel(provider);
+        const resolved = this.resolveSetting<string>('llmModel', defaultModel, this.getRepositoryConfig(repositoryRoot)?.config.model, repositoryRoot);
+        // The package default is an OpenAI model, so an unset model follows the provider instead.
+        const model = resolved.source === 'default' ? { value: defaultModel, source: resolved.source } : resolved;
+        this.logger(`Using LLM model: ${model.value} (Provider: ${provider}, from ${model.source})`, 'debug');
+        return model;
     }
 
-    public getTemperature(): number {
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        return config.get<number>('temperature', 0.3);
+    public async setLlmModel(model: string, repositoryRoot?: string): Promise<void> {
+        await this.saveSetting('llmModel', `LLM model '${model}'`, model, this.getRepositoryConfig(repositoryRoot)?.config.model, repositoryRoot);
     }
 
-    public async setTemperature(temperature: number): Promise<void> {
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        await config.update('temperature', temperature, vscode.ConfigurationTarget.Workspace);
-        this.logger(`Temperature setting '${temperature}' saved.`, 'debug');
+    public getMaxTokens(repositoryRoot?: string): number {
+        return this.resolveSetting<number>('maxTokens', 4000, this.getRepositoryConfig(repositoryRoot)?.config.maxTokens, repositoryRoot).value;
     }
 
-    public getOpenRouterRefererUrl(): string {
-        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-        return config.get<string>('openRouterRefererUrl', 'http://localhost');
+    public async setMaxTokens(maxTokens: number, repositoryRoot?: string): Promise<void> {
+        await this.saveSetting('maxTokens', `Max tokens '${maxTokens}'`, maxTokens, this.getRepositoryConfig(repositoryRoot)?.config.maxTokens, repositoryRoot);
     }
 
-    public async getLLMSettings(): Promise<LLMSettings> {
+    public getTemperature(repositoryRoot?: string): number {
+        return this.resolveSetting<number>('temperature', 0.3, this.getRepositoryConfig(repositoryRoot)?.config.temperature, repositoryRoot).value;
+    }
+
+    public getPromptTemplates(repositoryRoot?: string): PromptTemplates {
+        const repositoryConfig = this.getRepositoryConfig(repositoryRoot)?.config;
         return {
-            apiKey: await this.getApiKey(),
-            instructions: this.getLlmInstructions(),
-            provider: this.getLlmProvider(),
-            model: this.getLlmModel(),
-            maxTokens: this.getMaxTokens(),
-            temperature: this.getTemperature(),
-            openRouterRefererUrl: this.getOpenRouterRefererUrl()
+            fileSummary: this.resolveSetting<string>('fileSummaryPromptTemplate', '', repositoryConfig?.fileSummaryPromptTemplate, repositoryRoot).value,
+            commitMessage: this.resolveSetting<string>('commitMessagePromptTemplate', '', repositoryConfig?.commitMessagePromptTemplate, repositoryRoot).value
         };
     }
 
-    private getDefaultInstructions(): string {
-        return `# Git Commit Message Generation Instructions
-
-You are a Git commit message generator. Follow these rules exactly to create properly structured commit messages.
-
-## OUTPUT FORMAT REQUIREMENTS
+    public async setPromptTemplates(templates: PromptTemplates, repositoryRoot?: string): Promise<void> {
+        const repositoryConfig = this.getRepositoryConfig(repositoryRoot)?.config;
+        await this.saveSetting('fileSummaryPromptTemplate', 'The file summary prompt template', templates.fileSummary, repositoryConfig?.fileSummaryPromptTemplate, repositoryRoot);
+        await this.saveSetting('commitMessagePromptTemplate', 'The commit message prompt template', templates.commitMessage, repositoryConfig?.commitMessagePromptTemplate, repositoryRoot);
+    }
 
-**CRITICAL**: Always respond with plain text only. Never use markdown code blocks (\`\`\`) or any formatting.
+    /** The repository file's general context; it is sent in front of the context typed in the view. */
+    public getRepositoryGeneralContext(repositoryRoot?: string): string {
+        return this.getRepositoryConfig(repositoryRoot)?.config.generalContext?.trim() || '';
+    }
 
-Your response must follow this exact structure:
+    /** Combines the repository's shared general context with the one typed in the view. */
+    public combineGeneralContext(repositoryRoot: string | undefined, generalContext: string): string {
+        return [this.getRepositoryGeneralContext(repositoryRoot), generalContext.trim()].filter(Boolean).join('\n\n');
+    }
 
-**For single file changes:**
+    /** Where the effective value of each setting shown in the settings view comes from. */
+    public getSettingSources(repositoryRoot?: string): Record<string, SettingSource> {
+        const repositoryConfig = this.getRepositoryConfig(repositoryRoot)?.config;
+        const sources: Record<string, SettingSource> = {
+            provider: this.resolveLlmProvider(repositoryRoot).source,
+            model: this.resolveLlmModel(repositoryRoot).source,
+            maxTokens: this.resolveSetting<number>('maxTokens', 4000, repositoryConfig?.maxTokens, repositoryRoot).source,
+            temperature: this.resolveSetting<number>('temperature', 0.3, repositoryConfig?.temperature, repositoryRoot).source,
+            instructions: this.resolveLlmInstructions(repositoryRoot).source,
+            fileSummaryPromptTemplate: this.resolveSetting<string>('fileSummaryPromptTemplate', '', repositoryConfig?.fileSummaryPromptTemplate, repositoryRoot).source,
+            commitMessagePromptTemplate: this.resolveSetting<string>('commitMessagePromptTemplate', '', repositoryConfig?.commitMessagePromptTemplate, repositoryRoot).source
+        };
+        // These are combined with the user's values rather than competing with them, so they are only listed when the file sets them.
+        for (const key of ['generalContext', 'commitTypes', 'ignorePatterns'] as const) {
+            if (repositoryConfig?.[key]) {
+                sources[key] = 'repository';
+            }
+        }
+        return sources;
+    }
 
-type: brief description
+    public async setTemperature(temperature: number, repositoryRoot?: string): Promise<void> {
+        await this.saveSetting('temperature', `Temperature '${temperature}'`, temperature, this.getRepositoryConfig(repositoryRoot)?.config.temperature, repositoryRoot);
+    }
 
-- Detailed change description explaining what changed and why/how it's better
-- Another detailed change description explaining what changed and why/how it's better
+    public getOpenRouterRefererUrl(): string {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        return config.get<string>('openRouterRefererUrl', 'http://localhost');
+    }
 
-**For multiple file changes (MANDATORY format):**
+    // Machine-overridable, so a workspace folder can point its repositories at another server.
+    public getOllamaBaseUrl(repositoryRoot?: string): string {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION, repositoryRoot ? vscode.Uri.file(repositoryRoot) : undefined);
+        const baseUrl = config.get<string>('ollamaBaseUrl', DEFAULT_OLLAMA_BASE_URL).trim();
+        return (baseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+    }
 
-type: brief description
+    public async setOllamaBaseUrl(baseUrl: string): Promise<void> {
+        await this.saveSetting('ollamaBaseUrl', `Ollama base URL '${baseUrl}'`, baseUrl.trim());
+    }
 
-filename1.ext:
-- Detailed change description for this file, explaining what changed and how it's different/better
-- Another detailed change description for this file, explaining what changed and how it's different/better
+    public getOpenAICompatibleSettings(repositoryRoot?: string): OpenAICompatibleSettings {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION, repositoryRoot ? vscode.Uri.file(repositoryRoot) : undefined);
+        const authScheme = config.get<OpenAICompatibleAuthScheme>('openAICompatibleAuthScheme', 'bearer');
+        const rawHeaders = config.get<Record<string, unknown>>('openAICompatibleHeaders', {}) || {};
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(rawHeaders)) {
+            if (typeof value === 'string') {
+                headers[name] = value;
+            } else {
+                this.logger(`Ignoring non-string value for OpenAI-compatible header "${name}".`, 'warning');
+            }
+        }
+        return {
+            baseUrl: config.get<string>('openAICompatibleBaseUrl', '').trim().replace(/\/+$/, ''),
+            authScheme: OPENAI_COMPATIBLE_AUTH_SCHEMES.includes(authScheme) ? authScheme : 'bearer',
+            headers
+        };
+    }
 
-filename2.ext:
-- Detailed change description for this file, explaining what changed and how it's different/better
-- Another detailed change description for this file, explaining what changed and how it's different/better
+    public async setOpenAICompatibleSettings(settings: Partial<OpenAICompatibleSettings>): Promise<void> {
+        if (settings.baseUrl !== undefined) {
+            await this.saveSetting('openAICompatibleBaseUrl', 'OpenAI-compatible base URL', settings.baseUrl.trim());
+        }
+        if (settings.authScheme !== undefined) {
+            await this.saveSetting('openAICompatibleAuthScheme', 'OpenAI-compatible auth scheme', settings.authScheme);
+        }
+        if (settings.headers !== undefined) {
+            await this.saveSetting('openAICompatibleHeaders', 'OpenAI-compatible headers', settings.headers);
+        }
+    }
 
-## COMMIT TYPES
+    public providerRequiresApiKey(provider?: LLMProvider, repositoryRoot?: string): boolean {
+        const effectiveProvider = provider || this.getLlmProvider(repositoryRoot);
+        if (effectiveProvider === 'openai-compatible') {
+            return this.getOpenAICompatibleSettings(repositoryRoot).authScheme !== 'none';
+        }
+        return !KEYLESS_PROVIDERS.includes(effectiveProvider);
+    }
 
-Use exactly one of these types:
-- **feat**: New features, functionality or file
-- **fix**: Bug fixes
-- **refactor**: Code restructuring without changing functionality  
-- **style**: Code formatting, whitespace, missing semicolons (no logic changes)
-- **docs**: Documentation changes
-- **test**: Adding or updating tests
-- **chore**: Build process, dependency updates, tooling
-- **perf**: Performance improvements
-- **ci**: Continuous integration changes
-- **build**: Build system or external dependency changes
+    public getSummaryConcurrency(): number {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const concurrency = Math.floor(config.get<number>('summaryConcurrency', 4));
+        return Math.min(16, Math.max(1, Number.isFinite(concurrency) ? concurrency : 4));
+    }
 
-## STRUCTURE RULES
+    public getSummaryCacheMaxEntries(): number {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const maxEntries = Math.floor(config.get<number>('summaryCacheMaxEntries', 500));
+        return Number.isFinite(maxEntries) ? Math.max(0, maxEntries) : 500;
+    }
 
-### Subject Line
-- Format: \`type: brief description\`
-- Maximum 50 characters
-- Use imperative mood ("Add" not "Added")
-- No period at the end
-- Be specific about what was accomplished
+    public getStreamResponses(): boolean {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        return config.get<boolean>('streamResponses', true);
+    }
 
-### Body (when multiple changes exist)
-- Start immediately after subject line with no blank line
-- Organize ALL changes by filename when multiple files are involved
-- Use filename exactly as it appears in the diff
-- Indent changes with "- " under each filename
-- Each change should be descriprive of the change. In other words: Dont just explain what is changed, but how its supiriour or why its done. Example: Dont write: Added MUI components for better UI, rather you would write: Added MUI button, table components for clearer UI that displays x data.
-- Use present tense, imperative mood
+    public getSecretScanSettings(): SecretScanSettings {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const mode = config.get<SecretHandlingMode>('secretHandling', 'redact');
+        const customPatterns = config.get<unknown[]>('secretPatterns', []);
+        return {
+            mode: ['redact', 'block', 'off'].includes(mode) ? mode : 'redact',
+            customPatterns: Array.isArray(customPatterns) ? customPatterns.filter((p): p is string => typeof p === 'string' && p.trim() !== '') : []
+        };
+    }
 
-## CRITICAL RULE: FILE ORGANIZATION
-
-When multiple files are changed, you MUST organize by filename. Never group all changes together.
+    public getIgnorePatterns(repositoryRoot?: string): string[] {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const patterns = [...config.get<unknown[]>('ignorePatterns', []), ...(this.getRepositoryConfig(repositoryRoot)?.config.ignorePatterns || [])];
+        return patterns.filter((p): p is string => typeof p === 'string' && p.trim() !== '');
+    }
 
-**WRONG (all changes together):**
-feat: optimize ChargerOfflineOverview page
-- Added MUI components for better UI
-- Implemented enhanced data fetching from APIs  
-- Introduced data source selection
-- Fixed minor imports and type issues
+    public getUseCommitHistoryStyle(): boolean {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        return config.get<boolean>('useCommitHistoryStyle', true);
+    }
 
-**CORRECT (organized by file):**
-feat: optimize ChargerOfflineOverview page with enhanced data and UI improvements
+    public getCommitHistoryExampleCount(): number {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const count = Math.floor(config.get<number>('commitHistoryExampleCount', 5));
+        return Math.min(20, Math.max(1, Number.isFinite(count) ? count : 5));
+    }
 
-src/pages/chargerOfflineOverview/ChargerOfflineOverview.tsx:
-- Added MUI button, table components for clearer UI that displays x data
-- Implement enhanced data fetching from Firebase and Emabler APIs, this allowes us to get data from two sources and compare them.
-- Introduce data source selection for faster/slower loading options.
-- Display data source statistics and error messages
-- Add loading warning for slow data fetching
-- Improve error handling and error display
-- Add loader while data is being fetched
-- Fix minor imports and type issues
+    public getLintCommitMessages(): boolean {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        return config.get<boolean>('lintCommitMessages', true);
+    }
 
-## ANALYSIS PROCESS
+    public getCommitLintRules(repositoryRoot?: string): CommitLintRules {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const clamp = (value: number, min: number, max: number, fallback: number) =>
+            Number.isFinite(value) ? Math.min(max, Math.max(min, Math.floor(value))) : fallback;
+        const commitTypes = this.getRepositoryConfig(repositoryRoot)?.config.commitTypes;
+        return {
+            ...DEFAULT_COMMIT_LINT_RULES,
+            types: commitTypes && commitTypes.length > 0 ? commitTypes : DEFAULT_COMMIT_LINT_RULES.types,
+            headerMaxLength: clamp(config.get<number>('commitHeaderMaxLength', 50), 20, 200, 50),
+            bodyMaxLineLength: clamp(config.get<number>('commitBodyMaxLineLength', 72), 20, 500, 72)
+        };
+    }
 
-### Step 1: Deep Code Diff Analysis (CRITICAL)
-**Before writing anything, analyze each file's diff line by line:**
+    public getRetrySettings(): RetrySettings {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const clamp = (value: number, min: number, max: number, fallback: number) =>
+            Number.isFinite(value) ? Math.min(max, Math.max(min, Math.floor(value))) : fallback;
+        const maxDelayMs = clamp(config.get<number>('retryMaxDelayMs', 30000), 0, 300000, 30000);
+        return {
+            maxRetries: clamp(config.get<number>('maxRetries', 3), 0, 10, 3),
+            baseDelayMs: Math.min(maxDelayMs, clamp(config.get<number>('retryBaseDelayMs', 1000), 0, 60000, 1000)),
+            maxDelayMs
+        };
+    }
 
-- **Examine added lines**: What specific functions, components, variables, or logic was added?
-- **Examine removed lines**: What was deleted or replaced?
-- **Examine modified lines**: What specific changes were made to existing code?
-- **Look for patterns**: Are new imports added? New state variables? New API calls? New UI components?
-- **Identify specific implementation details**: Don't just see "data fetching" - see what specific endpoints, parameters, error handling, loading states were added
+    public async getLLMSettings(repositoryRoot?: string, presetId?: string): Promise<LLMSettings> {
+        const provider = this.getLlmProvider(repositoryRoot);
+        return {
+            apiKey: await this.getApiKey(provider),
+            instructions: this.getInstructionsForPreset(presetId, repositoryRoot),
+            provider,
+            model: this.getLlmModel(repositoryRoot),
+            maxTokens: this.getMaxTokens(repositoryRoot),
+            temperature: this.getTemperature(repositoryRoot),
+            openRouterRefererUrl: this.getOpenRouterRefererUrl(),
+            ollamaBaseUrl: this.getOllamaBaseUrl(repositoryRoot),
+            openAICompatible: this.getOpenAICompatibleSettings(repositoryRoot),
+            streamResponses: this.getStreamResponses(),
+            retry: this.getRetrySettings(),
+            promptTemplates: this.getPromptTemplates(repositoryRoot)
+        };
+    }
 
-### Step 2: Determine Primary Commit Type
-- Look at all changes across all files
-- Choose the most significant type of change
-- If adding any new functionality, use \`feat\`
-- If only fixing bugs, use \`fix\`
-- If only reorganizing code without new features, use \`refactor\`
-
-### Step 3: Write Subject Line
-- Summarize the overall purpose in 50 characters or less
-- Focus on the business value or main accomplishment
-- Use specific terms relevant to the domain
-
-### Step 4: Organize Body by File with SPECIFIC Implementation Details
-- List each changed file exactly as named in the diff
-- Under each file, describe EXACTLY what code was added/modified/removed
-- Be specific about new variables, functions, components, API endpoints, UI elements
-- Explain the purpose and benefit of each specific implementation detail
-
-## WRITING GUIDELINES
-
-### CRITICAL: Be Specific About Implementation
-Instead of vague descriptions, describe EXACTLY what was implemented:
-
-### Use These Specific Patterns:
-- "Add [SpecificComponent] component with [specific props/functionality]"
-- "Implement [specificFunction()] that [specific behavior/parameters]"
-- "Add [specificVariable] state to track [specific data/condition]"
-- "Create [specificHook/utility] for [specific purpose]"
-- "Update [specificFunction] to handle [specific case/parameter]"
-- "Add error boundary for [specific error type] with [specific fallback]"
-
-### Avoid These Patterns:
-- "Various changes"
-- "Updated stuff" 
-- "Improvements"
-- "Changes to support..."
-- Past tense ("Added", "Fixed")
-- Vague descriptions
-
-## CONTEXT INTEGRATION
-
-Use provided context to understand the broader purpose, but ALWAYS prioritize the actual code diff for specific implementation details.
-
-**Analysis Priority:**
-1. **File diffs (PRIMARY)**: Examine the actual code changes line by line to understand exactly what was implemented
-2. **Group-specific context**: Use to understand why these specific changes were made together  
-3. **General context**: Use to understand the broader project purpose
-
-**Required Analysis Questions:**
-- What specific functions/variables/components were added to the code?
-- What specific imports were added and why?
-- What specific UI elements were added with what properties?
-- What specific state management was implemented?
-- What specific error handling was added?
-- What specific API integration was implemented?
-
-Each change description should reference ACTUAL code elements visible in the diff, not just conceptual descriptions.
-
-## FINAL CHECKLIST
-
-Before responding, verify:
-1. No markdown formatting or code blocks in your response
-2. Subject line under 50 characters
-3. If multiple files: each file listed separately with its specific changes
-4. All changes use present tense, imperative mood
-5. Changes are specific and actionable
-6. Commit type accurately reflects the most significant change
-7. If multiple files: Make sure all files are listed, and that all the chagnes are included under the file.`;
+    /** Everything the CLI needs to generate like the extension does for this repository, except the API key. */
+    public getSettingsSnapshot(repositoryRoot: string): SettingsSnapshot {
+        return {
+            provider: this.getLlmProvider(repositoryRoot),
+            model: this.getLlmModel(repositoryRoot),
+            maxTokens: this.getMaxTokens(repositoryRoot),
+            temperature: this.getTemperature(repositoryRoot),
+            instructions: this.getLlmInstructions(repositoryRoot),
+            openRouterRefererUrl: this.getOpenRouterRefererUrl(),
+            ollamaBaseUrl: this.getOllamaBaseUrl(repositoryRoot),
+            openAICompatible: this.getOpenAICompatibleSettings(repositoryRoot),
+            retry: this.getRetrySettings(),
+            promptTemplates: this.getPromptTemplates(repositoryRoot),
+            ignorePatterns: this.getIgnorePatterns(repositoryRoot),
+            secretScan: this.getSecretScanSettings(),
+            commitLintRules: this.getCommitLintRules(repositoryRoot),
+            styleExampleCount: this.getUseCommitHistoryStyle() ? this.getCommitHistoryExampleCount() : 0
+        };
     }
 
     public async openFileDiff(fileUri: vscode.Uri): Promise<void> {
@@ -340,6 +510,9 @@ Before responding, verify:
     }
 
     public validateApiKey(apiKey: string, provider?: LLMProvider): { valid: boolean; error?: string } {
+        if (!this.providerRequiresApiKey(provider)) {
+            return { valid: true };
+        }
         if (!apiKey || !apiKey.trim()) {
             return { valid: false, error: 'API key is required' };
         }
@@ -358,6 +531,9 @@ Before responding, verify:
         } else if (currentProvider === 'openrouter') {
             if (trimmed.startsWith('sk-or-') && trimmed.length >= 20) return { valid: true };
             return { valid: false, error: 'OpenRouter API key should start with "sk-or-".' };
+        } else if (currentProvider === 'openai-compatible') {
+            // Self-hosted servers and gateways use arbitrary key formats.
+            return { valid: true };
         }
         this.logger(`Unknown provider '${currentProvider}' for API key validation.`, 'warning');
         return { valid: false, error: `Unknown provider '${currentProvider}' for API key validation` };
@@ -374,7 +550,9 @@ Before responding, verify:
             temperature: this.getTemperature(),
             hasApiKey: !!(await this.getApiKey()), 
             instructionsLength: currentInstructions.length,
-            openRouterRefererUrl: this.getOpenRouterRefererUrl()
+            openRouterRefererUrl: this.getOpenRouterRefererUrl(),
+            ollamaBaseUrl: this.getOllamaBaseUrl(),
+            openAICompatibleBaseUrl: this.getOpenAICompatibleSettings().baseUrl
         };
     }
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+// src/services/GitHookService.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from './GitService';
+import { SettingsSnapshot } from './SettingsProvider';
+
+export const HOOK_NAME = 'prepare-commit-msg';
+// Marks hook files and husky script lines written by this extension, so they are never mistaken for the user's own.
+const HOOK_MARKER = '# llm-committer prepare-commit-msg hook';
+const HUSKY_BLOCK_START = '# >>> llm-committer >>>';
+const HUSKY_BLOCK_END = '# <<< llm-committer <<<';
+// An existing hook is moved here on install and runs before ours; uninstall moves it back.
+const PREVIOUS_HOOK_SUFFIX = '.pre-llm-committer';
+// Inside the repository's git directory, so nothing here is ever committed.
+const RUNNER_DIRECTORY = 'llm-committer';
+
+// Both the hook and the husky line find the runner through git, so they keep working when the repository moves.
+const RUN_RUNNER = 'runner="$(git rev-parse --git-common-dir)/llm-committer/prepare-commit-msg"\nif [ -x "$runner" ]; then "$runner" "$@"; fi';
+
+export interface HookRunnerOptions {
+    nodePath: string;         // Executable that runs the CLI; VS Code's own runtime is used as Node via ELECTRON_RUN_AS_NODE
+    cliPath: string;          // out/cli/main.js of the installed extension
+    settings: SettingsSnapshot;
+}
+
+export interface HookStatus {
+    installed: boolean;
+    hookPath: string;  // The hook file, or the husky script the hook is added to
+    husky: boolean;
+}
+
+type LoggerFunction = (message: string, type?: 'info' | 'error' | 'warning' | 'debug', showPopup?: boolean) => void;
+
+/**
+ * Installs a `prepare-commit-msg` hook that runs the CLI (`llm-committer generate --staged`) when
+ * `git commit` is started without a message. The hook itself only calls a runner script in the git
+ * directory, which the extension rewrites with the current paths and settings.
+ *
+ * With husky (`core.hooksPath` inside `.husky`), a marked block is added to `.husky/prepare-commit-msg`
+ * instead, since husky regenerates its own hook files. Otherwise an existing hook is kept and chained.
+ */
+export class GitHookService {
+    private logger: LoggerFunction;
+
+    constructor(logger: LoggerFunction = console.log) {
+        this.logger = logger;
+    }
+
+    public async getStatus(repositoryRoot: string): Promise<HookStatus> {
+        const huskyDirectory = await this.getHuskyDirectory(repositoryRoot);
+        const hookPath = huskyDirectory ? path.join(huskyDirectory, HOOK_NAME) : path.join(await this.getHooksDirectory(repositoryRoot), HOOK_NAME);
+        const content = fs.existsSync(hookPath) ? await fs.promises.readFile(hookPath, 'utf8') : '';
+        const installed = huskyDirectory ? content.includes(HUSKY_BLOCK_START) : content.includes(HOOK_MARKER);
+        return { installed, hookPath, husky: !!huskyDirectory };
+    }
+
+    public async install(repositoryRoot: string, runner: HookRunnerOptions): Promise<HookStatus> {
+        await this.writeRunner(repositoryRoot, runner);
+        const status = await this.getStatus(repositoryRoot);
+        if (status.installed) {
+            this.logger(`The ${HOOK_NAME} hook is already installed in ${status.hookPath}; its runner was updated.`, 'debug');
+            return status;
+        }
+
+        if (status.husky) {
+            const existing = fs.existsSync(status.hookPath) ? await fs.promises.readFile(status.hookPath, 'utf8') : '#!/usr/bin/env sh\n';
+            const block = `${HUSKY_BLOCK_START}\n${RUN_RUNNER}\n${HUSKY_BLOCK_END}\n`;
+            await fs.promises.writeFile(status.hookPath, `${existing.replace(/\n*$/, '\n')}${block}`, { mode: 0o755 });
+            await fs.promises.chmod(status.hookPath, 0o755);
+            this.logger(`Added the LLM Committer block to ${status.hookPath}.`, 'info');
+            return { ...status, installed: true };
+        }
+
+        await fs.promises.mkdir(path.dirname(status.hookPath), { recursive: true });
+        if (fs.existsSync(status.hookPath)) {
+            await fs.promises.rename(status.hookPath, status.hookPath + PREVIOUS_HOOK_SUFFIX);
+            this.logger(`Kept the existing ${HOOK_NAME} hook as ${HOOK_NAME}${PREVIOUS_HOOK_SUFFIX}; it runs before the message is generated.`, 'info');
+        }
+        await fs.promises.writeFile(status.hookPath, this.buildHook(), { mode: 0o755 });
+        await fs.promises.chmod(status.hookPath, 0o755);
+        this.logger(`Installed the ${HOOK_NAME} hook in ${status.hookPath}.`, 'info');
+        return { ...status, installed: true };
+    }
+
+    public async uninstall(repositoryRoot: string): Promise<HookStatus> {
+        const status = await this.getStatus(repositoryRoot);
+        if (status.installed) {
+            if (status.husky) {
+                const content = await fs.promises.readFile(status.hookPath, 'utf8');
+                const blockPattern = new RegExp(`\\n?${escapeRegExp(HUSKY_BLOCK_START)}[\\s\\S]*?${escapeRegExp(HUSKY_BLOCK_END)}\\n?`);
+                await fs.promises.writeFile(status.hookPath, content.replace(blockPattern, '\n'));
+                this.logger(`Removed the LLM Committer block from ${status.hookPath}.`, 'info');
+            } else {
+                await fs.promises.unlink(status.hookPath);
+                const previousHook = status.hookPath + PREVIOUS_HOOK_SUFFIX;
+                if (fs.existsSync(previousHook)) {
+                    await fs.promises.rename(previousHook, status.hookPath);
+                    this.logger(`Restored the previous ${HOOK_NAME} hook.`, 'info');
+                }
+                this.logger(`Removed the ${HOOK_NAME} hook from ${status.hookPath}.`, 'info');
+            }
+        }
+        await fs.promises.rm(path.join(await this.getGitCommonDirectory(repositoryRoot), RUNNER_DIRECTORY), { recursive: true, force: true });
+        return { ...status, installed: false };
+    }
+
+    /** Rewrites the runner and the settings snapshot, e.g. after the extension was updated or a setting changed. */
+    public async writeRunner(repositoryRoot: string, runner: HookRunnerOptions): Promise<void> {
+        const runnerDirectory = path.join(await this.getGitCommonDirectory(repositoryRoot), RUNNER_DIRECTORY);
+        await fs.promises.mkdir(runnerDirectory, { recursive: true });
+        const settingsFile = path.join(runnerDirectory, 'settings.json');
+        await fs.promises.writeFile(settingsFile, JSON.stringify(runner.settings, null, 2));
+        const runnerFile = path.join(runnerDirectory, HOOK_NAME);
+        await fs.promises.writeFile(runnerFile, this.buildRunner(runner, settingsFile), { mode: 0o755 });
+        await fs.promises.chmod(runnerFile, 0o755);
+        this.logger(`Updated the commit hook runner in ${runnerDirectory}.`, 'debug');
+    }
+
+    private buildHook(): string {
+        return [
+            '#!/bin/sh',
+            HOOK_MARKER,
+            '# Installed by LLM Committer. Remove it with "LLM Committer: Uninstall prepare-commit-msg Hook".',
+            `previous="$(dirname "$0")/${HOOK_NAME}${PREVIOUS_HOOK_SUFFIX}"`,
+            'if [ -x "$previous" ]; then "$previous" "$@" || exit $?; fi',
+            RUN_RUNNER,
+            'exit 0',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Only a plain `git commit` gets a message: the second argument is empty unless the message came
+     * from -m/-F, a template, a merge, a squash or an existing commit (--amend, -c, -C).
+     * Commits that never open an editor are skipped too, so a generated message is always reviewed:
+     * git sets GIT_EDITOR to ":" for the hook with --no-edit, and `GIT_EDITOR=true` is the usual way
+     * scripts turn the editor off.
+     * A failed generation never blocks the commit; the editor just opens without a message.
+     */
+    private buildRunner(runner: HookRunnerOptions, settingsFile: string): string {
+        return [
+            '#!/bin/sh',
+            '# Written by LLM Committer and rewritten when the extension starts or its settings change. Do not edit.',
+            '[ -z "$2" ] || exit 0',
+            '[ -z "$LLM_COMMITTER_SKIP_HOOK" ] || exit 0',
+            'case "$GIT_EDITOR" in :|true) exit 0 ;; esac',
+            'echo "LLM Committer: generating commit message..." >&2',
+            `message=$(LLM_COMMITTER_SETTINGS_FILE=${shellQuote(settingsFile)} ELECTRON_RUN_AS_NODE=1 ${shellQuote(runner.nodePath)} ${shellQuote(runner.cliPath)} generate --staged) || {`,
+            '    echo "LLM Committer: no message generated." >&2',
+            '    exit 0',
+            '}',
+            '[ -n "$message" ] || exit 0',
+            '{ printf \'%s\\n\' "$message"; cat "$1"; } > "$1.llm-committer" && mv "$1.llm-committer" "$1"',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * The `.husky` directory when `core.hooksPath` points into one (husky 5-8 set it to `.husky`, husky 9 to
+     * `.husky/_`). Husky 4 configured hooks in package.json and installed plain git hooks, which are chained.
+     */
+    private async getHuskyDirectory(repositoryRoot: string): Promise<string | undefined> {
+        const { stdout } = await runGit(['config', '--get', 'core.hooksPath'], repositoryRoot, { allowedExitCodes: [1] });
+        const hooksPath = stdout.trim();
+        const match = /^(.*?\.husky)(?:[\\/]|$)/.exec(hooksPath);
+        return match ? path.resolve(repositoryRoot, match[1]) : undefined;
+    }
+
+    /** Where git looks for hooks, honoring `core.hooksPath`. */
+    private async getHooksDirectory(repositoryRoot: string): Promise<string> {
+        const { stdout } = await runGit(['rev-parse', '--git-path', 'hooks'], repositoryRoot);
+        return path.resolve(repositoryRoot, stdout.trim());
+    }
+
+    // Shared by all worktrees of the repository, like the hooks directory.
+    private async getGitCommonDirectory(repositoryRoot: string): Promise<string> {
+        const { stdout } = await runGit(['rev-parse', '--git-common-dir'], repositoryRoot);
+        return path.resolve(repositoryRoot, stdout.trim());
+    }
+}
+
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,11 +1,50 @@
 // src/services/GitService.ts
-import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import * as util from 'util';
+import { execFile } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs'; // Ensure fs is imported if used, though not directly in this version
+import { DiffHunk, parseFileDiff, buildPatch } from '../utils/diffHunks';
 
-const execAsync = util.promisify(exec);
+const DIFF_MAX_BUFFER = 1024 * 1024 * 5;
+// Object id of the empty tree, which every repository knows even before its first commit.
+const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+interface GitRunOptions {
+    input?: string;              // Written to git's stdin
+    maxBuffer?: number;
+    allowedExitCodes?: number[]; // Non-zero exit codes that still count as success (e.g. 1 for `git diff --no-index`)
+}
+
+export class GitCommandError extends Error {
+    constructor(message: string, public readonly exitCode: number | undefined, public readonly stderr: string) {
+        super(message);
+        this.name = 'GitCommandError';
+    }
+}
+
+/**
+ * Runs git with an argument array. No shell is involved, so file names and messages are passed
+ * through verbatim and never need quoting.
+ */
+export function runGit(args: string[], cwd: string, options: GitRunOptions = {}): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+        const child = execFile('git', args, { cwd, maxBuffer: options.maxBuffer ?? DIFF_MAX_BUFFER, encoding: 'utf8' }, (error, stdout, stderr) => {
+            if (!error) {
+                resolve({ stdout, stderr });
+                return;
+            }
+            const exitCode = typeof error.code === 'number' ? error.code : undefined;
+            if (exitCode !== undefined && options.allowedExitCodes?.includes(exitCode)) {
+                resolve({ stdout, stderr });
+                return;
+            }
+            // Some failures (e.g. "nothing to commit") are only reported on stdout.
+            reject(new GitCommandError(stderr.trim() || stdout.trim() || error.message, exitCode, stderr));
+        });
+        if (options.input !== undefined) {
+            child.stdin?.end(options.input);
+        }
+    });
+}
 
 export interface FileDiff {
     filePath: string;
@@ -16,6 +55,15 @@ export interface FileDiff {
 // Define type alias for changeType to ensure consistency
 export type FileDiffChangeType = 'modified' | 'added' | 'deleted' | 'renamed';
 
+export interface RepositoryChanges {
+    root: string; // Absolute path of the repository's top-level directory
+    name: string; // Short display name, unique within the workspace
+    changedFiles: string[]; // Paths relative to `root`
+}
+
+// Selected hunk ids per file path; files without an entry are used whole.
+export type HunkSelection = Record<string, string[]>;
+
 
 // Define a type for the logger function
 type LoggerFunction = (
@@ -26,56 +74,100 @@ type LoggerFunction = (
 
 export class GitService {
     private logger: LoggerFunction;
+    private getWorkspaceFolders: () => string[];
+    private repositoryRoots: Promise<string[]> | undefined;
+    private readonly MAX_REPOSITORY_SCAN_DEPTH = 4;
+    private readonly SKIPPED_SCAN_DIRECTORIES = new Set(['node_modules', 'out', 'dist', 'build', 'target', 'vendor']);
 
-    constructor(logger: LoggerFunction) {
+    // `getWorkspaceFolders` lists the folders searched by `getRepositoryRoots`; the extension passes VS Code's workspace folders.
+    constructor(logger: LoggerFunction, getWorkspaceFolders: () => string[] = () => []) {
         this.logger = logger;
+        this.getWorkspaceFolders = getWorkspaceFolders;
     }
 
-    private async getWorkspaceRoot(): Promise<string | undefined> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length > 0) {
-            const folderPath = workspaceFolders[0].uri.fsPath;
+    /**
+     * Finds every Git repository in the workspace: the repository containing each workspace folder
+     * plus repositories nested inside the folders (up to MAX_REPOSITORY_SCAN_DEPTH levels deep).
+     * The result is cached until `invalidateRepositories` is called.
+     */
+    public getRepositoryRoots(): Promise<string[]> {
+        if (!this.repositoryRoots) {
+            this.repositoryRoots = this.discoverRepositoryRoots();
+        }
+        return this.repositoryRoots;
+    }
+
+    public invalidateRepositories(): void {
+        this.repositoryRoots = undefined;
+    }
+
+    private async discoverRepositoryRoots(): Promise<string[]> {
+        const roots = new Set<string>();
+        for (const folderPath of this.getWorkspaceFolders()) {
             try {
-                const { stdout } = await execAsync('git rev-parse --show-toplevel', { cwd: folderPath });
-                return stdout.trim();
+                const { stdout } = await runGit(['rev-parse', '--show-toplevel'], folderPath);
+                roots.add(path.normalize(stdout.trim()));
             } catch (error) {
                 const errorInst = error as Error;
-                this.logger(`Folder ${folderPath} is not a Git repository or git is not found. Error: ${errorInst.message}`, 'warning');
-                console.warn(`[GitService] Folder ${folderPath} not a Git repo:`, errorInst);
-                return undefined;
+                this.logger(`Folder ${folderPath} is not inside a Git repository or git is not found. Error: ${errorInst.message}`, 'debug');
+            }
+            for (const nestedRoot of await this.findNestedRepositories(folderPath, 0)) {
+                roots.add(path.normalize(nestedRoot));
             }
         }
-        return undefined;
+        const sortedRoots = [...roots].sort();
+        this.logger(`Found ${sortedRoots.length} Git repositor${sortedRoots.length === 1 ? 'y' : 'ies'}: ${sortedRoots.join(', ')}`, 'debug');
+        return sortedRoots;
     }
 
-    public async getChangedFiles(): Promise<string[]> {
-        const workspaceRoot = await this.getWorkspaceRoot();
-        if (!workspaceRoot) {
-            this.logger('No workspace/Git repository root found for getChangedFiles.', 'debug');
+    private async findNestedRepositories(directory: string, depth: number): Promise<string[]> {
+        if (depth > this.MAX_REPOSITORY_SCAN_DEPTH) {
             return [];
         }
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+        const found: string[] = [];
+        // ".git" is a directory in normal clones and a file in worktrees and submodules.
+        if (depth > 0 && entries.some(entry => entry.name === '.git')) {
+            found.push(directory);
+        }
+        for (const entry of entries) {
+            if (entry.isDirectory() && !entry.name.startsWith('.') && !this.SKIPPED_SCAN_DIRECTORIES.has(entry.name)) {
+                found.push(...await this.findNestedRepositories(path.join(directory, entry.name), depth + 1));
+            }
+        }
+        return found;
+    }
 
+    public async getChangedFilesByRepository(): Promise<RepositoryChanges[]> {
+        const roots = await this.getRepositoryRoots();
+        const names = roots.map(root => path.basename(root));
+        return Promise.all(roots.map(async (root, index) => ({
+            root,
+            // Repositories with the same folder name are told apart by their parent folder.
+            name: names.indexOf(names[index]) !== names.lastIndexOf(names[index])
+                ? `${path.basename(path.dirname(root))}/${names[index]}`
+                : names[index],
+            changedFiles: await this.getChangedFiles(root)
+        })));
+    }
+
+    public async getChangedFiles(repositoryRoot: string): Promise<string[]> {
         try {
-            const { stdout, stderr } = await execAsync('git status --porcelain=v1 -uall', { cwd: workspaceRoot });
+            const { stdout, stderr } = await runGit(['status', '--porcelain=v1', '-z', '-uall'], repositoryRoot);
             if (stderr) {
                 this.logger(`stderr from git status: ${stderr}`, 'warning');
-                console.warn(`[GitService] stderr from git status: ${stderr}`);
             }
             if (!stdout) return [];
 
-            const files = stdout
-                .split('\n')
-                .filter(line => line.trim() !== '')
-                .map(line => {
-                    const filePathRaw = line.substring(3);
-                    if (filePathRaw.startsWith('"') && filePathRaw.endsWith('"')) {
-                        return filePathRaw.substring(1, filePathRaw.length - 1);
-                    }
-                    if (line.startsWith('R ') && filePathRaw.includes(' -> ')) {
-                        return filePathRaw.split(' -> ')[1];
-                    }
-                    return filePathRaw;
-                }).filter(Boolean);
+            const files = this.parseStatusEntries(stdout)
+                .map(entry => entry.filePath)
+                // Nested repositories show up as untracked directories; they are listed as repositories of their own.
+                .filter(filePath => filePath && !filePath.endsWith('/'));
 
             this.logger(`Found ${files.length} changed files.`, 'debug');
             return files;
@@ -83,50 +175,63 @@ export class GitService {
         } catch (error: any) {
             const errorInst = error as Error;
             this.logger(`Error getting changed files: ${errorInst.message}`, 'error', true);
-            console.error('[GitService] Error getting changed files:', errorInst);
             return [];
         }
     }
 
-    public async getFileDiff(filePath: string): Promise<FileDiff> {
-        const workspaceRoot = await this.getWorkspaceRoot();
-        if (!workspaceRoot) {
-            this.logger('No workspace/Git repository found for getFileDiff.', 'error');
-            throw new Error('No workspace/Git repository found');
+    /**
+     * Parses `git status --porcelain=v1 -z` output. With `-z` paths are never quoted or escaped, and a
+     * rename or copy entry is followed by an extra field holding the original path.
+     */
+    private parseStatusEntries(output: string): { statusCode: string; filePath: string }[] {
+        const fields = output.split('\0');
+        const entries: { statusCode: string; filePath: string }[] = [];
+        for (let i = 0; i < fields.length; i++) {
+            const field = fields[i];
+            if (field.length < 4) {
+                continue;
+            }
+            const statusCode = field.substring(0, 2);
+            entries.push({ statusCode, filePath: field.substring(3) });
+            if (statusCode.includes('R') || statusCode.includes('C')) {
+                i++; // Skip the original path
+            }
         }
+        return entries;
+    }
 
-        const absoluteFilePath = path.join(workspaceRoot, filePath);
+    private async getStatusCode(repositoryRoot: string, filePath: string): Promise<string | undefined> {
+        const { stdout } = await runGit(['status', '--porcelain=v1', '-z', '--', filePath], repositoryRoot);
+        return this.parseStatusEntries(stdout)[0]?.statusCode;
+    }
+
+    public async getFileDiff(repositoryRoot: string, filePath: string): Promise<FileDiff> {
+        const absoluteFilePath = path.join(repositoryRoot, filePath);
         this.logger(`Getting diff for: ${filePath} (absolute: ${absoluteFilePath})`, 'debug');
         let determinedChangeType: FileDiffChangeType = 'modified'; // Default
 
         try {
-            const { stdout: statusOutput } = await execAsync(
-                `git status --porcelain=v1 -- "${filePath.replace(/"/g, '\\"')}"`,
-                { cwd: workspaceRoot }
-            );
+            const statusCode = (await this.getStatusCode(repositoryRoot, filePath))?.trimEnd();
 
-            let diffCommand = `git diff HEAD -- "${filePath.replace(/"/g, '\\"')}"`;
+            let diffArgs = ['diff', 'HEAD', '--', filePath];
+            // `git diff --no-index` exits with 1 when the files differ, which is always the case here.
+            let allowedExitCodes: number[] = [];
 
-            if (statusOutput.trim()) {
-                const statusCode = statusOutput.trim().substring(0, 2);
+            if (statusCode) {
                 this.logger(`[GitService] Status code for ${filePath}: "${statusCode}"`, 'debug');
-                
-                if (statusCode.startsWith('??')) { determinedChangeType = 'added'; diffCommand = `git diff --no-index --no-ext-diff /dev/null "${filePath.replace(/"/g, '\\"')}"`; }
-                else if (statusCode.startsWith('A ')) { determinedChangeType = 'added'; diffCommand = `git diff --staged -- "${filePath.replace(/"/g, '\\"')}"`; }
-                else if (statusCode.startsWith('D')) { determinedChangeType = 'deleted'; diffCommand = `git diff HEAD -- "${filePath.replace(/"/g, '\\"')}"`; }
-                else if (statusCode.startsWith('R')) { determinedChangeType = 'renamed'; diffCommand = `git diff HEAD -- "${filePath.replace(/"/g, '\\"')}"`; }
-                else { determinedChangeType = 'modified'; diffCommand = `git diff HEAD -- "${filePath.replace(/"/g, '\\"')}"`; }
+
+                if (statusCode.startsWith('??')) { determinedChangeType = 'added'; diffArgs = ['diff', '--no-index', '--no-ext-diff', '--', '/dev/null', filePath]; allowedExitCodes = [1]; }
+                else if (statusCode.startsWith('A')) { determinedChangeType = 'added'; diffArgs = ['diff', '--staged', '--', filePath]; }
+                else if (statusCode.startsWith('D')) { determinedChangeType = 'deleted'; }
+                else if (statusCode.startsWith('R')) { determinedChangeType = 'renamed'; }
+                else { determinedChangeType = 'modified'; }
             }
-            this.logger(`Using diff command for ${filePath}: ${diffCommand}`, 'debug');
+            this.logger(`Using diff command for ${filePath}: git ${diffArgs.join(' ')}`, 'debug');
 
-            const { stdout: diffOutput, stderr } = await execAsync(diffCommand, {
-                cwd: workspaceRoot,
-                maxBuffer: 1024 * 1024 * 5
-            });
+            const { stdout: diffOutput, stderr } = await runGit(diffArgs, repositoryRoot, { allowedExitCodes });
 
             if (stderr && !stderr.includes('warning:')) {
                 this.logger(`stderr from git diff for "${filePath}": ${stderr}`, 'warning');
-                console.warn(`[GitService] stderr from git diff for "${filePath}": ${stderr}`);
             }
 
             const cleanedDiff = this.cleanDiffForLLM(diffOutput, filePath, determinedChangeType);
@@ -135,14 +240,10 @@ export class GitService {
         } catch (error: any) {
             const errorInst = error as Error;
             this.logger(`Error getting diff for "${filePath}": ${errorInst.message}`, 'error');
-            console.error(`[GitService] Error getting diff for "${filePath}":`, errorInst);
             try {
                 this.logger(`Attempting fallback diff for "${filePath}" (git diff -- path)`, 'debug');
-                const { stdout: simpleDiff } = await execAsync(
-                    `git diff -- "${filePath.replace(/"/g, '\\"')}"`,
-                    { cwd: workspaceRoot, maxBuffer: 1024 * 1024 * 5 }
-                );
-                const fallbackChangeType = (await this.determineChangeTypeSimple(filePath, workspaceRoot)) || 'modified';
+                const { stdout: simpleDiff } = await runGit(['diff', '--', filePath], repositoryRoot);
+                const fallbackChangeType = (await this.determineChangeTypeSimple(filePath, repositoryRoot)) || 'modified';
                 return {
                     filePath,
                     content: this.cleanDiffForLLM(simpleDiff, filePath, fallbackChangeType) || `Unable to retrieve diff for ${filePath}`,
@@ -151,7 +252,6 @@ export class GitService {
             } catch (fallbackError: any) {
                 const fallbackErrorInst = fallbackError as Error;
                 this.logger(`Fallback diff also failed for "${filePath}": ${fallbackErrorInst.message}`, 'error');
-                console.error(`[GitService] Fallback diff also failed for "${filePath}":`, fallbackErrorInst);
                 // If even fallback fails, return with the initially determined or default changeType
                 return {
                     filePath,
@@ -162,19 +262,15 @@ export class GitService {
         }
     }
     
-    private async determineChangeTypeSimple(filePath: string, workspaceRoot: string): Promise<FileDiffChangeType | null> {
+    private async determineChangeTypeSimple(filePath: string, repositoryRoot: string): Promise<FileDiffChangeType | null> {
         try {
-            const { stdout: statusOutput } = await execAsync(
-                `git status --porcelain=v1 -- "${filePath.replace(/"/g, '\\"')}"`,
-                { cwd: workspaceRoot }
-            );
-            if (statusOutput.trim()) {
-                const statusCode = statusOutput.trim().substring(0, 2);
+            const statusCode = await this.getStatusCode(repositoryRoot, filePath);
+            if (statusCode) {
                 if (statusCode.startsWith('??')) return 'added';
-                if (statusCode.startsWith('A ')) return 'added';
-                if (statusCode.startsWith('D')) return 'deleted';
+                if (statusCode.startsWith('A')) return 'added';
+                if (statusCode.startsWith('D') || statusCode.charAt(1) === 'D') return 'deleted';
                 if (statusCode.startsWith('R')) return 'renamed';
-                if (statusCode.startsWith('M') || statusOutput.trim().charAt(1) === 'M') return 'modified';
+                if (statusCode.startsWith('M') || statusCode.charAt(1) === 'M') return 'modified';
             }
         } catch (e) {
             const errorInst = e as Error;
@@ -184,16 +280,68 @@ export class GitService {
     }
 
 
-    public async getFileDiffs(filePaths: string[]): Promise<FileDiff[]> {
+    /**
+     * Lists the unstaged hunks of a tracked file (working tree vs. index), which is what `stageHunks`
+     * can apply. Untracked, binary and unchanged files have no hunks and can only be used whole.
+     */
+    public async getFileHunks(repositoryRoot: string, filePath: string): Promise<DiffHunk[]> {
+        try {
+            const { stdout } = await runGit(['diff', '--no-color', '--no-ext-diff', '--', filePath], repositoryRoot);
+            const { hunks } = parseFileDiff(stdout);
+            this.logger(`Found ${hunks.length} hunk(s) in ${filePath}.`, 'debug');
+            return hunks;
+        } catch (error: any) {
+            const errorInst = error as Error;
+            this.logger(`Error getting hunks for "${filePath}": ${errorInst.message}`, 'error');
+            throw new Error(`Failed to read hunks for ${filePath}: ${errorInst.message}`);
+        }
+    }
+
+    /** Applies only the selected hunks of a file to the index with `git apply --cached`. */
+    public async stageHunks(repositoryRoot: string, filePath: string, hunkIds: string[]): Promise<void> {
+        const { stdout } = await runGit(['diff', '--no-color', '--no-ext-diff', '--', filePath], repositoryRoot);
+        const { fileHeader, hunks } = parseFileDiff(stdout);
+        const selected = hunks.filter(hunk => hunkIds.includes(hunk.id));
+        if (selected.length !== hunkIds.length) {
+            const missing = hunkIds.length - selected.length;
+            this.logger(`${missing} selected hunk(s) of ${filePath} no longer exist.`, 'error');
+            throw new Error(`${missing} selected hunk(s) of ${filePath} changed since they were grouped. Re-select the hunks for this file.`);
+        }
+
+        this.logger(`Staging ${selected.length} of ${hunks.length} hunk(s) of ${filePath}.`, 'debug');
+        try {
+            await runGit(['apply', '--cached', '--recount', '--whitespace=nowarn', '-'], repositoryRoot, { input: buildPatch(fileHeader, selected) });
+            this.logger(`Successfully staged ${selected.length} hunk(s) of ${filePath}.`, 'debug');
+        } catch (error: any) {
+            const errorInst = error as Error;
+            this.logger(`Error staging hunks of ${filePath}: ${errorInst.message}`, 'error');
+            throw new Error(`Failed to stage hunks of ${filePath}: ${errorInst.message}`);
+        }
+    }
+
+    private async getPartialFileDiff(repositoryRoot: string, filePath: string, hunkIds: string[]): Promise<FileDiff> {
+        const hunks = await this.getFileHunks(repositoryRoot, filePath);
+        const selected = hunks.filter(hunk => hunkIds.includes(hunk.id));
+        if (selected.length === 0) {
+            throw new Error(`None of the selected hunks of ${filePath} exist anymore.`);
+        }
+        const patch = buildPatch([], selected);
+        const content = this.cleanDiffForLLM(patch, filePath, 'modified');
+        return { filePath, content: `${content}\n(Only ${selected.length} of ${hunks.length} hunks of this file are part of this commit.)`, changeType: 'modified' };
+    }
+
+    public async getFileDiffs(repositoryRoot: string, filePaths: string[], hunkSelection: HunkSelection = {}): Promise<FileDiff[]> {
         const diffs: FileDiff[] = [];
         for (const filePath of filePaths) {
             try {
-                const diff = await this.getFileDiff(filePath);
+                const hunkIds = hunkSelection[filePath];
+                const diff = hunkIds && hunkIds.length > 0
+                    ? await this.getPartialFileDiff(repositoryRoot, filePath, hunkIds)
+                    : await this.getFileDiff(repositoryRoot, filePath);
                 diffs.push(diff);
             } catch (error) {
                 const errorInst = error as Error;
                 this.logger(`Failed to get diff for ${filePath} during getFileDiffs: ${errorInst.message}`, 'error');
-                console.error(`[GitService] Failed to get diff for ${filePath} during getFileDiffs:`, errorInst);
                 diffs.push({
                     filePath,
                     content: `Error: Could not retrieve diff for ${filePath}`,
@@ -204,6 +352,44 @@ export class GitService {
         return diffs;
     }
 
+    /**
+     * Reads the diffs of everything in the index (index vs. HEAD), which is what the next plain
+     * `git commit` would contain. Unstaged changes of the same files are left out.
+     */
+    public async getStagedFileDiffs(repositoryRoot: string): Promise<FileDiff[]> {
+        // Repositories without commits have no HEAD; compare against the empty tree instead.
+        const hasHead = await runGit(['rev-parse', '--verify', '--quiet', 'HEAD'], repositoryRoot, { allowedExitCodes: [1] })
+            .then(({ stdout }) => stdout.trim() !== '');
+        const base = hasHead ? 'HEAD' : EMPTY_TREE_HASH;
+        const { stdout } = await runGit(['diff', '--cached', '--name-status', '-z', '-M', base], repositoryRoot);
+        const fields = stdout.split('\0');
+        const entries: { filePath: string; paths: string[]; changeType: FileDiffChangeType }[] = [];
+        for (let i = 0; i < fields.length && fields[i]; ) {
+            const status = fields[i++];
+            // Renames and copies list the old path first, then the new one.
+            const paths = /^[RC]/.test(status) ? [fields[i++], fields[i++]] : [fields[i++]];
+            const changeType: FileDiffChangeType = status.startsWith('A') || status.startsWith('C') ? 'added'
+                : status.startsWith('D') ? 'deleted'
+                : status.startsWith('R') ? 'renamed'
+                : 'modified';
+            entries.push({ filePath: paths[paths.length - 1], paths, changeType });
+        }
+        this.logger(`Found ${entries.length} staged file(s) in ${repositoryRoot}.`, 'debug');
+
+        const diffs: FileDiff[] = [];
+        for (const entry of entries) {
+            try {
+                const { stdout: diffOutput } = await runGit(['diff', '--cached', '--no-color', '--no-ext-diff', '-M', base, '--', ...entry.paths], repositoryRoot);
+                diffs.push({ filePath: entry.filePath, content: this.cleanDiffForLLM(diffOutput, entry.filePath, entry.changeType), changeType: entry.changeType });
+            } catch (error: any) {
+                const errorInst = error as Error;
+                this.logger(`Failed to get staged diff for ${entry.filePath}: ${errorInst.message}`, 'error');
+                diffs.push({ filePath: entry.filePath, content: `Error: Could not retrieve diff for ${entry.filePath}`, changeType: entry.changeType });
+            }
+        }
+        return diffs;
+    }
+
     private cleanDiffForLLM(rawDiff: string, filePath: string, changeType: FileDiffChangeType): string {
         if (!rawDiff.trim()) {
             if (changeType === 'added') return `File ${filePath} (added) - Content of new file:\n(Content not displayed if file is binary or very large in this view; LLM should receive actual content diff for new text files)`;
@@ -243,90 +429,99 @@ export class GitService {
         return `Change type: ${changeType}\nFile: ${filePath}\n---\n${result || `No textual changes for ${filePath} after cleaning.`}\n---`;
     }
 
-    public async revertFile(filePath: string): Promise<void> {
-        const workspaceRoot = await this.getWorkspaceRoot();
-        if (!workspaceRoot) {
-            this.logger('No workspace/folder open to revert file.', 'error', true);
-            throw new Error('No workspace/folder open to revert file.');
+    /**
+     * Reads the messages of the latest non-merge commits, newest first. When file paths are given,
+     * only commits touching at least one of them are returned. An empty list is returned for
+     * repositories without commits.
+     */
+    public async getRecentCommitMessages(repositoryRoot: string, maxCount: number, filePaths: string[] = []): Promise<string[]> {
+        const args = ['log', '-z', '--no-merges', '--format=%B', `--max-count=${Math.max(1, Math.floor(maxCount))}`];
+        if (filePaths.length > 0) {
+            args.push('--', ...filePaths);
         }
-        this.logger(`Attempting to revert file: "${filePath}" in ${workspaceRoot}`, 'debug');
         try {
-            const command = `git checkout -- "${filePath.replace(/"/g, '\\"')}"`;
-            const { stdout, stderr } = await execAsync(command, { cwd: workspaceRoot });
+            const { stdout } = await runGit(args, repositoryRoot);
+            const messages = stdout.split('\0').map(message => message.trim()).filter(message => message !== '');
+            this.logger(`Read ${messages.length} recent commit message(s)${filePaths.length > 0 ? ` touching ${filePaths.length} path(s)` : ''}.`, 'debug');
+            return messages;
+        } catch (error: any) {
+            const errorInst = error as Error;
+            this.logger(`Could not read recent commit messages in ${repositoryRoot}: ${errorInst.message}`, 'debug');
+            return [];
+        }
+    }
+
+    /** Name of the checked-out branch, or an empty string when HEAD is detached. */
+    public async getCurrentBranch(repositoryRoot: string): Promise<string> {
+        try {
+            const { stdout } = await runGit(['symbolic-ref', '--short', '-q', 'HEAD'], repositoryRoot, { allowedExitCodes: [1] });
+            return stdout.trim();
+        } catch (error: any) {
+            const errorInst = error as Error;
+            this.logger(`Could not read the current branch in ${repositoryRoot}: ${errorInst.message}`, 'debug');
+            return '';
+        }
+    }
+
+    public async revertFile(repositoryRoot: string, filePath: string): Promise<void> {
+        this.logger(`Attempting to revert file: "${filePath}" in ${repositoryRoot}`, 'debug');
+        try {
+            const { stdout, stderr } = await runGit(['checkout', '--', filePath], repositoryRoot);
 
             if (stderr && !stderr.includes('Your branch is up to date with')) {
                 this.logger(`stderr from git checkout for "${filePath}": ${stderr}`, 'warning');
-                console.warn(`[GitService] stderr from git checkout for "${filePath}": ${stderr}`);
             }
             if (stdout) this.logger(`stdout from git checkout for "${filePath}": ${stdout}`, 'debug');
             this.logger(`File "${filePath}" revert command executed.`, 'debug');
         } catch (error: any) {
             const errorInst = error as Error;
             this.logger(`Error reverting file "${filePath}": ${errorInst.message}`, 'error', true);
-            console.error(`[GitService] Error reverting file "${filePath}":`, errorInst);
             throw error;
         }
     }
 
-    public async stageFiles(filePaths: string[]): Promise<void> {
-        const workspaceRoot = await this.getWorkspaceRoot();
-        if (!workspaceRoot) {
-            this.logger('No workspace/Git repository found to stage files.', 'error');
-            throw new Error('No workspace/Git repository found to stage files.');
-        }
+    public async stageFiles(repositoryRoot: string, filePaths: string[]): Promise<void> {
         if (!filePaths || filePaths.length === 0) {
             this.logger('stageFiles called with no files.', 'warning');
             return;
         }
-        const quotedFilePaths = filePaths.map(fp => `"${fp.replace(/"/g, '\\"')}"`).join(' ');
         this.logger(`Staging ${filePaths.length} files: ${filePaths.join(', ')}`, 'debug');
         try {
-            const command = `git add -- ${quotedFilePaths}`;
-            const { stdout, stderr } = await execAsync(command, { cwd: workspaceRoot });
+            const { stdout, stderr } = await runGit(['add', '--', ...filePaths], repositoryRoot);
             if (stderr) {
                 this.logger(`stderr from git add: ${stderr}`, 'warning');
-                console.warn(`[GitService] stderr from git add: ${stderr}`);
             }
             if (stdout) this.logger(`stdout from git add: ${stdout}`, 'debug');
             this.logger(`Successfully staged ${filePaths.length} files.`, 'debug');
         } catch (error: any) {
             const errorInst = error as Error;
             this.logger(`Error staging files ${filePaths.join(', ')}: ${errorInst.message}`, 'error');
-            console.error(`[GitService] Error staging files ${filePaths.join(', ')}:`, errorInst);
             throw new Error(`Failed to stage files: ${errorInst.message}. Check file paths and Git status.`);
         }
     }
 
-    public async commit(message: string): Promise<void> {
-        const workspaceRoot = await this.getWorkspaceRoot();
-        if (!workspaceRoot) {
-            this.logger('No workspace/Git repository found to commit.', 'error');
-            throw new Error('No workspace/Git repository found to commit.');
-        }
+    public async commit(repositoryRoot: string, message: string): Promise<void> {
         if (!message || !message.trim()) {
             this.logger('Commit message cannot be empty.', 'error');
             throw new Error('Commit message cannot be empty.');
         }
         this.logger(`Committing with message (first 50 chars): "${message.substring(0, 50)}..."`, 'debug');
         try {
-            const escapedMessage = message.replace(/"/g, '\\"').replace(/`/g, '\\`').replace(/\$/g, '\\$');
-            const command = `git commit -m "${escapedMessage}"`;
-            const { stdout, stderr } = await execAsync(command, { cwd: workspaceRoot });
+            // The message goes through stdin verbatim. `--cleanup=whitespace` only trims surrounding blank lines and
+            // trailing spaces, like `git commit -m`; the default for -F would also drop lines starting with '#'.
+            const { stdout, stderr } = await runGit(['commit', '--cleanup=whitespace', '-F', '-'], repositoryRoot, { input: message });
 
             if (stderr && !stderr.includes("branch is ahead of") && !stderr.includes("nothing to commit, working tree clean") && !stderr.includes("Commits on this branch are protected")) {
                 if (stderr.includes("nothing to commit")) {
                      this.logger(`'git commit' reported nothing to commit. Message: "${message.substring(0,50)}..."`, 'warning');
-                     console.warn(`[GitService] 'git commit' reported nothing to commit (stderr).`);
                      throw new Error(`Nothing to commit. Ensure files were staged correctly.`);
                 }
                 this.logger(`stderr from git commit: ${stderr}`, 'warning');
-                console.warn(`[GitService] stderr from git commit: ${stderr}`);
             }
             if (stdout) {
                 this.logger(`stdout from git commit: ${stdout}`, 'debug');
                  if (stdout.includes("nothing to commit")) {
                     this.logger(`'git commit' (stdout) reported nothing to commit. Message: "${message.substring(0,50)}..."`, 'warning');
-                    console.warn(`[GitService] 'git commit' reported nothing to commit (stdout).`);
                     throw new Error(`Nothing to commit. Ensure files were staged correctly.`);
                 }
             }
@@ -334,7 +529,6 @@ export class GitService {
         } catch (error: any) {
             const errorInst = error as Error;
             this.logger(`Error committing: ${errorInst.message}`, 'error');
-            console.error(`[GitService] Error committing:`, errorInst);
              if (errorInst.message.toLowerCase().includes('nothing to commit')) {
                 throw new Error(`Nothing to commit. Files might not have been staged properly or were already committed.`);
             }
@@ -0,0 +1,50 @@
+// src/services/LLMIgnoreService.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore = require('ignore');
+import { SettingsProvider } from './SettingsProvider';
+import { FileDiffChangeType } from './GitService';
+
+export const LLM_IGNORE_FILE_NAME = '.llmcommitterignore';
+
+type LoggerFunction = (message: string, type?: 'info' | 'error' | 'warning' | 'debug', showPopup?: boolean) => void;
+
+/**
+ * Decides which changed files are kept out of the LLM context, using the `llmCommitter.ignorePatterns`
+ * setting (plus `ignorePatterns` of the repository settings file) and the repository's `.llmcommitterignore` (gitignore syntax, so `!pattern` re-includes a file).
+ * Ignored files are still staged and committed; only their diff is not sent.
+ */
+export class LLMIgnoreService {
+    private configService: SettingsProvider;
+    private logger: LoggerFunction;
+
+    constructor(configService: SettingsProvider, logger: LoggerFunction = console.log) {
+        this.configService = configService;
+        this.logger = logger;
+    }
+
+    /** Returns a predicate for paths relative to the repository root. */
+    public async getMatcher(repositoryRoot: string): Promise<(filePath: string) => boolean> {
+        const matcher = ignore().add(this.configService.getIgnorePatterns(repositoryRoot));
+        const ignoreFilePath = path.join(repositoryRoot, LLM_IGNORE_FILE_NAME);
+        try {
+            if (fs.existsSync(ignoreFilePath)) {
+                matcher.add(await fs.promises.readFile(ignoreFilePath, 'utf8'));
+            }
+        } catch (error) {
+            const errorInst = error as Error;
+            this.logger(`Could not read ${ignoreFilePath}: ${errorInst.message}`, 'warning');
+        }
+        return (filePath: string) => {
+            const relativePath = filePath.replace(/\\/g, '/');
+            // `ignore` throws on paths it cannot match (absolute or "../"), which never come from git status.
+            return ignore.isPathValid(relativePath) && matcher.ignores(relativePath);
+        };
+    }
+}
+
+/** The one-line stand-in sent to the LLM instead of an ignored file's diff, e.g. "package-lock.json updated". */
+export function describeIgnoredFileChange(filePath: string, changeType: FileDiffChangeType): string {
+    const verb = changeType === 'added' ? 'added' : changeType === 'deleted' ? 'deleted' : changeType === 'renamed' ? 'renamed' : 'updated';
+    return `${filePath} ${verb}`;
+}
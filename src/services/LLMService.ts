@@ -1,5 +1,7 @@
 // src/services/LLMService.ts
-import { ConfigurationService, LLMSettings, LLMProvider } from './ConfigurationService';
+import { SettingsProvider, LLMSettings, LLMProvider, DEFAULT_OLLAMA_BASE_URL } from './SettingsProvider';
+import { CommitLintIssue, CommitLintRules, formatCommitLintIssues } from '../utils/commitMessageLint';
+import { PromptTemplateStage, renderPromptTemplate } from '../utils/promptTemplate';
 
 export interface FileDiff {
     filePath: string;
@@ -12,15 +14,42 @@ export interface FileSummary {
 }
 
 export interface GenerateFileSummaryRequest {
+    repositoryRoot?: string; // Selects the repository's shared settings file, if any
+    presetId?: string;       // Instruction preset to use instead of llmCommitter.llmInstructions
     filePath: string;
     diffContent: string;
     generalContext: string;
+    // Only used by a custom prompt template; the built-in summary prompt looks at the file alone.
+    specificContext?: string;
+    branch?: string;
+    groupFiles?: string[];
+    styleExamples?: string[];
+    signal?: AbortSignal;
 }
 
 export interface GenerateOverallMessageRequest {
+    repositoryRoot?: string;
+    presetId?: string;
     fileSummaries: FileSummary[];
     specificContext: string;
     generalContext: string;
+    commitRules?: CommitLintRules; // The repository's commitlint rules, when it has a commitlint config
+    styleExamples?: string[];      // Earlier commit messages of the repository, most relevant first
+    branch?: string;               // Only used by a custom prompt template
+    onPartialMessage?: (messageSoFar: string) => void; // Called with the accumulated text while the response streams in
+    signal?: AbortSignal;
+}
+
+export interface FixCommitMessageRequest {
+    repositoryRoot?: string;
+    presetId?: string;
+    message: string;
+    lintIssues: CommitLintIssue[];
+    commitRules?: CommitLintRules;
+    specificContext: string;
+    generalContext: string;
+    onPartialMessage?: (messageSoFar: string) => void;
+    signal?: AbortSignal;
 }
 
 export interface GenerateFileDiffsForSummaryRequest {
@@ -35,6 +64,36 @@ export interface GenerateMessageResponse {
     error?: string;
     tokensUsed?: number;
     truncated?: boolean;
+    cancelled?: boolean;
+    retryable?: boolean; // Set on failures: true when the error was transient and retrying later may succeed
+    fromCache?: boolean; // File summaries only: the summary was reused instead of requested from the LLM
+}
+
+export interface ProposeFileGroupsRequest {
+    repositoryRoot?: string;
+    fileDiffs: FileDiff[];
+    generalContext: string;
+    signal?: AbortSignal;
+}
+
+export interface ProposedFileGroup {
+    title: string;   // Short label for the group, shown until a commit message is generated
+    context: string; // Draft group-specific context explaining why these files belong together
+    files: string[];
+}
+
+export interface ProposeFileGroupsResponse {
+    success: boolean;
+    groups?: ProposedFileGroup[];
+    error?: string;
+    cancelled?: boolean;
+}
+
+/** Storage for file summaries, so unchanged diffs don't have to be summarized again. */
+export interface SummaryCache {
+    computeKey(parts: string[]): string;
+    get(key: string): string | undefined;
+    set(key: string, summary: string): void;
 }
 
 export interface TokenInfo {
@@ -44,33 +103,84 @@ export interface TokenInfo {
     truncationSuggested: boolean;
 }
 
+/**
+ * Error raised for failed provider requests. `retryable` separates transient failures
+ * (rate limits, overloaded or unreachable servers) from permanent ones (bad key, bad request).
+ */
+export class LLMApiError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number | undefined,
+        public readonly retryable: boolean,
+        public readonly retryAfterMs?: number,
+        public attempts = 1
+    ) {
+        super(message);
+        this.name = 'LLMApiError';
+    }
+}
+
+interface ApiCallOptions {
+    onPartial?: (textSoFar: string) => void;
+    signal?: AbortSignal;
+    maxOutputTokens?: number; // Overrides the summary/commit-message defaults for longer structured responses
+}
+
+interface StreamAccumulator {
+    text: string;
+    tokensUsed?: number;
+}
+
+/** A provider error as described by the parse helpers. `status` falls back to the one implied by the error type for errors without one (stream events). */
+interface ProviderError {
+    message: string;
+    status: number;
+    retryable: boolean;
+}
+
 type LoggerFunction = (message: string, type?: 'info' | 'error' | 'warning' | 'debug', showPopup?: boolean) => void;
 
 export class LLMService {
-    private configService: ConfigurationService;
+    private configService: SettingsProvider;
     private logger: LoggerFunction;
+    private summaryCache?: SummaryCache;
     private readonly OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
     private readonly ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
     private readonly GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
     private readonly OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
     private readonly MAX_DIFF_LENGTH = 5000; // Max length for individual diffs before internal truncation
+    private readonly MAX_GROUPING_DIFF_LENGTH = 1200; // Per-file budget for the compact diffs sent when proposing groups
+    private readonly RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+    // HTTP statuses of the error types providers send without one, e.g. in stream events.
+    private readonly ANTHROPIC_ERROR_STATUSES: Record<string, number> = {
+        invalid_request_error: 400, authentication_error: 401, permission_error: 403, not_found_error: 404,
+        request_too_large: 413, rate_limit_error: 429, api_error: 500, overloaded_error: 529
+    };
+    private readonly OPENAI_ERROR_STATUSES: Record<string, number> = {
+        invalid_request_error: 400, invalid_api_key: 401, insufficient_quota: 429, rate_limit_exceeded: 429, server_error: 500
+    };
+    private readonly GEMINI_ERROR_STATUSES: Record<string, number> = {
+        INVALID_ARGUMENT: 400, PERMISSION_DENIED: 403, NOT_FOUND: 404, RESOURCE_EXHAUSTED: 429,
+        INTERNAL: 500, UNAVAILABLE: 503, DEADLINE_EXCEEDED: 504
+    };
 
-    constructor(configService: ConfigurationService, logger: LoggerFunction = console.log) {
+    constructor(configService: SettingsProvider, logger: LoggerFunction = console.log, summaryCache?: SummaryCache) {
         this.configService = configService;
         this.logger = logger;
+        this.summaryCache = summaryCache;
     }
 
     public async generateFileSummary(request: GenerateFileSummaryRequest): Promise<GenerateMessageResponse> {
         try {
             this.logger(`Starting file summary generation for ${request.filePath}.`, 'debug');
-            const settings = await this.configService.getLLMSettings();
+            const settings = await this.configService.getLLMSettings(request.repositoryRoot, request.presetId);
 
-            if (!settings.apiKey.trim()) {
+            if (this.configService.providerRequiresApiKey(settings.provider, request.repositoryRoot) && !settings.apiKey.trim()) {
                 this.logger('API key not configured for the selected provider.', 'error');
                 return { success: false, error: 'API key not configured. Please set it up in settings.' };
             }
 
-            let prompt = this.buildFileSummaryPrompt(request, settings.instructions);
+            let prompt = this.buildFileSummaryPrompt(request, settings.instructions, settings.promptTemplates.fileSummary);
             let tokenInfo = this.estimateTokens(prompt, settings.maxTokens);
             let wasTruncated = false;
 
@@ -78,63 +188,206 @@ export class LLMService {
                 this.logger(`File summary prompt too large (${tokenInfo.estimated}/${tokenInfo.limit}). This should ideally not happen if individual diffs are pre-truncated.`, 'warning');
             }
 
-            return this.routeApiCall(prompt, settings, wasTruncated, true);
+            // Everything that shapes the summary is part of the key, so changing model or instructions misses the cache.
+            const keyParts = [settings.provider, settings.model, settings.instructions, request.generalContext, request.filePath, request.diffContent];
+            if (settings.promptTemplates.fileSummary.trim()) {
+                // A template can use more of the request than the built-in prompt, so the whole prompt is part of the key.
+                keyParts.push(prompt);
+            }
+            const cacheKey = this.summaryCache?.computeKey(keyParts);
+            const cachedSummary = cacheKey ? this.summaryCache!.get(cacheKey) : undefined;
+            if (cachedSummary !== undefined) {
+                this.logger(`Using cached summary for ${request.filePath}.`, 'debug');
+                return { success: true, message: cachedSummary, fromCache: true };
+            }
+
+            const response = await this.routeApiCall(prompt, settings, wasTruncated, true, { signal: request.signal });
+            if (cacheKey && response.success && response.message) {
+                this.summaryCache!.set(cacheKey, response.message);
+            }
+            return response;
         } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            this.logger(`Error generating file summary for ${request.filePath}: ${errorMsg}`, 'error', true);
-            console.error(`[LLMService] Error generating file summary for ${request.filePath}:`, error);
-            return { success: false, error: `Failed to generate file summary: ${errorMsg}` };
+            if (this.isAbortError(error)) {
+                this.logger(`File summary for ${request.filePath} cancelled.`, 'debug');
+                return { success: false, cancelled: true, error: 'Generation cancelled.' };
+            }
+            const errorMsg = this.describeFailure(error);
+            // Not a popup: the caller falls back to a placeholder summary and keeps going.
+            this.logger(`Error generating file summary for ${request.filePath}: ${errorMsg}`, 'error');
+            this.logStackTrace(error);
+            return { success: false, error: `Failed to generate file summary: ${errorMsg}`, retryable: error instanceof LLMApiError && error.retryable };
         }
     }
 
     public async generateOverallCommitMessage(request: GenerateOverallMessageRequest): Promise<GenerateMessageResponse> {
         try {
             this.logger('Starting overall commit message generation process.', 'debug');
-            const settings = await this.configService.getLLMSettings();
+            const settings = await this.configService.getLLMSettings(request.repositoryRoot, request.presetId);
             
-            if (!settings.apiKey.trim()) {
+            if (this.configService.providerRequiresApiKey(settings.provider, request.repositoryRoot) && !settings.apiKey.trim()) {
                 this.logger('API key not configured for the selected provider.', 'error');
                 return { success: false, error: 'API key not configured. Please set it up in settings.' };
             }
 
-            let prompt = this.buildOverallCommitMessagePrompt(request, settings.instructions);
+            let prompt = this.buildOverallCommitMessagePrompt(request, settings.instructions, settings.promptTemplates.commitMessage);
             let tokenInfo = this.estimateTokens(prompt, settings.maxTokens);
             let wasTruncated = false; // This flag is now primarily for file summaries, but kept for consistency
 
+            // Style examples are optional, so the least relevant ones go before the prompt is allowed to exceed the limit.
+            let styleExamples = request.styleExamples || [];
+            while (!tokenInfo.withinLimit && styleExamples.length > 0) {
+                styleExamples = styleExamples.slice(0, -1);
+                prompt = this.buildOverallCommitMessagePrompt({ ...request, styleExamples }, settings.instructions, settings.promptTemplates.commitMessage);
+                tokenInfo = this.estimateTokens(prompt, settings.maxTokens);
+            }
+            if (styleExamples.length < (request.styleExamples || []).length) {
+                this.logger(`Dropped ${(request.styleExamples || []).length - styleExamples.length} style example(s) to stay within the token limit.`, 'debug');
+            }
+
             if (!tokenInfo.withinLimit) {
                 this.logger(`Overall commit message prompt too large (${tokenInfo.estimated}/${tokenInfo.limit}). This indicates too many file summaries or very long instructions.`, 'warning');
             }
 
-            return this.routeApiCall(prompt, settings, wasTruncated, false);
+            return await this.routeApiCall(prompt, settings, wasTruncated, false, { onPartial: request.onPartialMessage, signal: request.signal });
 
         } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
+            if (this.isAbortError(error)) {
+                this.logger('Overall commit message generation cancelled.', 'debug');
+                return { success: false, cancelled: true, error: 'Generation cancelled.' };
+            }
+            const errorMsg = this.describeFailure(error);
             this.logger(`Error generating overall commit message: ${errorMsg}`, 'error', true);
-            console.error('[LLMService] Error generating overall commit message:', error);
-            return { success: false, error: `Failed to generate overall commit message: ${errorMsg}` };
+            this.logStackTrace(error);
+            return { success: false, error: `Failed to generate overall commit message: ${errorMsg}`, retryable: error instanceof LLMApiError && error.retryable };
         }
     }
 
-    private routeApiCall(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean): Promise<GenerateMessageResponse> {
+    /** Sends a commit message back to the LLM together with its lint issues and asks for a corrected version. */
+    public async fixCommitMessage(request: FixCommitMessageRequest): Promise<GenerateMessageResponse> {
+        try {
+            this.logger(`Asking the LLM to fix ${request.lintIssues.length} commit message lint issue(s).`, 'debug');
+            const settings = await this.configService.getLLMSettings(request.repositoryRoot, request.presetId);
+
+            if (this.configService.providerRequiresApiKey(settings.provider, request.repositoryRoot) && !settings.apiKey.trim()) {
+                this.logger('API key not configured for the selected provider.', 'error');
+                return { success: false, error: 'API key not configured. Please set it up in settings.' };
+            }
+
+            const prompt = this.buildFixCommitMessagePrompt(request, settings.instructions);
+            return await this.routeApiCall(prompt, settings, false, false, { onPartial: request.onPartialMessage, signal: request.signal });
+
+        } catch (error) {
+            if (this.isAbortError(error)) {
+                this.logger('Commit message fix cancelled.', 'debug');
+                return { success: false, cancelled: true, error: 'Generation cancelled.' };
+            }
+            const errorMsg = this.describeFailure(error);
+            this.logger(`Error fixing commit message: ${errorMsg}`, 'error', true);
+            this.logStackTrace(error);
+            return { success: false, error: `Failed to fix commit message: ${errorMsg}`, retryable: error instanceof LLMApiError && error.retryable };
+        }
+    }
+
+    /**
+     * Asks the LLM to split the changed files into logical commits. The answer is parsed as JSON and
+     * sanitized: unknown paths are dropped and every file ends up in at most one group.
+     */
+    public async proposeFileGroups(request: ProposeFileGroupsRequest): Promise<ProposeFileGroupsResponse> {
+        try {
+            this.logger(`Proposing commit groups for ${request.fileDiffs.length} file(s).`, 'debug');
+            const settings = await this.configService.getLLMSettings(request.repositoryRoot);
+
+            if (this.configService.providerRequiresApiKey(settings.provider, request.repositoryRoot) && !settings.apiKey.trim()) {
+                this.logger('API key not configured for the selected provider.', 'error');
+                return { success: false, error: 'API key not configured. Please set it up in settings.' };
+            }
+
+            const prompt = this.buildFileGroupingPrompt(request);
+            const tokenInfo = this.estimateTokens(prompt, settings.maxTokens);
+            if (!tokenInfo.withinLimit) {
+                this.logger(`File grouping prompt too large (${tokenInfo.estimated}/${tokenInfo.limit}). Consider selecting fewer files.`, 'warning');
+            }
+
+            // Roughly 40 output tokens per file leaves room for titles and contexts in the JSON answer.
+            const maxOutputTokens = Math.max(500, Math.min(4000, request.fileDiffs.length * 40 + 200));
+            const response = await this.routeApiCall(prompt, settings, false, false, { signal: request.signal, maxOutputTokens });
+            if (!response.success || !response.message) {
+                return { success: false, error: response.error || 'Empty response from the LLM.' };
+            }
+
+            const groups = this.parseProposedGroups(response.message, request.fileDiffs.map(diff => diff.filePath));
+            if (groups.length === 0) {
+                return { success: false, error: 'The LLM did not propose any usable groups.' };
+            }
+            this.logger(`LLM proposed ${groups.length} group(s).`, 'debug');
+            return { success: true, groups };
+        } catch (error) {
+            if (this.isAbortError(error)) {
+                this.logger('File grouping cancelled.', 'debug');
+                return { success: false, cancelled: true, error: 'Auto-grouping cancelled.' };
+            }
+            const errorMsg = this.describeFailure(error);
+            this.logger(`Error proposing file groups: ${errorMsg}`, 'error', true);
+            this.logStackTrace(error);
+            return { success: false, error: `Failed to propose file groups: ${errorMsg}` };
+        }
+    }
+
+    // Only shown with debug logging, e.g. the CLI's --verbose.
+    private logStackTrace(error: unknown): void {
+        if (error instanceof Error && error.stack) {
+            this.logger(error.stack, 'debug');
+        }
+    }
+
+    /** Error text that also tells the user whether trying again later is worthwhile. */
+    private describeFailure(error: unknown): string {
+        if (!(error instanceof LLMApiError)) {
+            return error instanceof Error ? error.message : String(error);
+        }
+        if (!error.retryable) {
+            return `${error.message} (permanent error, not retried)`;
+        }
+        return `${error.message} (temporary error, gave up after ${error.attempts} attempt${error.attempts === 1 ? '' : 's'}; try again later)`;
+    }
+
+    private routeApiCall(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean, options: ApiCallOptions = {}): Promise<GenerateMessageResponse> {
         this.logger(`Routing API call to provider: ${settings.provider}`, 'debug');
         switch (settings.provider) {
             case 'openai':
-                return this.callOpenAI(prompt, settings, wasTruncated, isFileSummary);
+                return this.callOpenAI(prompt, settings, wasTruncated, isFileSummary, options);
             case 'anthropic':
-                return this.callAnthropic(prompt, settings, wasTruncated, isFileSummary);
+                return this.callAnthropic(prompt, settings, wasTruncated, isFileSummary, options);
             case 'gemini':
-                return this.callGemini(prompt, settings, wasTruncated, isFileSummary);
+                return this.callGemini(prompt, settings, wasTruncated, isFileSummary, options);
             case 'openrouter':
-                return this.callOpenRouter(prompt, settings, wasTruncated, isFileSummary);
+                return this.callOpenRouter(prompt, settings, wasTruncated, isFileSummary, options);
+            case 'ollama':
+                return this.callOllama(prompt, settings, wasTruncated, isFileSummary, options);
+            case 'openai-compatible':
+                return this.callOpenAICompatible(prompt, settings, wasTruncated, isFileSummary, options);
             default:
                 this.logger(`Unknown provider specified: ${settings.provider}`, 'error');
-                console.error(`[LLMService] Unknown provider: ${settings.provider}`); // Keep for dev console
                 return Promise.resolve({ success: false, error: `Unknown provider: ${settings.provider}` });
         }
     }
 
-    private buildFileSummaryPrompt(request: GenerateFileSummaryRequest, instructions: string): string {
+    private buildFileSummaryPrompt(request: GenerateFileSummaryRequest, instructions: string, template = ''): string {
         this.logger(`Building file summary prompt for ${request.filePath}.`, 'debug');
+        if (template.trim()) {
+            const finalPrompt = renderPromptTemplate(template, {
+                instructions,
+                generalContext: request.generalContext?.trim() || '',
+                specificContext: request.specificContext?.trim() || '',
+                branch: request.branch || '',
+                files: (request.groupFiles || [request.filePath]).join('\n'),
+                filePath: request.filePath,
+                diff: request.diffContent,
+                recentCommits: this.formatStyleExamples(request.styleExamples || []),
+            });
+            this.logger(`Full file summary prompt from template (length: ${finalPrompt.length}):\n--BEGIN PROMPT--\n${finalPrompt}\n--END PROMPT--`, 'debug');
+            return finalPrompt;
+        }
         const parts = [instructions, ''];
         if (request.generalContext && request.generalContext.trim()) {
             parts.push(`General Project Context:\n${request.generalContext.trim()}`, '');
@@ -151,8 +404,90 @@ export class LLMService {
         return finalPrompt;
     }
 
-    private buildOverallCommitMessagePrompt(request: GenerateOverallMessageRequest, instructions: string): string {
+    private buildFileGroupingPrompt(request: ProposeFileGroupsRequest): string {
+        this.logger(`Building file grouping prompt for ${request.fileDiffs.length} file(s).`, 'debug');
+        const parts = [
+            'You are helping split a set of uncommitted changes into small, logical Git commits.',
+            'Group files that belong to the same change (a feature, a fix, a refactor, docs, configuration). Prefer several focused groups over one large group, but never split a single coherent change.',
+            ''
+        ];
+        if (request.generalContext && request.generalContext.trim()) {
+            parts.push(`General Project Context:\n${request.generalContext.trim()}`, '');
+        }
+        parts.push('Changed files with compact diffs:', '');
+        request.fileDiffs.forEach(diff => {
+            parts.push(`--- File: ${diff.filePath} ---`, this.compactDiff(diff.content), '');
+        });
+        parts.push(
+            'Respond with JSON only, no markdown code fences, in exactly this shape:',
+            '{"groups":[{"title":"short label","context":"1-2 sentences on what this change does and why","files":["path/one","path/two"]}]}',
+            'Use the file paths exactly as given above. Every file must appear in exactly one group.'
+        );
+        const finalPrompt = parts.join('\n');
+        this.logger(`Full file grouping prompt (length: ${finalPrompt.length}):\n--BEGIN PROMPT--\n${finalPrompt}\n--END PROMPT--`, 'debug');
+        return finalPrompt;
+    }
+
+    /** Keeps only hunk headers and changed lines, cut to a small budget, which is enough to see what a file is about. */
+    private compactDiff(diffContent: string): string {
+        const relevant = diffContent
+            .split('\n')
+            .filter(line => line.startsWith('@@') || ((line.startsWith('+') || line.startsWith('-')) && !line.startsWith('+++') && !line.startsWith('---')))
+            .join('\n');
+        if (relevant.length <= this.MAX_GROUPING_DIFF_LENGTH) {
+            return relevant || '(no textual changes)';
+        }
+        return relevant.substring(0, this.MAX_GROUPING_DIFF_LENGTH) + '\n... (truncated)';
+    }
+
+    private parseProposedGroups(responseText: string, knownFiles: string[]): ProposedFileGroup[] {
+        // Models sometimes wrap JSON in prose or code fences despite the instructions; take the outermost object.
+        const start = responseText.indexOf('{');
+        const end = responseText.lastIndexOf('}');
+        if (start === -1 || end <= start) {
+            throw new Error('The LLM response did not contain JSON.');
+        }
+        const parsed = JSON.parse(responseText.substring(start, end + 1));
+        const rawGroups: any[] = Array.isArray(parsed?.groups) ? parsed.groups : [];
+
+        const remaining = new Set(knownFiles);
+        const groups: ProposedFileGroup[] = [];
+        for (const rawGroup of rawGroups) {
+            const files = (Array.isArray(rawGroup?.files) ? rawGroup.files : [])
+                .filter((file: unknown): file is string => typeof file === 'string' && remaining.has(file));
+            files.forEach((file: string) => remaining.delete(file));
+            if (files.length === 0) {
+                continue;
+            }
+            groups.push({
+                title: typeof rawGroup.title === 'string' && rawGroup.title.trim() ? rawGroup.title.trim() : `Group ${groups.length + 1}`,
+                context: typeof rawGroup.context === 'string' ? rawGroup.context.trim() : '',
+                files
+            });
+        }
+        if (groups.length > 0 && remaining.size > 0) {
+            this.logger(`LLM left ${remaining.size} file(s) ungrouped: ${[...remaining].join(', ')}`, 'debug');
+            groups.push({ title: 'Other changes', context: '', files: [...remaining] });
+        }
+        return groups;
+    }
+
+    private buildOverallCommitMessagePrompt(request: GenerateOverallMessageRequest, instructions: string, template = ''): string {
         this.logger(`Building overall commit message prompt.`, 'debug');
+        if (template.trim()) {
+            const finalPrompt = renderPromptTemplate(template, {
+                instructions,
+                generalContext: request.generalContext?.trim() || '',
+                specificContext: request.specificContext?.trim() || '',
+                branch: request.branch || '',
+                files: request.fileSummaries.map(summary => summary.filePath).join('\n'),
+                summaries: this.formatFileSummaries(request.fileSummaries),
+                recentCommits: this.formatStyleExamples(request.styleExamples || []),
+                commitRules: request.commitRules ? this.describeCommitRules(request.commitRules) : '',
+            });
+            this.logger(`Full overall commit message prompt from template (length: ${finalPrompt.length}):\n--BEGIN PROMPT--\n${finalPrompt}\n--END PROMPT--`, 'debug');
+            return finalPrompt;
+        }
         const parts = [instructions, ''];
         if (request.generalContext && request.generalContext.trim()) {
             parts.push(`General Project Context:\n${request.generalContext.trim()}`, '');
@@ -160,11 +495,16 @@ export class LLMService {
         if (request.specificContext && request.specificContext.trim()) {
             parts.push(`Specific Context for This Change:\n${request.specificContext.trim()}`, '');
         }
+        if (request.commitRules) {
+            parts.push(this.describeCommitRules(request.commitRules), '');
+        }
+        if (request.styleExamples && request.styleExamples.length > 0) {
+            parts.push('Recent Commit Messages From This Repository (match their style: tone, length, structure, capitalization and language; do not copy their content):', '');
+            parts.push(this.formatStyleExamples(request.styleExamples), '');
+        }
         if (request.fileSummaries.length > 0) {
             parts.push('Summaries of Changes in Files:', '');
-            request.fileSummaries.forEach(summary => {
-                parts.push(`--- File: ${summary.filePath} ---`, summary.summary, '');
-            });
+            parts.push(this.formatFileSummaries(request.fileSummaries), '');
         }
         parts.push('Based on the above context and the *provided summaries for each file*, generate a single, comprehensive Git commit message that accurately reflects *all* changes. Focus on the "what" and "why" of the entire group of changes, integrating insights from all file summaries. The message should be suitable for a Git commit log.');
         const finalPrompt = parts.join('\n');
@@ -172,8 +512,119 @@ export class LLMService {
         return finalPrompt;
     }
     
-    private async callOpenAI(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean): Promise<GenerateMessageResponse> {
-        const maxOutputTokens = isFileSummary ? 100 : Math.min(150, settings.maxTokens);
+    private formatStyleExamples(examples: string[]): string {
+        return examples.map((example, index) => `--- Example ${index + 1} ---\n${example}`).join('\n\n');
+    }
+
+    private formatFileSummaries(summaries: FileSummary[]): string {
+        return summaries.map(summary => `--- File: ${summary.filePath} ---\n${summary.summary}`).join('\n\n');
+    }
+
+    /**
+     * Renders a prompt template with sample values, so the settings view can show what the LLM would
+     * receive without reading any diffs.
+     */
+    public previewPromptTemplate(stage: PromptTemplateStage, template: string, instructions: string): string {
+        const sampleSummaries: FileSummary[] = [
+            { filePath: 'src/auth/session.ts', summary: 'Refreshes the session token one minute before it expires instead of after the first failed request.' },
+            { filePath: 'src/auth/session.test.ts', summary: 'Adds tests for the early refresh and for a refresh that fails.' },
+        ];
+        const common = {
+            generalContext: 'Example general context.',
+            specificContext: 'Example group context: users were logged out during long uploads.',
+            branch: 'feature/session-refresh',
+            styleExamples: ['fix(auth): retry token refresh once on network errors'],
+        };
+        if (stage === 'fileSummary') {
+            return this.buildFileSummaryPrompt({
+                ...common,
+                filePath: sampleSummaries[0].filePath,
+                groupFiles: sampleSummaries.map(summary => summary.filePath),
+                diffContent: '@@ -10,3 +10,4 @@\n-    if (isExpired(token)) {\n+    if (expiresWithin(token, 60_000)) {\n         return refresh(token);',
+            }, instructions, template);
+        }
+        return this.buildOverallCommitMessagePrompt({
+            ...common,
+            fileSummaries: sampleSummaries,
+            commitRules: { types: ['feat', 'fix'], scopes: [], requireScope: false, headerMaxLength: 72, bodyMaxLineLength: 100, severities: {} },
+        }, instructions, template);
+    }
+
+    /** Spells out the repository's commitlint rules; they take precedence over the general instructions. */
+    private describeCommitRules(rules: CommitLintRules): string {
+        const lines = ['Repository Commit Rules (enforced by the repository\'s commitlint configuration; they override the instructions above):'];
+        if (rules.types.length > 0) {
+            lines.push(`- Allowed types: ${rules.types.join(', ')}`);
+        }
+        if (rules.scopes.length > 0) {
+            lines.push(`- Allowed scopes: ${rules.scopes.join(', ')}${rules.requireScope ? ' (a scope is required)' : ''}`);
+        } else if (rules.requireScope) {
+            lines.push('- A scope is required: type(scope): subject');
+        }
+        lines.push(`- The first line must be at most ${rules.headerMaxLength} characters`);
+        lines.push(`- Body lines must be at most ${rules.bodyMaxLineLength} characters`);
+        return lines.join('\n');
+    }
+
+    private buildFixCommitMessagePrompt(request: FixCommitMessageRequest, instructions: string): string {
+        const parts = [instructions, ''];
+        if (request.generalContext && request.generalContext.trim()) {
+            parts.push(`General Project Context:\n${request.generalContext.trim()}`, '');
+        }
+        if (request.specificContext && request.specificContext.trim()) {
+            parts.push(`Specific Context for This Change:\n${request.specificContext.trim()}`, '');
+        }
+        if (request.commitRules) {
+            parts.push(this.describeCommitRules(request.commitRules), '');
+        }
+        parts.push(
+            'The following commit message breaks the commit message rules:',
+            '--BEGIN MESSAGE--',
+            request.message,
+            '--END MESSAGE--',
+            '',
+            'Problems found:',
+            formatCommitLintIssues(request.lintIssues),
+            '',
+            'Rewrite the commit message so that every listed problem is fixed. Keep its meaning and details; only shorten, rephrase, rewrap or restructure where a rule requires it. Respond with the corrected commit message only.'
+        );
+        const finalPrompt = parts.join('\n');
+        this.logger(`Fix commit message prompt (length: ${finalPrompt.length}):\n--BEGIN PROMPT--\n${finalPrompt}\n--END PROMPT--`, 'debug');
+        return finalPrompt;
+    }
+
+    private async callOpenAI(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean, options: ApiCallOptions = {}): Promise<GenerateMessageResponse> {
+        const headers = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${settings.apiKey}` };
+        return this.callChatCompletions(this.OPENAI_API_URL, headers, 'OpenAI', true, prompt, settings, wasTruncated, isFileSummary, options);
+    }
+
+    private async callOpenAICompatible(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean, options: ApiCallOptions = {}): Promise<GenerateMessageResponse> {
+        const endpoint = settings.openAICompatible;
+        if (!endpoint || !endpoint.baseUrl) {
+            throw new Error('No base URL configured for the OpenAI-compatible provider. Set it in the LLM Committer settings.');
+        }
+        const url = this.resolveChatCompletionsUrl(endpoint.baseUrl);
+        return this.callChatCompletions(url, this.buildOpenAICompatibleHeaders(settings), 'OpenAI-compatible endpoint', false, prompt, settings, wasTruncated, isFileSummary, options);
+    }
+
+    /**
+     * Shared request/response handling for endpoints that speak the OpenAI chat-completions protocol.
+     * `streamUsage` asks for token usage in streamed responses via stream_options, which older Azure
+     * api-versions and some local servers (vLLM, LM Studio) reject, so it is only sent to OpenAI itself.
+     */
+    private async callChatCompletions(
+        url: string,
+        headers: Record<string, string>,
+        providerLabel: string,
+        streamUsage: boolean,
+        prompt: string,
+        settings: LLMSettings,
+        wasTruncated: boolean,
+        isFileSummary: boolean,
+        options: ApiCallOptions = {}
+    ): Promise<GenerateMessageResponse> {
+        const maxOutputTokens = options.maxOutputTokens ?? (isFileSummary ? 100 : Math.min(150, settings.maxTokens));
+        const stream = this.shouldStream(settings, options);
         const payload = {
             model: settings.model,
             messages: [{ role: 'user', content: prompt }],
@@ -181,55 +632,122 @@ export class LLMService {
             temperature: settings.temperature,
             top_p: 1,
             frequency_penalty: 0,
-            presence_penalty: 0
+            presence_penalty: 0,
+            // Without stream_options the stream carries no usage; with it, a last chunk with empty choices reports the totals.
+            ...(stream ? { stream: true } : {}),
+            ...(stream && streamUsage ? { stream_options: { include_usage: true } } : {})
         };
-        this.logger(`Calling OpenAI API with model: ${settings.model}, max_tokens: ${maxOutputTokens}`, 'debug');
-        const response = await fetch(this.OPENAI_API_URL, {
+        this.logger(`Calling ${providerLabel} (${url}) with model: ${settings.model}, max_tokens: ${maxOutputTokens}, stream: ${stream}`, 'debug');
+        return this.fetchWithRetry(url, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${settings.apiKey}` },
-            body: JSON.stringify(payload)
+            headers,
+            body: JSON.stringify(payload),
+            signal: options.signal
+        }, settings, (status, errorData) => this.parseOpenAIError(status, errorData), async response => {
+            if (stream) {
+                const result = await this.readStream(response, 'sse', options.onPartial!, (event, acc) => {
+                    if (event.error) {
+                        throw this.toBodyError(this.parseOpenAIError(undefined, event));
+                    }
+                    acc.text += event.choices?.[0]?.delta?.content || '';
+                    if (event.usage?.total_tokens) {
+                        acc.tokensUsed = event.usage.total_tokens;
+                    }
+                });
+                return this.finishStreamedResponse(result, providerLabel, wasTruncated);
+            }
+            const data = await response.json();
+            if (data.error) {
+                throw this.toBodyError(this.parseOpenAIError(undefined, data));
+            }
+            if (!data.choices || data.choices.length === 0) throw new Error(`No response generated from ${providerLabel}`);
+            const message = data.choices[0].message?.content?.trim();
+            if (!message) throw new Error(`Empty response from ${providerLabel}`);
+            this.logger(`Successfully generated commit message via ${providerLabel}.`, 'debug');
+            return { success: true, message, tokensUsed: data.usage?.total_tokens, truncated: wasTruncated };
         });
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            throw new Error(this.parseOpenAIError(response.status, errorData));
+    }
+
+    private buildOpenAICompatibleHeaders(settings: LLMSettings): Record<string, string> {
+        const endpoint = settings.openAICompatible;
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (endpoint?.authScheme === 'bearer' && settings.apiKey) {
+            headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        } else if (endpoint?.authScheme === 'api-key' && settings.apiKey) {
+            headers['api-key'] = settings.apiKey;
         }
-        const data = await response.json();
-        if (!data.choices || data.choices.length === 0) throw new Error('No response generated from OpenAI');
-        const message = data.choices[0].message?.content?.trim();
-        if (!message) throw new Error('Empty response from OpenAI');
-        this.logger('Successfully generated commit message via OpenAI.', 'debug');
-        return { success: true, message, tokensUsed: data.usage?.total_tokens, truncated: wasTruncated };
+        // User-defined headers win, so gateways that need a custom auth header can override the defaults.
+        return { ...headers, ...(endpoint?.headers || {}) };
     }
 
-    private async callAnthropic(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean): Promise<GenerateMessageResponse> {
-        const maxOutputTokens = isFileSummary ? 100 : Math.min(150, settings.maxTokens);
+    /**
+     * Accepts either a base URL (e.g. http://localhost:8000/v1) or a full chat-completions URL,
+     * which is needed for gateways such as Azure OpenAI that put the deployment and api-version in the URL.
+     */
+    private resolveChatCompletionsUrl(baseUrl: string): string {
+        const url = new URL(baseUrl);
+        if (!url.pathname.replace(/\/+$/, '').endsWith('/chat/completions')) {
+            url.pathname = `${url.pathname.replace(/\/+$/, '')}/chat/completions`;
+        }
+        return url.toString();
+    }
+
+    private resolveModelsUrl(baseUrl: string): string {
+        const url = new URL(baseUrl);
+        url.pathname = `${url.pathname.replace(/\/+$/, '').replace(/\/chat\/completions$/, '')}/models`;
+        return url.toString();
+    }
+
+    private async callAnthropic(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean, options: ApiCallOptions = {}): Promise<GenerateMessageResponse> {
+        const maxOutputTokens = options.maxOutputTokens ?? (isFileSummary ? 100 : Math.min(150, settings.maxTokens));
+        const stream = this.shouldStream(settings, options);
         const payload = {
             model: settings.model,
             max_tokens: maxOutputTokens,
             temperature: settings.temperature,
-            messages: [{ role: 'user', content: prompt }]
+            messages: [{ role: 'user', content: prompt }],
+            ...(stream ? { stream: true } : {})
         };
-        this.logger(`Calling Anthropic API with model: ${settings.model}`, 'debug');
-        const response = await fetch(this.ANTHROPIC_API_URL, {
+        this.logger(`Calling Anthropic API with model: ${settings.model}, stream: ${stream}`, 'debug');
+        return this.fetchWithRetry(this.ANTHROPIC_API_URL, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json', 'x-api-key': settings.apiKey, 'anthropic-version': '2023-06-01' },
-            body: JSON.stringify(payload)
+            body: JSON.stringify(payload),
+            signal: options.signal
+        }, settings, (status, errorData) => this.parseAnthropicError(status, errorData), async response => {
+            if (stream) {
+                const result = await this.readStream(response, 'sse', options.onPartial!, (event, acc) => {
+                    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                        acc.text += event.delta.text || '';
+                    } else if (event.type === 'message_start' && event.message?.usage) {
+                        acc.tokensUsed = (acc.tokensUsed ?? 0) + (event.message.usage.input_tokens ?? 0);
+                    } else if (event.type === 'message_delta' && event.usage) {
+                        acc.tokensUsed = (acc.tokensUsed ?? 0) + (event.usage.output_tokens ?? 0);
+                    } else if (event.type === 'error') {
+                        // e.g. overloaded_error, which Anthropic can send after the stream has started
+                        throw this.toBodyError(this.parseAnthropicError(undefined, event));
+                    }
+                });
+                return this.finishStreamedResponse(result, 'Anthropic', wasTruncated);
+            }
+            const data = await response.json();
+            if (data.type === 'error') {
+                throw this.toBodyError(this.parseAnthropicError(undefined, data));
+            }
+            if (!data.content || data.content.length === 0) throw new Error('No response generated from Anthropic');
+            const message = data.content[0]?.text?.trim();
+            if (!message) throw new Error('Empty response from Anthropic');
+            this.logger('Successfully generated commit message via Anthropic.', 'debug');
+            return { success: true, message, tokensUsed: data.usage?.input_tokens + data.usage?.output_tokens, truncated: wasTruncated };
         });
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            throw new Error(this.parseAnthropicError(response.status, errorData));
-        }
-        const data = await response.json();
-        if (!data.content || data.content.length === 0) throw new Error('No response generated from Anthropic');
-        const message = data.content[0]?.text?.trim();
-        if (!message) throw new Error('Empty response from Anthropic');
-        this.logger('Successfully generated commit message via Anthropic.', 'debug');
-        return { success: true, message, tokensUsed: data.usage?.input_tokens + data.usage?.output_tokens, truncated: wasTruncated };
     }
 
-    private async callGemini(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean): Promise<GenerateMessageResponse> {
-        const maxOutputTokens = isFileSummary ? 100 : Math.min(150, settings.maxTokens);
-        const apiUrl = `${this.GEMINI_API_BASE_URL}/${settings.model}:generateContent?key=${settings.apiKey}`;
+    private async callGemini(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean, options: ApiCallOptions = {}): Promise<GenerateMessageResponse> {
+        const maxOutputTokens = options.maxOutputTokens ?? (isFileSummary ? 100 : Math.min(150, settings.maxTokens));
+        const stream = this.shouldStream(settings, options);
+        const apiUrl = stream
+            ? `${this.GEMINI_API_BASE_URL}/${settings.model}:streamGenerateContent?alt=sse&key=${settings.apiKey}`
+            : `${this.GEMINI_API_BASE_URL}/${settings.model}:generateContent?key=${settings.apiKey}`;
         const payload = {
             contents: [{ parts: [{ text: prompt }] }],
             generationConfig: {
@@ -237,37 +755,54 @@ export class LLMService {
                 maxOutputTokens: maxOutputTokens,
             }
         };
-        this.logger(`Calling Gemini API with model: ${settings.model}`, 'debug');
-        const response = await fetch(apiUrl, {
+        this.logger(`Calling Gemini API with model: ${settings.model}, stream: ${stream}`, 'debug');
+        return this.fetchWithRetry(apiUrl, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload)
+            body: JSON.stringify(payload),
+            signal: options.signal
+        }, settings, (status, errorData) => this.parseGeminiError(status, errorData), async response => {
+            if (stream) {
+                const result = await this.readStream(response, 'sse', options.onPartial!, (event, acc) => {
+                    if (event.error) {
+                        throw this.toBodyError(this.parseGeminiError(undefined, event));
+                    }
+                    const parts: { text?: string }[] = event.candidates?.[0]?.content?.parts || [];
+                    acc.text += parts.map(part => part.text || '').join('');
+                    // usageMetadata is cumulative, so the last chunk carries the total.
+                    if (event.usageMetadata?.totalTokenCount) {
+                        acc.tokensUsed = event.usageMetadata.totalTokenCount;
+                    }
+                });
+                return this.finishStreamedResponse(result, 'Gemini', wasTruncated);
+            }
+            const data = await response.json();
+            if (data.error) {
+                throw this.toBodyError(this.parseGeminiError(undefined, data));
+            }
+            if (!data.candidates || data.candidates.length === 0 || !data.candidates[0].content?.parts[0]?.text) {
+                this.logger('Invalid response structure from Gemini.', 'error');
+                this.logger(`Gemini response: ${JSON.stringify(data).substring(0, 500)}`, 'debug');
+                throw new Error('No response or invalid format generated from Gemini');
+            }
+            const message = data.candidates[0].content.parts[0].text.trim();
+            if (!message) throw new Error('Empty response from Gemini');
+            this.logger('Successfully generated commit message via Gemini.', 'debug');
+            return { success: true, message, tokensUsed: undefined, truncated: wasTruncated }; // Gemini doesn't return token usage in this basic call
         });
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            throw new Error(this.parseGeminiError(response.status, errorData));
-        }
-        const data = await response.json();
-        if (!data.candidates || data.candidates.length === 0 || !data.candidates[0].content?.parts[0]?.text) {
-            console.error("[LLMService] Invalid response structure from Gemini:", data); // Keep for dev console
-            this.logger('Invalid response structure from Gemini.', 'error');
-            throw new Error('No response or invalid format generated from Gemini');
-        }
-        const message = data.candidates[0].content.parts[0].text.trim();
-        if (!message) throw new Error('Empty response from Gemini');
-        this.logger('Successfully generated commit message via Gemini.', 'debug');
-        return { success: true, message, tokensUsed: undefined, truncated: wasTruncated }; // Gemini doesn't return token usage in this basic call
     }
 
-    private async callOpenRouter(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean): Promise<GenerateMessageResponse> {
-        const maxOutputTokens = isFileSummary ? 100 : Math.min(150, settings.maxTokens);
+    private async callOpenRouter(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean, options: ApiCallOptions = {}): Promise<GenerateMessageResponse> {
+        const maxOutputTokens = options.maxOutputTokens ?? (isFileSummary ? 100 : Math.min(150, settings.maxTokens));
+        const stream = this.shouldStream(settings, options);
         const payload = {
             model: settings.model,
             messages: [{ role: 'user', content: prompt }],
             temperature: settings.temperature,
             max_tokens: maxOutputTokens,
+            ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
         };
-        this.logger(`Calling OpenRouter API with model: ${settings.model}`, 'debug');
+        this.logger(`Calling OpenRouter API with model: ${settings.model}, stream: ${stream}`, 'debug');
         const headers: HeadersInit = {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${settings.apiKey}`,
@@ -277,61 +812,370 @@ export class LLMService {
             headers['HTTP-Referer'] = settings.openRouterRefererUrl;
             this.logger(`Using HTTP-Referer for OpenRouter: ${settings.openRouterRefererUrl}`, 'debug');
         }
-        const response = await fetch(this.OPENROUTER_API_URL, {
+        // OpenRouter often mirrors OpenAI's error format
+        return this.fetchWithRetry(this.OPENROUTER_API_URL, {
             method: 'POST',
             headers: headers,
-            body: JSON.stringify(payload)
+            body: JSON.stringify(payload),
+            signal: options.signal
+        }, settings, (status, errorData) => this.parseOpenAIError(status, errorData), async response => {
+            if (stream) {
+                const result = await this.readStream(response, 'sse', options.onPartial!, (event, acc) => {
+                    if (event.error) {
+                        throw this.toBodyError(this.parseOpenAIError(undefined, event));
+                    }
+                    acc.text += event.choices?.[0]?.delta?.content || '';
+                    if (event.usage?.total_tokens) {
+                        acc.tokensUsed = event.usage.total_tokens;
+                    }
+                });
+                return this.finishStreamedResponse(result, 'OpenRouter', wasTruncated);
+            }
+            const data = await response.json();
+            // OpenRouter answers 200 with an error body when the upstream provider fails.
+            if (data.error) {
+                throw this.toBodyError(this.parseOpenAIError(undefined, data));
+            }
+            if (!data.choices || data.choices.length === 0 || !data.choices[0].message?.content) {
+                throw new Error('No response or invalid format generated from OpenRouter');
+            }
+            const message = data.choices[0].message.content.trim();
+            if (!message) throw new Error('Empty response from OpenRouter');
+            this.logger('Successfully generated commit message via OpenRouter.', 'debug');
+            return { success: true, message, tokensUsed: data.usage?.total_tokens, truncated: wasTruncated };
         });
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            // OpenRouter often mirrors OpenAI's error format
-            throw new Error(this.parseOpenAIError(response.status, errorData));
+    }
+    
+    private async callOllama(prompt: string, settings: LLMSettings, wasTruncated: boolean, isFileSummary: boolean, options: ApiCallOptions = {}): Promise<GenerateMessageResponse> {
+        const maxOutputTokens = options.maxOutputTokens ?? (isFileSummary ? 100 : Math.min(150, settings.maxTokens));
+        const baseUrl = settings.ollamaBaseUrl || DEFAULT_OLLAMA_BASE_URL;
+        const stream = this.shouldStream(settings, options);
+        const payload = {
+            model: settings.model,
+            messages: [{ role: 'user', content: prompt }],
+            stream,
+            options: {
+                temperature: settings.temperature,
+                num_predict: maxOutputTokens
+            }
+        };
+        this.logger(`Calling Ollama API at ${baseUrl} with model: ${settings.model}, stream: ${stream}`, 'debug');
+        return this.fetchWithRetry(`${baseUrl}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+            signal: options.signal
+        }, settings, (status, errorData) => this.parseOllamaError(status, errorData, settings.model), async response => {
+            if (stream) {
+                // Ollama streams newline-delimited JSON rather than SSE.
+                const result = await this.readStream(response, 'ndjson', options.onPartial!, (event, acc) => {
+                    if (event.error) {
+                        throw this.toBodyError(this.parseOllamaError(undefined, event, settings.model));
+                    }
+                    acc.text += event.message?.content || '';
+                    if (event.done) {
+                        acc.tokensUsed = ((event.prompt_eval_count ?? 0) + (event.eval_count ?? 0)) || undefined;
+                    }
+                });
+                return this.finishStreamedResponse(result, 'Ollama', wasTruncated);
+            }
+            const data = await response.json();
+            const message = data.message?.content?.trim();
+            if (!message) {
+                throw new Error('Empty response from Ollama');
+            }
+            this.logger('Successfully generated commit message via Ollama.', 'debug');
+            const tokensUsed = (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0);
+            return { success: true, message, tokensUsed: tokensUsed || undefined, truncated: wasTruncated };
+        });
+    }
+
+    private isAbortError(error: unknown): boolean {
+        return error instanceof Error && error.name === 'AbortError';
+    }
+
+    /**
+     * Sends a request, reads the OK response with `readResponse` and retries transient failures (rate limits,
+     * 5xx, network errors) with exponential backoff. Errors inside an OK response, such as stream error events,
+     * count too when `readResponse` throws them as an LLMApiError. Server hints such as Retry-After or the
+     * providers' rate-limit reset headers take precedence over the computed delay.
+     */
+    private async fetchWithRetry<T>(
+        url: string,
+        init: RequestInit,
+        settings: LLMSettings,
+        describeError: (status: number, errorData: any) => ProviderError,
+        readResponse: (response: Response) => Promise<T>
+    ): Promise<T> {
+        const { maxRetries, baseDelayMs, maxDelayMs } = settings.retry;
+        const signal = init.signal ?? undefined;
+        for (let attempt = 1; ; attempt++) {
+            let error: LLMApiError;
+            try {
+                const response = await fetch(url, init);
+                if (response.ok) {
+                    return await readResponse(response);
+                }
+                const errorData = await response.json().catch(() => ({}));
+                error = this.toApiError(response, errorData, describeError(response.status, errorData));
+            } catch (requestError) {
+                if (this.isAbortError(requestError)) {
+                    throw requestError;
+                }
+                if (requestError instanceof LLMApiError) {
+                    error = requestError;
+                } else if (requestError instanceof TypeError) {
+                    // fetch() and stream reads reject with a TypeError when the server cannot be reached or the connection drops.
+                    error = new LLMApiError(`Network error while contacting the LLM provider: ${requestError.message}`, undefined, true);
+                } else {
+                    throw requestError;
+                }
+            }
+
+            error.attempts = attempt;
+            if (!error.retryable || attempt > maxRetries) {
+                throw error;
+            }
+            const backoff = baseDelayMs * 2 ** (attempt - 1);
+            const jittered = backoff / 2 + Math.random() * backoff / 2;
+            const delayMs = Math.min(maxDelayMs, error.retryAfterMs ?? jittered);
+            this.logger(`Request failed (${error.status ?? 'network'}): ${error.message}. Retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1} of ${maxRetries + 1}).`, 'warning');
+            await this.sleep(delayMs, signal);
         }
-        const data = await response.json();
-        if (!data.choices || data.choices.length === 0 || !data.choices[0].message?.content) {
-            throw new Error('No response or invalid format generated from OpenRouter');
+    }
+
+    private toApiError(response: Response, errorData: any, error: ProviderError): LLMApiError {
+        return new LLMApiError(error.message, response.status, error.retryable, error.retryable ? this.getRetryAfterMs(response.headers, errorData) : undefined);
+    }
+
+    /** For errors reported inside an OK response: stream error events, or an error body some gateways answer 200 with. */
+    private toBodyError(error: ProviderError): LLMApiError {
+        return new LLMApiError(error.message, error.status, error.retryable);
+    }
+
+    /**
+     * Reads how long the provider asks us to wait, from (in order) the standard Retry-After headers,
+     * OpenAI's x-ratelimit-reset-* durations, Anthropic's anthropic-ratelimit-*-reset timestamps
+     * and Gemini's RetryInfo error detail.
+     */
+    private getRetryAfterMs(headers: Headers, errorData: any): number | undefined {
+        const retryAfterMs = Number(headers.get('retry-after-ms'));
+        if (headers.get('retry-after-ms') && Number.isFinite(retryAfterMs)) {
+            return retryAfterMs;
+        }
+        const retryAfter = headers.get('retry-after');
+        if (retryAfter) {
+            const seconds = Number(retryAfter);
+            if (Number.isFinite(seconds)) {
+                return seconds * 1000;
+            }
+            const date = Date.parse(retryAfter);
+            if (!Number.isNaN(date)) {
+                return Math.max(0, date - Date.now());
+            }
         }
-        const message = data.choices[0].message.content.trim();
-        if (!message) throw new Error('Empty response from OpenRouter');
-        this.logger('Successfully generated commit message via OpenRouter.', 'debug');
-        return { success: true, message, tokensUsed: data.usage?.total_tokens, truncated: wasTruncated };
+
+        const candidates: number[] = [];
+        for (const name of ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']) {
+            const value = headers.get(name);
+            const ms = value ? this.parseDuration(value) : undefined;
+            if (ms !== undefined) {
+                candidates.push(ms);
+            }
+        }
+        for (const name of ['anthropic-ratelimit-requests-reset', 'anthropic-ratelimit-tokens-reset']) {
+            const value = headers.get(name);
+            const date = value ? Date.parse(value) : NaN;
+            if (!Number.isNaN(date)) {
+                candidates.push(Math.max(0, date - Date.now()));
+            }
+        }
+        const details: any[] = Array.isArray(errorData?.error?.details) ? errorData.error.details : [];
+        const retryInfo = details.find(detail => typeof detail?.retryDelay === 'string');
+        const geminiDelay = retryInfo ? this.parseDuration(retryInfo.retryDelay) : undefined;
+        if (geminiDelay !== undefined) {
+            candidates.push(geminiDelay);
+        }
+        return candidates.length > 0 ? Math.max(...candidates) : undefined;
     }
-    
-    private parseAnthropicError(status: number, errorData: any): string {
+
+    /** Parses Go-style durations as used by OpenAI and Gemini, e.g. "20ms", "1.5s" or "6m0s". */
+    private parseDuration(value: string): number | undefined {
+        const parts = value.trim().match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+        if (!parts) {
+            return undefined;
+        }
+        const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+        return parts.reduce((total, part) => {
+            const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+            return total + parseFloat(amount) * unitMs[unit];
+        }, 0);
+    }
+
+    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new DOMException('The operation was aborted.', 'AbortError'));
+                return;
+            }
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new DOMException('The operation was aborted.', 'AbortError'));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private shouldStream(settings: LLMSettings, options: ApiCallOptions): boolean {
+        return !!options.onPartial && settings.streamResponses;
+    }
+
+    /**
+     * Reads a streamed response body event by event, reporting the accumulated text after every chunk.
+     * 'sse' handles Server-Sent Events ("data: {...}" lines); 'ndjson' handles one JSON object per line.
+     */
+    private async readStream(
+        response: Response,
+        format: 'sse' | 'ndjson',
+        onPartial: (text: string) => void,
+        handleEvent: (event: any, acc: StreamAccumulator) => void
+    ): Promise<StreamAccumulator> {
+        if (!response.body) {
+            throw new Error('Streaming response has no body');
+        }
+        const acc: StreamAccumulator = { text: '' };
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        const processLine = (rawLine: string) => {
+            const line = rawLine.trim();
+            if (!line) {
+                return;
+            }
+            let data = line;
+            if (format === 'sse') {
+                if (!line.startsWith('data:')) {
+                    return; // event:, id: and comment lines carry nothing we need
+                }
+                data = line.substring(5).trim();
+                if (data === '[DONE]') {
+                    return;
+                }
+            }
+            let event: any;
+            try {
+                event = JSON.parse(data);
+            } catch {
+                this.logger(`Skipping unparsable stream chunk: ${data.substring(0, 100)}`, 'debug');
+                return;
+            }
+            const previousLength = acc.text.length;
+            handleEvent(event, acc);
+            if (acc.text.length !== previousLength) {
+                onPartial(acc.text);
+            }
+        };
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            lines.forEach(processLine);
+        }
+        buffer += decoder.decode();
+        processLine(buffer);
+        return acc;
+    }
+
+    private finishStreamedResponse(result: StreamAccumulator, providerLabel: string, wasTruncated: boolean): GenerateMessageResponse {
+        const message = result.text.trim();
+        if (!message) {
+            throw new Error(`Empty streamed response from ${providerLabel}`);
+        }
+        this.logger(`Successfully streamed commit message via ${providerLabel}.`, 'debug');
+        return { success: true, message, tokensUsed: result.tokensUsed, truncated: wasTruncated };
+    }
+
+    /**
+     * The parse helpers turn an error response, a stream error event or an error in the body of an OK
+     * response into a message and decide whether retrying can help. Errors without an HTTP status are
+     * classified by the provider's error type; `status` is undefined for those.
+     */
+    private parseAnthropicError(status: number | undefined, errorData: any): ProviderError {
         const errorMessage = errorData.error?.message || errorData.message || 'Unknown Anthropic error';
-        this.logger(`Anthropic API Error (Status ${status}): ${errorMessage}`, 'debug');
-        switch (status) {
-            case 401: return `Invalid API key. Please check your Anthropic API key. Details: ${errorMessage}`;
-            case 429: return `Rate limit exceeded for Anthropic. Please try again later. Details: ${errorMessage}`;
-            case 400: return errorMessage.includes('maximum context length') || errorMessage.includes('too long') ? `Request too large for Anthropic. Details: ${errorMessage}` : `Bad request to Anthropic: ${errorMessage}`;
-            case 500: case 502: case 503: return `Anthropic service temporarily unavailable. Details: ${errorMessage}`;
-            default: return `Anthropic API error (${status}): ${errorMessage}`;
+        const code = status ?? this.ANTHROPIC_ERROR_STATUSES[errorData.error?.type] ?? 500;
+        this.logger(`Anthropic API Error (Status ${code}): ${errorMessage}`, 'debug');
+        const retryable = this.RETRYABLE_STATUSES.has(code);
+        switch (code) {
+            case 401: return { message: `Invalid API key. Please check your Anthropic API key. Details: ${errorMessage}`, status: code, retryable };
+            case 429: return { message: `Rate limit exceeded for Anthropic. Please try again later. Details: ${errorMessage}`, status: code, retryable };
+            case 400: return { message: errorMessage.includes('maximum context length') || errorMessage.includes('too long') ? `Request too large for Anthropic. Details: ${errorMessage}` : `Bad request to Anthropic: ${errorMessage}`, status: code, retryable };
+            case 500: case 502: case 503: case 529: return { message: `Anthropic service temporarily unavailable. Details: ${errorMessage}`, status: code, retryable };
+            default: return { message: `Anthropic API error (${code}): ${errorMessage}`, status: code, retryable };
         }
     }
 
-    private parseOpenAIError(status: number, errorData: any): string {
+    private parseOpenAIError(status: number | undefined, errorData: any): ProviderError {
         const errorMessage = errorData.error?.message || errorData.message || 'Unknown OpenAI/OpenRouter error';
-        this.logger(`OpenAI/OpenRouter API Error (Status ${status}): ${errorMessage}`, 'debug');
-        switch (status) {
-            case 401: return `Invalid API key. Please check your API key. Details: ${errorMessage}`;
-            case 429: return `Rate limit exceeded. Please try again later. Details: ${errorMessage}`;
-            case 400: return errorMessage.includes('maximum context length') ? `Request too large. Details: ${errorMessage}` : `Bad request: ${errorMessage}`;
-            case 500: case 502: case 503: return `Service temporarily unavailable. Details: ${errorMessage}`;
-            default: return `API error (${status}): ${errorMessage}`;
+        const errorCode = errorData.error?.code;
+        // OpenRouter puts the HTTP status in error.code; OpenAI uses codes and types such as "rate_limit_exceeded".
+        const code = status
+            ?? (typeof errorCode === 'number' ? errorCode : undefined)
+            ?? this.OPENAI_ERROR_STATUSES[errorCode]
+            ?? this.OPENAI_ERROR_STATUSES[errorData.error?.type]
+            ?? 500;
+        this.logger(`OpenAI/OpenRouter API Error (Status ${code}): ${errorMessage}`, 'debug');
+        // OpenAI answers 429 both for rate limits and for an exhausted quota; only the former clears up by itself.
+        const quotaExhausted = errorCode === 'insufficient_quota' || errorData.error?.type === 'insufficient_quota';
+        const retryable = this.RETRYABLE_STATUSES.has(code) && !quotaExhausted;
+        switch (code) {
+            case 401: return { message: `Invalid API key. Please check your API key. Details: ${errorMessage}`, status: code, retryable };
+            case 429: return { message: quotaExhausted ? `Quota exceeded. Check your plan and billing details. Details: ${errorMessage}` : `Rate limit exceeded. Please try again later. Details: ${errorMessage}`, status: code, retryable };
+            case 400: return { message: errorMessage.includes('maximum context length') ? `Request too large. Details: ${errorMessage}` : `Bad request: ${errorMessage}`, status: code, retryable };
+            case 500: case 502: case 503: return { message: `Service temporarily unavailable. Details: ${errorMessage}`, status: code, retryable };
+            default: return { message: `API error (${code}): ${errorMessage}`, status: code, retryable };
         }
     }
 
-    private parseGeminiError(status: number, errorData: any): string {
+    private parseGeminiError(status: number | undefined, errorData: any): ProviderError {
         const errorMessage = errorData.error?.message || errorData.message || 'Unknown Gemini error';
-        this.logger(`Gemini API Error (Status ${status}): ${errorMessage}`, 'debug');
-        switch (status) {
+        const errorCode = errorData.error?.code;
+        const code = status
+            ?? (typeof errorCode === 'number' ? errorCode : undefined)
+            ?? this.GEMINI_ERROR_STATUSES[errorData.error?.status]
+            ?? 500;
+        this.logger(`Gemini API Error (Status ${code}): ${errorMessage}`, 'debug');
+        const retryable = this.RETRYABLE_STATUSES.has(code);
+        switch (code) {
             case 400:
-                if (errorMessage.toLowerCase().includes('api key not valid')) return `Invalid API key for Gemini. Details: ${errorMessage}`;
-                if (errorMessage.toLowerCase().includes('user location is not supported')) return `User location not supported for Gemini API. Details: ${errorMessage}`;
-                return `Bad request to Gemini: ${errorMessage}`;
-            case 429: return `Rate limit exceeded for Gemini. Please try again later. Details: ${errorMessage}`;
-            case 500: case 503: return `Gemini service temporarily unavailable. Details: ${errorMessage}`;
-            default: return `Gemini API error (${status}): ${errorMessage}`;
+                if (errorMessage.toLowerCase().includes('api key not valid')) return { message: `Invalid API key for Gemini. Details: ${errorMessage}`, status: code, retryable };
+                if (errorMessage.toLowerCase().includes('user location is not supported')) return { message: `User location not supported for Gemini API. Details: ${errorMessage}`, status: code, retryable };
+                return { message: `Bad request to Gemini: ${errorMessage}`, status: code, retryable };
+            case 429: return { message: `Rate limit exceeded for Gemini. Please try again later. Details: ${errorMessage}`, status: code, retryable };
+            case 500: case 503: return { message: `Gemini service temporarily unavailable. Details: ${errorMessage}`, status: code, retryable };
+            default: return { message: `Gemini API error (${code}): ${errorMessage}`, status: code, retryable };
+        }
+    }
+
+    private parseOllamaError(status: number | undefined, errorData: any, model: string): ProviderError {
+        const errorMessage = errorData.error || errorData.message || 'Unknown Ollama error';
+        const code = status ?? 500;
+        this.logger(`Ollama API Error (Status ${code}): ${errorMessage}`, 'debug');
+        const retryable = this.RETRYABLE_STATUSES.has(code);
+        switch (code) {
+            case 404: return { message: `Model "${model}" is not available on the Ollama server. Pull it first with "ollama pull ${model}". Details: ${errorMessage}`, status: code, retryable };
+            case 400: return { message: `Bad request to Ollama: ${errorMessage}`, status: code, retryable };
+            case 500: case 503: return { message: `Ollama server error. Details: ${errorMessage}`, status: code, retryable };
+            default: return { message: `Ollama API error (${code}): ${errorMessage}`, status: code, retryable };
         }
     }
 
@@ -366,11 +1210,11 @@ export class LLMService {
         return { ...request, fileDiffs: truncatedDiffs };
     }
 
-    public async testConnection(): Promise<{ success: boolean; error?: string }> {
+    public async testConnection(repositoryRoot?: string): Promise<{ success: boolean; error?: string }> {
         this.logger('Testing API connection...', 'debug');
         try {
-            const settings = await this.configService.getLLMSettings();
-            if (!settings.apiKey) {
+            const settings = await this.configService.getLLMSettings(repositoryRoot);
+            if (this.configService.providerRequiresApiKey(settings.provider, repositoryRoot) && !settings.apiKey) {
                 this.logger('API key not found for connection test.', 'warning');
                 return { success: false, error: 'No API key configured for the selected provider.' };
             }
@@ -384,6 +1228,8 @@ export class LLMService {
                 case 'anthropic': return this.testAnthropicConnection(settings);
                 case 'gemini': return this.testGeminiConnection(settings);
                 case 'openrouter': return this.testOpenrouterConnection(settings);
+                case 'ollama': return this.testOllamaConnection(settings);
+                case 'openai-compatible': return this.testOpenAICompatibleConnection(settings);
                 default:
                     this.logger(`Connection test not implemented for provider: ${settings.provider}`, 'warning');
                     return { success: false, error: `Connection test not implemented for provider: ${settings.provider}` };
@@ -391,7 +1237,7 @@ export class LLMService {
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
             this.logger(`Connection test failed: ${errorMsg}`, 'error');
-            console.error('[LLMService] Connection test failed:', error); // Keep for dev console stack trace
+            this.logStackTrace(error);
             return { success: false, error: `Connection failed: ${errorMsg}` };
         }
     }
@@ -409,7 +1255,7 @@ export class LLMService {
             return { success: true };
         }
         const errorData = await response.json().catch(() => ({}));
-        return { success: false, error: this.parseOpenAIError(response.status, errorData) };
+        return { success: false, error: this.parseOpenAIError(response.status, errorData).message };
     }
 
     private async testAnthropicConnection(settings: LLMSettings): Promise<{ success: boolean; error?: string }> {
@@ -425,7 +1271,7 @@ export class LLMService {
             return { success: true };
         }
         const errorData = await response.json().catch(() => ({}));
-        return { success: false, error: this.parseAnthropicError(response.status, errorData) };
+        return { success: false, error: this.parseAnthropicError(response.status, errorData).message };
     }
 
     private async testGeminiConnection(settings: LLMSettings): Promise<{ success: boolean; error?: string }> {
@@ -447,7 +1293,7 @@ export class LLMService {
             return { success: false, error: 'Gemini test call succeeded but response format was unexpected.' };
         }
         const errorData = await response.json().catch(() => ({}));
-        return { success: false, error: this.parseGeminiError(response.status, errorData) };
+        return { success: false, error: this.parseGeminiError(response.status, errorData).message };
     }
 
     private async testOpenrouterConnection(settings: LLMSettings): Promise<{ success: boolean; error?: string }> {
@@ -466,10 +1312,76 @@ export class LLMService {
             return { success: true };
         }
         const errorData = await response.json().catch(() => ({}));
-        return { success: false, error: this.parseOpenAIError(response.status, errorData) };
+        return { success: false, error: this.parseOpenAIError(response.status, errorData).message };
+    }
+
+    private async testOpenAICompatibleConnection(settings: LLMSettings): Promise<{ success: boolean; error?: string }> {
+        if (!settings.openAICompatible?.baseUrl) {
+            return { success: false, error: 'No base URL configured for the OpenAI-compatible provider.' };
+        }
+        if (!settings.model) {
+            return { success: false, error: 'No model configured for the OpenAI-compatible provider.' };
+        }
+        const url = this.resolveChatCompletionsUrl(settings.openAICompatible.baseUrl);
+        const testPayload = { model: settings.model, messages: [{ role: 'user', content: 'Test connection. Respond with "OK".' }], max_tokens: 10, temperature: 0 };
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: this.buildOpenAICompatibleHeaders(settings),
+            body: JSON.stringify(testPayload)
+        });
+        if (response.ok) {
+            this.logger(`OpenAI-compatible endpoint connection test successful (${url}).`, 'debug');
+            return { success: true };
+        }
+        const errorData = await response.json().catch(() => ({}));
+        return { success: false, error: this.parseOpenAIError(response.status, errorData).message };
+    }
+
+    private async fetchOpenAICompatibleModels(settings: LLMSettings): Promise<string[]> {
+        if (!settings.openAICompatible?.baseUrl) {
+            return [];
+        }
+        const response = await fetch(this.resolveModelsUrl(settings.openAICompatible.baseUrl), {
+            method: 'GET',
+            headers: this.buildOpenAICompatibleHeaders(settings)
+        });
+        if (!response.ok) {
+            throw new Error(`Endpoint responded with status ${response.status} when listing models`);
+        }
+        const data = await response.json();
+        return (data.data || []).map((m: { id?: string }) => m.id).filter(Boolean);
+    }
+
+    private async testOllamaConnection(settings: LLMSettings): Promise<{ success: boolean; error?: string }> {
+        const baseUrl = settings.ollamaBaseUrl || DEFAULT_OLLAMA_BASE_URL;
+        let models: string[];
+        try {
+            models = await this.fetchOllamaModels(baseUrl);
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            return { success: false, error: `Could not reach Ollama at ${baseUrl}. Is "ollama serve" running? Details: ${errorMsg}` };
+        }
+        if (settings.model && !models.some(m => m === settings.model || m === `${settings.model}:latest`)) {
+            this.logger(`Ollama is reachable but model "${settings.model}" is not installed. Installed: ${models.join(', ') || '(none)'}`, 'warning');
+            return { success: false, error: `Ollama is running, but model "${settings.model}" is not installed. Run "ollama pull ${settings.model}".` };
+        }
+        this.logger('Ollama connection test successful.', 'debug');
+        return { success: true };
+    }
+
+    private async fetchOllamaModels(baseUrl: string): Promise<string[]> {
+        const response = await fetch(`${baseUrl}/api/tags`, { method: 'GET' });
+        if (!response.ok) {
+            throw new Error(`Ollama responded with status ${response.status} when listing models`);
+        }
+        const data = await response.json();
+        const models: string[] = (data.models || []).map((m: { name?: string; model?: string }) => m.name || m.model).filter(Boolean);
+        this.logger(`Discovered ${models.length} Ollama model(s) at ${baseUrl}.`, 'debug');
+        return models;
     }
 
-    public getAvailableModels(provider: LLMProvider): string[] {
+    /** Models to offer for `provider`; Ollama and OpenAI-compatible servers are asked with the settings of `repositoryRoot`. */
+    public async getAvailableModels(provider: LLMProvider, repositoryRoot?: string): Promise<string[]> {
         switch (provider) {
             case 'openai': return ['gpt-4o-mini', 'gpt-4o', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'];
             case 'anthropic': return ['claude-3-5-sonnet-20240620', 'claude-3-opus-20240229', 'claude-3-sonnet-20240229', 'claude-3-haiku-20240307'];
@@ -482,6 +1394,23 @@ export class LLMService {
                 'mistralai/mistral-large', 'mistralai/mistral-7b-instruct', 
                 'meta-llama/llama-3-70b-instruct','meta-llama/llama-3-8b-instruct',
             ];
+            case 'ollama':
+                try {
+                    return await this.fetchOllamaModels(this.configService.getOllamaBaseUrl(repositoryRoot));
+                } catch (error) {
+                    const errorMsg = error instanceof Error ? error.message : String(error);
+                    this.logger(`Failed to list Ollama models: ${errorMsg}`, 'warning');
+                    return [];
+                }
+            case 'openai-compatible':
+                try {
+                    return await this.fetchOpenAICompatibleModels(await this.configService.getLLMSettings(repositoryRoot));
+                } catch (error) {
+                    // Not every gateway implements /models (e.g. Azure deployments), so this is informational only.
+                    const errorMsg = error instanceof Error ? error.message : String(error);
+                    this.logger(`Failed to list models from OpenAI-compatible endpoint: ${errorMsg}`, 'debug');
+                    return [];
+                }
             default: 
                 this.logger(`No available models list for provider: ${provider}`, 'warning');
                 return [];
@@ -0,0 +1,141 @@
+// src/services/RepositoryConfigService.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// Searched in this order; the first file found is used.
+export const REPOSITORY_CONFIG_FILE_NAMES = ['.llmcommitter.json', '.llmcommitter.yaml', '.llmcommitter.yml'];
+
+// Settings that decide where diffs are sent. A freshly cloned repository must not be able to move the
+// user from a local model to a cloud provider they happen to have a key for, so these need trust.
+const TRUSTED_ONLY_KEYS: (keyof RepositoryConfig)[] = ['provider', 'model'];
+
+/** Settings a team can check in at the repository root. Every field is optional. */
+export interface RepositoryConfig {
+    instructions?: string;
+    generalContext?: string;   // Added in front of the general context typed in the view
+    commitTypes?: string[];    // Allowed Conventional Commits types
+    ignorePatterns?: string[]; // Added to llmCommitter.ignorePatterns
+    provider?: string;
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    fileSummaryPromptTemplate?: string;    // Replaces the built-in per-file summary prompt
+    commitMessagePromptTemplate?: string;  // Replaces the built-in commit message prompt
+}
+
+export interface LoadedRepositoryConfig {
+    config: RepositoryConfig;
+    source: string; // File name relative to the repository root
+}
+
+type LoggerFunction = (message: string, type?: 'info' | 'error' | 'warning' | 'debug', showPopup?: boolean) => void;
+
+interface CacheEntry {
+    filePath: string;
+    mtimeMs: number;
+    loaded: LoadedRepositoryConfig | undefined;
+}
+
+/**
+ * Reads the shared `.llmcommitter.json` / `.llmcommitter.yaml` of a repository. Reading is synchronous
+ * because the settings getters are; the parsed file is cached until its modification time changes.
+ */
+export class RepositoryConfigService {
+    private logger: LoggerFunction;
+    private isTrusted: () => boolean;
+    private cache = new Map<string, CacheEntry>();
+    private reportedUntrusted = new Set<string>();
+
+    // `isTrusted` decides whether the file may choose the provider and model; the extension passes VS Code's workspace trust.
+    constructor(logger: LoggerFunction = console.log, isTrusted: () => boolean = () => false) {
+        this.logger = logger;
+        this.isTrusted = isTrusted;
+    }
+
+    public load(repositoryRoot: string): LoadedRepositoryConfig | undefined {
+        const loaded = this.loadFile(repositoryRoot);
+        if (!loaded || this.isTrusted()) {
+            return loaded;
+        }
+        const ignoredKeys = TRUSTED_ONLY_KEYS.filter(key => loaded.config[key] !== undefined);
+        if (ignoredKeys.length === 0) {
+            return loaded;
+        }
+        if (!this.reportedUntrusted.has(repositoryRoot)) {
+            this.reportedUntrusted.add(repositoryRoot);
+            this.logger(`Ignoring ${ignoredKeys.join(' and ')} in ${loaded.source} because the workspace is not trusted.`, 'warning');
+        }
+        const config = { ...loaded.config };
+        ignoredKeys.forEach(key => delete config[key]);
+        return { ...loaded, config };
+    }
+
+    private loadFile(repositoryRoot: string): LoadedRepositoryConfig | undefined {
+        const fileName = REPOSITORY_CONFIG_FILE_NAMES.find(name => fs.existsSync(path.join(repositoryRoot, name)));
+        if (!fileName) {
+            this.cache.delete(repositoryRoot);
+            return undefined;
+        }
+        const filePath = path.join(repositoryRoot, fileName);
+        try {
+            const mtimeMs = fs.statSync(filePath).mtimeMs;
+            const cached = this.cache.get(repositoryRoot);
+            if (cached && cached.filePath === filePath && cached.mtimeMs === mtimeMs) {
+                return cached.loaded;
+            }
+            const content = fs.readFileSync(filePath, 'utf8');
+            const raw = fileName.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+            const loaded = { config: this.validate(raw, fileName), source: fileName };
+            this.cache.set(repositoryRoot, { filePath, mtimeMs, loaded });
+            this.logger(`Loaded shared settings from ${filePath}: ${Object.keys(loaded.config).join(', ') || 'none'}`, 'debug');
+            return loaded;
+        } catch (error) {
+            const errorInst = error as Error;
+            this.logger(`Could not read ${filePath}: ${errorInst.message}`, 'warning');
+            return undefined;
+        }
+    }
+
+    /** Keeps the fields with the expected types; anything else is reported and dropped. */
+    private validate(raw: unknown, fileName: string): RepositoryConfig {
+        if (raw === null || raw === undefined) {
+            return {};
+        }
+        if (typeof raw !== 'object' || Array.isArray(raw)) {
+            throw new Error('The file must contain an object.');
+        }
+        const config: RepositoryConfig = {};
+        for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+            switch (key) {
+                case 'instructions':
+                case 'generalContext':
+                case 'provider':
+                case 'model':
+                case 'fileSummaryPromptTemplate':
+                case 'commitMessagePromptTemplate':
+                    if (typeof value === 'string' && value.trim()) {
+                        config[key] = value;
+                        continue;
+                    }
+                    break;
+                case 'commitTypes':
+                case 'ignorePatterns':
+                    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+                        config[key] = value;
+                        continue;
+                    }
+                    break;
+                case 'maxTokens':
+                case 'temperature':
+                    if (typeof value === 'number' && Number.isFinite(value)) {
+                        config[key] = value;
+                        continue;
+                    }
+                    break;
+            }
+            this.logger(`Ignoring "${key}" in ${fileName}: unknown setting or wrong type.`, 'warning');
+        }
+        return config;
+    }
+}
@@ -0,0 +1,294 @@
+// src/services/SettingsProvider.ts
+// Settings shared by the extension and the CLI. Nothing here may depend on `vscode`.
+import { CommitLintRules } from '../utils/commitMessageLint';
+
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'gemini', 'openrouter', 'ollama', 'openai-compatible'] as const;
+export type LLMProvider = typeof LLM_PROVIDERS[number];
+
+// Providers that run locally and therefore do not need an API key.
+export const KEYLESS_PROVIDERS: readonly LLMProvider[] = ['ollama'];
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
+// How the API key is sent to an OpenAI-compatible endpoint:
+// 'bearer' -> Authorization: Bearer <key>, 'api-key' -> api-key: <key> (Azure OpenAI), 'none' -> no auth header.
+export const OPENAI_COMPATIBLE_AUTH_SCHEMES = ['bearer', 'api-key', 'none'] as const;
+export type OpenAICompatibleAuthScheme = typeof OPENAI_COMPATIBLE_AUTH_SCHEMES[number];
+
+export interface OpenAICompatibleSettings {
+    baseUrl: string;
+    authScheme: OpenAICompatibleAuthScheme;
+    headers: Record<string, string>;
+}
+
+export interface RetrySettings {
+    maxRetries: number;  // Extra attempts after the first request; 0 disables retrying
+    baseDelayMs: number; // First backoff delay, doubled on every further attempt
+    maxDelayMs: number;  // Upper bound for a single wait, including server-provided hints
+}
+
+export type SecretHandlingMode = 'redact' | 'block' | 'off';
+
+export interface SecretScanSettings {
+    mode: SecretHandlingMode;
+    customPatterns: string[]; // Regular expression sources from `llmCommitter.secretPatterns`
+}
+
+export interface InstructionPreset {
+    id: string;   // Stable identifier stored on groups; names can be edited
+    name: string;
+    instructions: string;
+}
+
+// Where an effective setting comes from. Later entries win: default < user < repository file < workspace < workspace folder.
+export type SettingSource = 'default' | 'user' | 'repository' | 'workspace' | 'workspaceFolder';
+
+export interface ResolvedSetting<T> {
+    value: T;
+    source: SettingSource;
+}
+
+// Full prompt templates with {{placeholders}}; an empty template means the built-in prompt is used.
+export interface PromptTemplates {
+    fileSummary: string;
+    commitMessage: string;
+}
+
+export interface LLMSettings {
+    apiKey: string;
+    instructions: string;
+    provider: LLMProvider;
+    model: string;
+    maxTokens: number;
+    temperature: number;
+    openRouterRefererUrl?: string;
+    ollamaBaseUrl?: string;
+    openAICompatible?: OpenAICompatibleSettings;
+    streamResponses: boolean;
+    retry: RetrySettings;
+    promptTemplates: PromptTemplates;
+}
+
+/**
+ * The extension's effective settings for one repository, written next to the commit hook so the CLI
+ * it runs behaves like the extension. Never contains API keys.
+ */
+export interface SettingsSnapshot {
+    provider: LLMProvider;
+    model: string;
+    maxTokens: number;
+    temperature: number;
+    instructions: string;
+    openRouterRefererUrl?: string;
+    ollamaBaseUrl?: string;
+    openAICompatible?: OpenAICompatibleSettings;
+    retry: RetrySettings;
+    promptTemplates: PromptTemplates;
+    ignorePatterns: string[];
+    secretScan: SecretScanSettings;
+    commitLintRules: CommitLintRules;
+    styleExampleCount: number; // 0 when llmCommitter.useCommitHistoryStyle is off
+}
+
+/**
+ * What the core services (LLMService, LLMIgnoreService, CommitlintConfigService) need to know about the
+ * settings. The extension implements it on top of VS Code's configuration, the CLI on top of environment variables.
+ */
+export interface SettingsProvider {
+    getLLMSettings(repositoryRoot?: string, presetId?: string): Promise<LLMSettings>;
+    providerRequiresApiKey(provider?: LLMProvider, repositoryRoot?: string): boolean;
+    getOllamaBaseUrl(repositoryRoot?: string): string;
+    getIgnorePatterns(repositoryRoot?: string): string[];
+    getCommitLintRules(repositoryRoot?: string): CommitLintRules;
+}
+
+// Same as the default of `llmCommitter.ignorePatterns` in package.json.
+export const DEFAULT_IGNORE_PATTERNS = [
+    'package-lock.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    '*.lock',
+    '*.min.js',
+    '*.min.css',
+    '*.map',
+    '*.snap',
+    '__snapshots__/',
+];
+
+export const DEFAULT_RETRY_SETTINGS: RetrySettings = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+/** Model used when none is configured; the package default is an OpenAI model, so it follows the provider instead. */
+export function getDefaultModel(provider: LLMProvider): string {
+    switch (provider) {
+        case 'anthropic': return 'claude-3-5-sonnet-20240620';
+        case 'gemini': return 'gemini-1.5-flash-latest';
+        case 'openrouter': return 'openrouter/auto';
+        case 'ollama': return 'llama3.1';
+        default: return 'gpt-4o-mini';
+    }
+}
+
+export const DEFAULT_LLM_INSTRUCTIONS = `# Git Commit Message Generation Instructions
+
+You are a Git commit message generator. Follow these rules exactly to create properly structured commit messages.
+
+## OUTPUT FORMAT REQUIREMENTS
+
+**CRITICAL**: Always respond with plain text only. Never use markdown code blocks (\`\`\`) or any formatting.
+
+Your response must follow this exact structure:
+
+**For single file changes:**
+
+type: brief description
+
+- Detailed change description explaining what changed and why/how it's better
+- Another detailed change description explaining what changed and why/how it's better
+
+**For multiple file changes (MANDATORY format):**
+
+type: brief description
+
+filename1.ext:
+- Detailed change description for this file, explaining what changed and how it's different/better
+- Another detailed change description for this file, explaining what changed and how it's different/better
+
+filename2.ext:
+- Detailed change description for this file, explaining what changed and how it's different/better
+- Another detailed change description for this file, explaining what changed and how it's different/better
+
+## COMMIT TYPES
+
+Use exactly one of these types:
+- **feat**: New features, functionality or file
+- **fix**: Bug fixes
+- **refactor**: Code restructuring without changing functionality  
+- **style**: Code formatting, whitespace, missing semicolons (no logic changes)
+- **docs**: Documentation changes
+- **test**: Adding or updating tests
+- **chore**: Build process, dependency updates, tooling
+- **perf**: Performance improvements
+- **ci**: Continuous integration changes
+- **build**: Build system or external dependency changes
+
+## STRUCTURE RULES
+
+### Subject Line
+- Format: \`type: brief description\`, or \`type(scope): brief description\` when a scope helps
+- Put \`!\` before the colon (\`type!: ...\`) for breaking changes
+- Maximum 50 characters
+- Use imperative mood ("Add" not "Added")
+- No period at the end
+- Be specific about what was accomplished
+
+### Body (when multiple changes exist)
+- Separate the body from the subject line with exactly one blank line
+- Wrap body lines at 72 characters
+- Organize ALL changes by filename when multiple files are involved
+- Use filename exactly as it appears in the diff
+- Indent changes with "- " under each filename
+- Each change should be descriprive of the change. In other words: Dont just explain what is changed, but how its supiriour or why its done. Example: Dont write: Added MUI components for better UI, rather you would write: Added MUI button, table components for clearer UI that displays x data.
+- Use present tense, imperative mood
+
+## CRITICAL RULE: FILE ORGANIZATION
+
+When multiple files are changed, you MUST organize by filename. Never group all changes together.
+
+**WRONG (all changes together):**
+feat: optimize ChargerOfflineOverview page
+- Added MUI components for better UI
+- Implemented enhanced data fetching from APIs  
+- Introduced data source selection
+- Fixed minor imports and type issues
+
+**CORRECT (organized by file):**
+feat: add data sources to offline charger page
+
+src/pages/chargerOfflineOverview/ChargerOfflineOverview.tsx:
+- Added MUI button, table components for clearer UI that displays x data
+- Implement enhanced data fetching from Firebase and Emabler APIs, this allowes us to get data from two sources and compare them.
+- Introduce data source selection for faster/slower loading options.
+- Display data source statistics and error messages
+- Add loading warning for slow data fetching
+- Improve error handling and error display
+- Add loader while data is being fetched
+- Fix minor imports and type issues
+
+## ANALYSIS PROCESS
+
+### Step 1: Deep Code Diff Analysis (CRITICAL)
+**Before writing anything, analyze each file's diff line by line:**
+
+- **Examine added lines**: What specific functions, components, variables, or logic was added?
+- **Examine removed lines**: What was deleted or replaced?
+- **Examine modified lines**: What specific changes were made to existing code?
+- **Look for patterns**: Are new imports added? New state variables? New API calls? New UI components?
+- **Identify specific implementation details**: Don't just see "data fetching" - see what specific endpoints, parameters, error handling, loading states were added
+
+### Step 2: Determine Primary Commit Type
+- Look at all changes across all files
+- Choose the most significant type of change
+- If adding any new functionality, use \`feat\`
+- If only fixing bugs, use \`fix\`
+- If only reorganizing code without new features, use \`refactor\`
+
+### Step 3: Write Subject Line
+- Summarize the overall purpose in 50 characters or less
+- Focus on the business value or main accomplishment
+- Use specific terms relevant to the domain
+
+### Step 4: Organize Body by File with SPECIFIC Implementation Details
+- List each changed file exactly as named in the diff
+- Under each file, describe EXACTLY what code was added/modified/removed
+- Be specific about new variables, functions, components, API endpoints, UI elements
+- Explain the purpose and benefit of each specific implementation detail
+
+## WRITING GUIDELINES
+
+### CRITICAL: Be Specific About Implementation
+Instead of vague descriptions, describe EXACTLY what was implemented:
+
+### Use These Specific Patterns:
+- "Add [SpecificComponent] component with [specific props/functionality]"
+- "Implement [specificFunction()] that [specific behavior/parameters]"
+- "Add [specificVariable] state to track [specific data/condition]"
+- "Create [specificHook/utility] for [specific purpose]"
+- "Update [specificFunction] to handle [specific case/parameter]"
+- "Add error boundary for [specific error type] with [specific fallback]"
+
+### Avoid These Patterns:
+- "Various changes"
+- "Updated stuff" 
+- "Improvements"
+- "Changes to support..."
+- Past tense ("Added", "Fixed")
+- Vague descriptions
+
+## CONTEXT INTEGRATION
+
+Use provided context to understand the broader purpose, but ALWAYS prioritize the actual code diff for specific implementation details.
+
+**Analysis Priority:**
+1. **File diffs (PRIMARY)**: Examine the actual code changes line by line to understand exactly what was implemented
+2. **Group-specific context**: Use to understand why these specific changes were made together  
+3. **General context**: Use to understand the broader project purpose
+
+**Required Analysis Questions:**
+- What specific functions/variables/components were added to the code?
+- What specific imports were added and why?
+- What specific UI elements were added with what properties?
+- What specific state management was implemented?
+- What specific error handling was added?
+- What specific API integration was implemented?
+
+Each change description should reference ACTUAL code elements visible in the diff, not just conceptual descriptions.
+
+## FINAL CHECKLIST
+
+Before responding, verify:
+1. No markdown formatting or code blocks in your response
+2. Subject line under 50 characters
+3. If multiple files: each file listed separately with its specific changes
+4. All changes use present tense, imperative mood
+5. Changes are specific and actionable
+6. Commit type accurately reflects the most significant change
+7. If multiple files: Make sure all files are listed, and that all the chagnes are included under the file.`;
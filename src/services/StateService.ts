@@ -1,38 +1,59 @@
 // src/services/StateService.ts
 import * as vscode from 'vscode';
-import { LLMProvider } from './ConfigurationService';
+import { LLMProvider, OpenAICompatibleSettings, SettingSource, InstructionPreset, PromptTemplates } from './ConfigurationService';
+import { RepositoryChanges } from './GitService';
+
+// Selected hunk ids per file path. Files without an entry belong to the group as a whole.
+export type GroupHunks = Record<string, string[]>;
 
 export interface CurrentGroup {
+    repositoryRoot: string; // All files of a group belong to this repository; paths are relative to it
     files: string[];
     specificContext: string;
     commitMessage?: string;
     isGenerating?: boolean; 
+    hunks?: GroupHunks;
+    presetId?: string; // Instruction preset picked for this group; undefined uses the regular instructions
 }
 
 export interface StagedGroup {
     id: string; 
+    repositoryRoot: string;
     files: string[];
     specificContext: string;
     commitMessage: string;
+    title?: string; // Label proposed by auto-grouping, shown while the group has no commit message yet
+    needsReview?: boolean; // Auto-grouped proposal that hasn't been confirmed yet; such groups are not committed
+    hunks?: GroupHunks;
+    presetId?: string; // Kept so regenerating the message uses the same instructions
 }
 
 // Assuming AppState['settings'] will align with WebviewSettings from App.tsx for provider, model etc.
 // For LLMProvider, ensure it's the same type from ConfigurationService if that's the source of truth.
 export interface AppSettingsInState {
     hasApiKey: boolean;
+    requiresApiKey: boolean; // False for local providers such as Ollama
+    providersWithApiKey: LLMProvider[];
     provider: LLMProvider; // From ConfigurationService
     model: string;
     maxTokens: number;
     temperature: number;
     instructionsLength: number;
     openRouterRefererUrl?: string; // Added this
+    ollamaBaseUrl?: string;
+    openAICompatible?: OpenAICompatibleSettings;
+    settingSources?: Record<string, SettingSource>; // Where provider, model, instructions, ... come from
+    repositoryConfigFile?: string; // Path of the repository's .llmcommitter.json|yaml, when it has one
+    instructionPresets?: InstructionPreset[];
+    promptTemplates?: PromptTemplates; // Empty strings mean the built-in prompts
 }
 
 export interface AppState {
-    changedFiles: string[];
+    repositories: RepositoryChanges[];
     currentGroup: CurrentGroup | null;
     currentView: 'fileselection' | 'group' | 'settings' | 'reviewStagedGroup';
     selectedFiles: string[];
+    selectedRepositoryRoot: string | null; // Repository of selectedFiles; a selection never spans repositories
     generalContext: string;
     settings: AppSettingsInState; // Use the refined interface
     stagedGroups: StagedGroup[];
@@ -46,19 +67,23 @@ export class StateService {
     private logger: LoggerFunction;
 
     private _state: AppState = {
-        changedFiles: [],
+        repositories: [],
         currentGroup: null,
         currentView: 'fileselection',
         selectedFiles: [],
+        selectedRepositoryRoot: null,
         generalContext: '',
         settings: {
             hasApiKey: false,
+            requiresApiKey: true,
+            providersWithApiKey: [],
             provider: 'openai',
             model: 'gpt-4o-mini',
             maxTokens: 4000,
             temperature: 0.3,
             instructionsLength: 0,
-            openRouterRefererUrl: 'http://localhost' // Default
+            openRouterRefererUrl: 'http://localhost', // Default
+            ollamaBaseUrl: 'http://localhost:11434'
         },
         stagedGroups: [],
         currentEditingStagedGroupId: null,
@@ -76,6 +101,15 @@ export class StateService {
         this.loadStagedGroups(); 
     }
 
+    private getStagedGroupsInRepository(repositoryRoot: string): StagedGroup[] {
+        return this._state.stagedGroups.filter(g => g.repositoryRoot === repositoryRoot);
+    }
+
+    /** Files that some staged group takes as a whole; files with only some hunks staged stay available. */
+    private getWhollyStagedFiles(repositoryRoot: string): Set<string> {
+        return new Set(this.getStagedGroupsInRepository(repositoryRoot).flatMap(g => g.files.filter(file => !g.hunks?.[file])));
+    }
+
     private generateGroupId(): string {
         return Date.now().toString(36) + Math.random().toString(36).substring(2);
     }
@@ -84,12 +118,22 @@ export class StateService {
         return { ...this._state }; 
     }
 
-    public setChangedFiles(files: string[]): void {
-        this.logger(`Setting ${files.length} changed files. Previous count: ${this._state.changedFiles.length}.`, 'debug');
-        this._state.changedFiles = files;
-        
+    public getChangedFiles(repositoryRoot: string): string[] {
+        return this._state.repositories.find(repo => repo.root === repositoryRoot)?.changedFiles || [];
+    }
+
+    public setRepositories(repositories: RepositoryChanges[]): void {
+        const fileCount = repositories.reduce((count, repo) => count + repo.changedFiles.length, 0);
+        this.logger(`Setting ${fileCount} changed files across ${repositories.length} repositories.`, 'debug');
+        this._state.repositories = repositories;
+        const knownRoots = new Set(repositories.map(repo => repo.root));
+
         const originalSelectedCount = this._state.selectedFiles.length;
-        this._state.selectedFiles = this._state.selectedFiles.filter(file => files.includes(file));
+        if (this._state.selectedRepositoryRoot && !knownRoots.has(this._state.selectedRepositoryRoot)) {
+            this._state.selectedRepositoryRoot = null;
+        }
+        const selectableFiles = this._state.selectedRepositoryRoot ? this.getChangedFiles(this._state.selectedRepositoryRoot) : [];
+        this._state.selectedFiles = this._state.selectedFiles.filter(file => selectableFiles.includes(file));
         if (this._state.selectedFiles.length !== originalSelectedCount) {
             this.logger(`Updated selected files based on new changed files list. ${originalSelectedCount - this._state.selectedFiles.length} files removed from selection.`, 'debug');
         }
@@ -97,6 +141,16 @@ export class StateService {
         let stagedGroupsModified = false;
         const originalStagedGroupsCount = this._state.stagedGroups.length;
         this._state.stagedGroups = this._state.stagedGroups.map(group => {
+            if (!group.repositoryRoot && repositories.length > 0) {
+                // Groups persisted before multi-repository support belong to the primary repository.
+                group = { ...group, repositoryRoot: repositories[0].root };
+                stagedGroupsModified = true;
+            }
+            if (!knownRoots.has(group.repositoryRoot)) {
+                // Keep groups of repositories that are temporarily not visible (e.g. folder removed from the workspace).
+                return group;
+            }
+            const files = this.getChangedFiles(group.repositoryRoot);
             const originalFileCount = group.files.length;
             const updatedFiles = group.files.filter(sf => files.includes(sf));
 
@@ -107,7 +161,7 @@ export class StateService {
                     return null; 
                 }
                 this.logger(`Files in staged group ${group.id} updated due to external changes. Old count: ${originalFileCount}, New count: ${updatedFiles.length}.`, 'debug');
-                return { ...group, files: updatedFiles };
+                return { ...group, files: updatedFiles, hunks: this.pickHunks(group.hunks, updatedFiles) };
             }
             return group;
         }).filter(group => group !== null) as StagedGroup[];
@@ -126,7 +180,12 @@ export class StateService {
         this._onStateChanged.fire({ ...this._state });
     }
 
-    public toggleFileSelection(filePath: string): void {
+    public toggleFileSelection(repositoryRoot: string, filePath: string): void {
+        if (this._state.selectedRepositoryRoot !== repositoryRoot) {
+            // Groups cannot span repositories, so selecting in another repository starts a new selection.
+            this._state.selectedFiles = [];
+            this._state.selectedRepositoryRoot = repositoryRoot;
+        }
         const index = this._state.selectedFiles.indexOf(filePath);
         if (index === -1) {
             this._state.selectedFiles.push(filePath);
@@ -138,8 +197,45 @@ export class StateService {
         this._onStateChanged.fire({ ...this._state });
     }
 
-    public startNewGroup(files: string[]): void {
-        const filesAlreadyStaged = new Set(this._state.stagedGroups.flatMap(g => g.files));
+    private pickHunks(hunks: GroupHunks | undefined, files: string[]): GroupHunks | undefined {
+        if (!hunks) {
+            return undefined;
+        }
+        const picked: GroupHunks = {};
+        for (const file of files) {
+            if (hunks[file]) {
+                picked[file] = hunks[file];
+            }
+        }
+        return Object.keys(picked).length > 0 ? picked : undefined;
+    }
+
+    /** Restricts a file of the current group to the given hunks, or uses the whole file again when `hunkIds` is null or empty. */
+    public setCurrentGroupHunks(filePath: string, hunkIds: string[] | null): void {
+        if (!this._state.currentGroup || !this._state.currentGroup.files.includes(filePath)) {
+            return;
+        }
+        const hunks = { ...(this._state.currentGroup.hunks || {}) };
+        if (hunkIds && hunkIds.length > 0) {
+            hunks[filePath] = [...hunkIds];
+        } else {
+            delete hunks[filePath];
+        }
+        this._state.currentGroup.hunks = Object.keys(hunks).length > 0 ? hunks : undefined;
+        this.logger(`Hunk selection for ${filePath} in current group: ${hunkIds && hunkIds.length > 0 ? `${hunkIds.length} hunk(s)` : 'whole file'}.`, 'debug');
+        this._onStateChanged.fire({ ...this._state });
+    }
+
+    /** Files of the group that other staged groups already take hunks from, but which the group itself takes whole. */
+    private findHunkConflicts(repositoryRoot: string, files: string[], hunks: GroupHunks | undefined, excludeGroupId?: string): string[] {
+        const partiallyStaged = new Set(this.getStagedGroupsInRepository(repositoryRoot)
+            .filter(g => g.id !== excludeGroupId)
+            .flatMap(g => Object.keys(g.hunks || {})));
+        return files.filter(file => partiallyStaged.has(file) && !hunks?.[file]);
+    }
+
+    public startNewGroup(repositoryRoot: string, files: string[]): void {
+        const filesAlreadyStaged = this.getWhollyStagedFiles(repositoryRoot);
         const filesForNewGroup = files.filter(f => !filesAlreadyStaged.has(f));
 
         if (filesForNewGroup.length === 0 && files.length > 0) {
@@ -154,6 +250,7 @@ export class StateService {
         }
 
         this._state.currentGroup = {
+            repositoryRoot,
             files: [...filesForNewGroup],
             specificContext: '',
             commitMessage: undefined,
@@ -161,6 +258,7 @@ export class StateService {
         };
         this._state.currentView = 'group';
         this._state.selectedFiles = []; 
+        this._state.selectedRepositoryRoot = null;
         this.logger(`Started new group with ${filesForNewGroup.length} files. Navigating to 'group' view.`, 'debug');
         this._onStateChanged.fire({ ...this._state });
     }
@@ -181,6 +279,14 @@ export class StateService {
         }
     }
 
+    public setCurrentGroupPreset(presetId: string | undefined): void {
+        if (this._state.currentGroup) {
+            this._state.currentGroup.presetId = presetId;
+            this.logger(`Current group instruction preset set to ${presetId || 'none'}.`, 'debug');
+            this._onStateChanged.fire({ ...this._state });
+        }
+    }
+
     public updateCurrentGroupCommitMessage(message: string): void {
         if (this._state.currentGroup) {
             this._state.currentGroup.commitMessage = message;
@@ -271,11 +377,21 @@ export class StateService {
             return false;
         }
 
+        const conflicts = this.findHunkConflicts(this._state.currentGroup.repositoryRoot, this._state.currentGroup.files, this._state.currentGroup.hunks);
+        if (conflicts.length > 0) {
+            this.logger(`Cannot stage group: ${conflicts.join(', ')} already has hunks in other staged groups.`, 'warning', true);
+            vscode.window.showErrorMessage(`Cannot stage group: other staged groups already contain hunks of ${conflicts.join(', ')}. Pick the remaining hunks for these files instead of the whole file.`);
+            return false;
+        }
+
         const newStagedGroup: StagedGroup = {
             id: this.generateGroupId(),
+            repositoryRoot: this._state.currentGroup.repositoryRoot,
             files: [...this._state.currentGroup.files],
             specificContext: this._state.currentGroup.specificContext,
             commitMessage: this._state.currentGroup.commitMessage.trim(),
+            hunks: this._state.currentGroup.hunks,
+            presetId: this._state.currentGroup.presetId,
         };
 
         this._state.stagedGroups.push(newStagedGroup);
@@ -314,7 +430,153 @@ export class StateService {
         }
     }
 
-    public updateStagedGroup(groupId: string, updates: Partial<Pick<StagedGroup, 'specificContext' | 'commitMessage' | 'files'>>): void {
+    /**
+     * Adds a group of whole files that was put together outside the view, e.g. through the extension API.
+     * Throws when a file is already part of another staged group, since a file can only be committed once.
+     */
+    public addStagedGroup(repositoryRoot: string, files: string[], details: Partial<Pick<StagedGroup, 'specificContext' | 'commitMessage' | 'title' | 'presetId'>>): StagedGroup {
+        const alreadyStaged = new Set(this.getStagedGroupsInRepository(repositoryRoot).flatMap(g => g.files));
+        const conflicts = files.filter(file => alreadyStaged.has(file));
+        if (conflicts.length > 0) {
+            throw new Error(`Already part of a staged group: ${conflicts.join(', ')}`);
+        }
+        const commitMessage = details.commitMessage?.trim() || '';
+        const group: StagedGroup = {
+            id: this.generateGroupId(),
+            repositoryRoot,
+            files: [...new Set(files)],
+            specificContext: details.specificContext || '',
+            commitMessage,
+            title: details.title,
+            needsReview: !commitMessage,
+            presetId: details.presetId
+        };
+        this._state.stagedGroups.push(group);
+        if (this._state.selectedRepositoryRoot === repositoryRoot) {
+            this._state.selectedFiles = this._state.selectedFiles.filter(file => !files.includes(file));
+        }
+        this.persistStagedGroups();
+        this.logger(`Added staged group ${group.id} with ${group.files.length} file(s).`, 'debug');
+        this._onStateChanged.fire({ ...this._state });
+        return group;
+    }
+
+    /**
+     * Adds the groups of an imported commit plan in their order, or replaces all staged groups with them.
+     * When adding, files that already belong to a staged group are left out; groups left without files
+     * are dropped. Returns the added groups and the files that were left out.
+     */
+    public importStagedGroups(groups: Omit<StagedGroup, 'id'>[], replace: boolean): { imported: StagedGroup[]; skippedFiles: string[] } {
+        if (replace) {
+            this._state.stagedGroups = [];
+            if (this._state.currentEditingStagedGroupId) {
+                this._state.currentEditingStagedGroupId = null;
+                this._state.currentView = 'fileselection';
+            }
+        }
+        // Groups of the plan itself may share files, each taking different hunks, so only earlier groups count.
+        const stagedBefore = new Set(this._state.stagedGroups.flatMap(g => g.files.map(file => `${g.repositoryRoot}\0${file}`)));
+        const imported: StagedGroup[] = [];
+        const skippedFiles: string[] = [];
+        for (const group of groups) {
+            const files = group.files.filter(file => !stagedBefore.has(`${group.repositoryRoot}\0${file}`));
+            skippedFiles.push(...group.files.filter(file => !files.includes(file)));
+            if (files.length === 0) {
+                continue;
+            }
+            const hunkEntries = Object.entries(group.hunks || {}).filter(([file]) => files.includes(file));
+            imported.push({ ...group, id: this.generateGroupId(), files, hunks: hunkEntries.length > 0 ? Object.fromEntries(hunkEntries) : undefined });
+        }
+        this._state.stagedGroups.push(...imported);
+        this.persistStagedGroups();
+        this.logger(`Imported ${imported.length} staged group(s)${replace ? ', replacing the previous ones' : ''}.`, 'debug');
+        this._onStateChanged.fire({ ...this._state });
+        return { imported, skippedFiles };
+    }
+
+    /**
+     * Adds groups proposed by the LLM as staged groups awaiting review. Files that are already part of
+     * another staged group are left where they are.
+     */
+    public addProposedGroups(repositoryRoot: string, proposals: { title: string; context: string; files: string[] }[]): StagedGroup[] {
+        // Partially staged files are skipped too: a proposal always takes files whole.
+        const alreadyStaged = new Set(this.getStagedGroupsInRepository(repositoryRoot).flatMap(g => g.files));
+        const added: StagedGroup[] = [];
+        for (const proposal of proposals) {
+            const files = proposal.files.filter(file => !alreadyStaged.has(file));
+            if (files.length === 0) {
+                continue;
+            }
+            files.forEach(file => alreadyStaged.add(file));
+            added.push({
+                id: this.generateGroupId(),
+                repositoryRoot,
+                files,
+                specificContext: proposal.context,
+                commitMessage: '',
+                title: proposal.title,
+                needsReview: true
+            });
+        }
+        if (added.length > 0) {
+            this._state.stagedGroups.push(...added);
+            if (this._state.selectedRepositoryRoot === repositoryRoot) {
+                this._state.selectedFiles = this._state.selectedFiles.filter(file => !alreadyStaged.has(file));
+            }
+            this.persistStagedGroups();
+            this.logger(`Added ${added.length} proposed group(s) for review.`, 'debug');
+            this._onStateChanged.fire({ ...this._state });
+        }
+        return added;
+    }
+
+    /**
+     * Merges the given staged groups into the first one. Contexts are concatenated; the commit message of
+     * the first group is kept, and the result needs review if any of the merged groups did.
+     */
+    public mergeStagedGroups(groupIds: string[]): void {
+        const groups = groupIds
+            .map(id => this._state.stagedGroups.find(g => g.id === id))
+            .filter((group): group is StagedGroup => group !== undefined);
+        if (groups.length < 2) {
+            this.logger('Merging needs at least two existing staged groups.', 'warning');
+            return;
+        }
+        const [target, ...sources] = groups;
+        if (sources.some(g => g.repositoryRoot !== target.repositoryRoot)) {
+            this.logger('Cannot merge staged groups from different repositories.', 'warning', true);
+            vscode.window.showWarningMessage('Only groups from the same repository can be merged.');
+            return;
+        }
+        const files = [...new Set(groups.flatMap(g => g.files))];
+        // A file stays restricted to hunks only if every merged group that contains it was restricted.
+        const hunks: GroupHunks = {};
+        for (const file of files) {
+            const containing = groups.filter(g => g.files.includes(file));
+            if (containing.every(g => g.hunks?.[file])) {
+                hunks[file] = [...new Set(containing.flatMap(g => g.hunks![file]))];
+            }
+        }
+        const merged: StagedGroup = {
+            ...target,
+            files,
+            hunks: Object.keys(hunks).length > 0 ? hunks : undefined,
+            specificContext: groups.map(g => g.specificContext.trim()).filter(Boolean).join('\n\n'),
+            needsReview: groups.some(g => g.needsReview)
+        };
+        const sourceIds = new Set(sources.map(g => g.id));
+        this._state.stagedGroups = this._state.stagedGroups
+            .filter(g => !sourceIds.has(g.id))
+            .map(g => g.id === target.id ? merged : g);
+        if (this._state.currentEditingStagedGroupId && sourceIds.has(this._state.currentEditingStagedGroupId)) {
+            this._state.currentEditingStagedGroupId = target.id;
+        }
+        this.persistStagedGroups();
+        this.logger(`Merged ${sources.length} group(s) into staged group ${target.id}.`, 'debug');
+        this._onStateChanged.fire({ ...this._state });
+    }
+
+    public updateStagedGroup(groupId: string, updates: Partial<Pick<StagedGroup, 'specificContext' | 'commitMessage' | 'files' | 'needsReview' | 'hunks' | 'presetId'>>): void {
         const groupIndex = this._state.stagedGroups.findIndex(g => g.id === groupId);
         if (groupIndex > -1) {
             const group = this._state.stagedGroups[groupIndex];
@@ -324,7 +586,21 @@ export class StateService {
                 delete updates.files; 
             }
 
-            this._state.stagedGroups[groupIndex] = { ...group, ...updates };
+            if ('hunks' in updates) {
+                const conflicts = this.findHunkConflicts(group.repositoryRoot, updates.files || group.files, updates.hunks, groupId);
+                if (conflicts.length > 0) {
+                    this.logger(`Ignoring hunk selection for staged group ${groupId}: ${conflicts.join(', ')} already has hunks in other staged groups.`, 'warning', true);
+                    vscode.window.showWarningMessage(`Other staged groups already contain hunks of ${conflicts.join(', ')}, so this group cannot take the whole file. The hunk selection was not changed.`);
+                    delete updates.hunks;
+                }
+            }
+
+            const updatedGroup = { ...group, ...updates };
+            updatedGroup.hunks = this.pickHunks(updatedGroup.hunks, updatedGroup.files);
+            if (!updatedGroup.presetId) {
+                delete updatedGroup.presetId; // The webview sends an empty id for "regular instructions"
+            }
+            this._state.stagedGroups[groupIndex] = updatedGroup;
             this.persistStagedGroups();
             this.logger(`Staged group ${groupId} updated. Updates: ${JSON.stringify(Object.keys(updates))}`, 'debug');
             this._onStateChanged.fire({ ...this._state });
@@ -344,7 +620,7 @@ export class StateService {
                 this.unstageGroup(groupId); // This will fire state change and persist
                 vscode.window.showInformationMessage(`Group "${group.commitMessage.substring(0,20)}..." became empty and was unstaged.`);
             } else if (updatedFiles.length < group.files.length) {
-                this._state.stagedGroups[groupIndex] = { ...group, files: updatedFiles };
+                this._state.stagedGroups[groupIndex] = { ...group, files: updatedFiles, hunks: this.pickHunks(group.hunks, updatedFiles) };
                 this.persistStagedGroups();
                 this.logger(`File ${filePathToRemove} removed from staged group ${groupId}.`, 'debug');
                 this._onStateChanged.fire({ ...this._state });
@@ -0,0 +1,97 @@
+// src/services/SummaryCacheService.ts
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ConfigurationService } from './ConfigurationService';
+import { SummaryCache } from './LLMService';
+
+interface SummaryCacheEntry {
+    summary: string;
+    lastUsedAt: number; // Used for least-recently-used eviction
+}
+
+type LoggerFunction = (message: string, type?: 'info' | 'error' | 'warning' | 'debug', showPopup?: boolean) => void;
+
+/**
+ * Persists per-file summaries in workspace storage so unchanged diffs are not sent to the LLM again.
+ * Entries are keyed by a hash of everything that influences the summary (diff, model, instructions, context)
+ * and the least recently used ones are evicted once `llmCommitter.summaryCacheMaxEntries` is exceeded.
+ */
+export class SummaryCacheService implements SummaryCache {
+    private readonly STORAGE_KEY = 'llmCommitter.summaryCache';
+    private context: vscode.ExtensionContext;
+    private configService: ConfigurationService;
+    private logger: LoggerFunction;
+    private entries: Record<string, SummaryCacheEntry>;
+
+    constructor(context: vscode.ExtensionContext, configService: ConfigurationService, logger: LoggerFunction = console.log) {
+        this.context = context;
+        this.configService = configService;
+        this.logger = logger;
+        this.entries = context.workspaceState.get<Record<string, SummaryCacheEntry>>(this.STORAGE_KEY) || {};
+        this.logger(`Loaded ${Object.keys(this.entries).length} cached file summaries from workspace state.`, 'debug');
+    }
+
+    public computeKey(parts: string[]): string {
+        const hash = crypto.createHash('sha256');
+        for (const part of parts) {
+            // Length prefix keeps ["ab", "c"] and ["a", "bc"] from hashing to the same key.
+            hash.update(`${part.length}:${part}`);
+        }
+        return hash.digest('hex');
+    }
+
+    public get(key: string): string | undefined {
+        if (this.configService.getSummaryCacheMaxEntries() === 0) {
+            return undefined;
+        }
+        const entry = this.entries[key];
+        if (!entry) {
+            return undefined;
+        }
+        entry.lastUsedAt = Date.now();
+        this.persist();
+        return entry.summary;
+    }
+
+    public set(key: string, summary: string): void {
+        const maxEntries = this.configService.getSummaryCacheMaxEntries();
+        if (maxEntries === 0) {
+            return;
+        }
+        this.entries[key] = { summary, lastUsedAt: Date.now() };
+        this.evict(maxEntries);
+        this.persist();
+    }
+
+    public clear(): void {
+        const count = Object.keys(this.entries).length;
+        this.entries = {};
+        this.persist();
+        this.logger(`Cleared ${count} cached file summaries.`, 'info');
+    }
+
+    public get size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    private evict(maxEntries: number): void {
+        const keys = Object.keys(this.entries);
+        if (keys.length <= maxEntries) {
+            return;
+        }
+        const oldestFirst = keys.sort((a, b) => this.entries[a].lastUsedAt - this.entries[b].lastUsedAt);
+        for (const key of oldestFirst.slice(0, keys.length - maxEntries)) {
+            delete this.entries[key];
+        }
+        this.logger(`Evicted ${keys.length - maxEntries} least recently used file summaries from the cache.`, 'debug');
+    }
+
+    private persist(): void {
+        this.context.workspaceState.update(this.STORAGE_KEY, this.entries)
+            .then(undefined, (err) => {
+                const errorMsg = err instanceof Error ? err.message : String(err);
+                console.error('[SummaryCacheService] Error persisting summary cache:', errorMsg);
+                this.logger(`Error persisting summary cache: ${errorMsg}`, 'error');
+            });
+    }
+}
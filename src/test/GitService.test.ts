@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitService, runGit } from '../services/GitService';
+
+// Names that broke the old shell-string commands: quotes, backslashes, shell metacharacters and newlines.
+// Windows forbids several of these characters in file names, so only the portable ones are used there.
+const PATHOLOGICAL_FILE_NAMES = process.platform === 'win32'
+	? ['space name.txt', 'bang!.txt', 'dollar $HOME.txt', 'back`tick.txt', 'semi;colon.txt', 'ünïcödé.txt', '-leading-dash.txt']
+	: [
+		'space name.txt',
+		'bang!.txt',
+		'dollar $HOME.txt',
+		'back`tick.txt',
+		'semi;colon.txt',
+		'ünïcödé.txt',
+		'-leading-dash.txt',
+		'double"quote.txt',
+		'single\'quote.txt',
+		'back\\slash.txt',
+		'new\nline.txt',
+		'tab\tname.txt',
+		'$(touch injected).txt',
+	];
+
+const PATHOLOGICAL_MESSAGES = [
+	'feat: handle "quoted" and \'single quoted\' text',
+	'fix: keep $HOME, `whoami` and $(touch injected) literal',
+	'chore: backslashes \\n \\t \\\\ stay as typed',
+	'fix: bang! history !! expansion',
+	'feat: multi-line message\n\nBody line with "quotes" and $VARS.\n- bullet; with semicolon & ampersand | pipe',
+	'docs: unicode ünïcödé 🚀 survives the round trip',
+];
+
+suite('GitService Test Suite', () => {
+	let repositoryRoot: string;
+	const gitService = new GitService(() => { /* Keep test output quiet */ });
+
+	const writeFile = (name: string, content: string) => fs.writeFileSync(path.join(repositoryRoot, name), content);
+	const lastCommitMessage = async () => (await runGit(['log', '-1', '--format=%B'], repositoryRoot)).stdout.replace(/\n+$/, '');
+
+	setup(async () => {
+		repositoryRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'llm-committer-git-')));
+		await runGit(['init', '--quiet'], repositoryRoot);
+		await runGit(['config', 'user.name', 'Test User'], repositoryRoot);
+		await runGit(['config', 'user.email', 'test@example.com'], repositoryRoot);
+		await runGit(['config', 'commit.gpgsign', 'false'], repositoryRoot);
+		writeFile('README.md', 'initial\n');
+		await runGit(['add', 'README.md'], repositoryRoot);
+		await runGit(['commit', '--quiet', '-m', 'initial'], repositoryRoot);
+	});
+
+	teardown(() => {
+		fs.rmSync(repositoryRoot, { recursive: true, force: true });
+	});
+
+	test('lists changed files with pathological names verbatim', async () => {
+		for (const name of PATHOLOGICAL_FILE_NAMES) {
+			writeFile(name, `content of ${name}\n`);
+		}
+		const changedFiles = await gitService.getChangedFiles(repositoryRoot);
+		assert.deepStrictEqual(changedFiles.slice().sort(), PATHOLOGICAL_FILE_NAMES.slice().sort());
+	});
+
+	test('reads diffs of untracked and modified files with pathological names', async () => {
+		for (const name of PATHOLOGICAL_FILE_NAMES) {
+			writeFile(name, 'first line\n');
+		}
+		await gitService.stageFiles(repositoryRoot, PATHOLOGICAL_FILE_NAMES);
+		await gitService.commit(repositoryRoot, 'add files');
+
+		for (const name of PATHOLOGICAL_FILE_NAMES) {
+			writeFile(name, 'first line\nsecond line\n');
+			const diff = await gitService.getFileDiff(repositoryRoot, name);
+			assert.strictEqual(diff.changeType, 'modified', name);
+			assert.ok(diff.content.includes('+second line'), `modified diff of ${JSON.stringify(name)}`);
+		}
+
+		const untracked = PATHOLOGICAL_FILE_NAMES[PATHOLOGICAL_FILE_NAMES.length - 1].replace('.txt', '-new.txt');
+		writeFile(untracked, 'brand new\n');
+		const diff = await gitService.getFileDiff(repositoryRoot, untracked);
+		assert.strictEqual(diff.changeType, 'added');
+		assert.ok(diff.content.includes('+brand new'), 'untracked diff contains the new content');
+	});
+
+	test('stages and commits files with pathological names', async () => {
+		for (const name of PATHOLOGICAL_FILE_NAMES) {
+			writeFile(name, `content of ${name}\n`);
+		}
+		await gitService.stageFiles(repositoryRoot, PATHOLOGICAL_FILE_NAMES);
+		await gitService.commit(repositoryRoot, 'add pathological files');
+
+		const { stdout } = await runGit(['ls-files', '-z'], repositoryRoot);
+		const trackedFiles = stdout.split('\0').filter(Boolean);
+		for (const name of PATHOLOGICAL_FILE_NAMES) {
+			assert.ok(trackedFiles.includes(name), `${JSON.stringify(name)} was committed`);
+		}
+		assert.deepStrictEqual(await gitService.getChangedFiles(repositoryRoot), []);
+		assert.ok(!fs.existsSync(path.join(repositoryRoot, 'injected')), 'no shell command was executed');
+	});
+
+	test('commits pathological messages verbatim', async () => {
+		for (const [index, message] of PATHOLOGICAL_MESSAGES.entries()) {
+			writeFile('README.md', `revision ${index}\n`);
+			await gitService.stageFiles(repositoryRoot, ['README.md']);
+			await gitService.commit(repositoryRoot, message);
+			assert.strictEqual(await lastCommitMessage(), message);
+		}
+		assert.ok(!fs.existsSync(path.join(repositoryRoot, 'injected')), 'no shell command was executed');
+	});
+
+	test('keeps message lines that start with #', async () => {
+		const message = 'docs: describe the release steps\n\n# Steps\n#1 tag the release\n  # indented hash';
+		writeFile('README.md', 'release steps\n');
+		await gitService.stageFiles(repositoryRoot, ['README.md']);
+		await gitService.commit(repositoryRoot, message);
+		assert.strictEqual(await lastCommitMessage(), message);
+	});
+
+	test('reports nothing to commit', async () => {
+		await assert.rejects(gitService.commit(repositoryRoot, 'empty'), /nothing to commit/i);
+	});
+
+	test('reverts files with pathological names', async () => {
+		for (const name of PATHOLOGICAL_FILE_NAMES) {
+			writeFile(name, 'original\n');
+		}
+		await gitService.stageFiles(repositoryRoot, PATHOLOGICAL_FILE_NAMES);
+		await gitService.commit(repositoryRoot, 'add files');
+
+		for (const name of PATHOLOGICAL_FILE_NAMES) {
+			writeFile(name, 'changed\n');
+			await gitService.revertFile(repositoryRoot, name);
+			assert.strictEqual(fs.readFileSync(path.join(repositoryRoot, name), 'utf8'), 'original\n', name);
+		}
+	});
+
+	test('reads only staged changes, including renames', async () => {
+		writeFile('notes.txt', 'one\ntwo\nthree\nfour\n');
+		await gitService.stageFiles(repositoryRoot, ['notes.txt']);
+		await gitService.commit(repositoryRoot, 'add notes');
+
+		writeFile('README.md', 'initial\nstaged line\n');
+		await gitService.stageFiles(repositoryRoot, ['README.md']);
+		writeFile('README.md', 'initial\nstaged line\nunstaged line\n');
+		writeFile('untracked.txt', 'not staged\n');
+		await runGit(['mv', 'notes.txt', 'notes.md'], repositoryRoot);
+
+		const diffs = await gitService.getStagedFileDiffs(repositoryRoot);
+		assert.deepStrictEqual(diffs.map(diff => [diff.filePath, diff.changeType]), [['README.md', 'modified'], ['notes.md', 'renamed']]);
+		assert.ok(diffs[0].content.includes('+staged line'));
+		assert.ok(!diffs[0].content.includes('unstaged line'));
+	});
+
+	test('stages single hunks of a file with a pathological name', async () => {
+		const name = PATHOLOGICAL_FILE_NAMES[PATHOLOGICAL_FILE_NAMES.length - 1];
+		const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+		writeFile(name, lines.join('\n') + '\n');
+		await gitService.stageFiles(repositoryRoot, [name]);
+		await gitService.commit(repositoryRoot, 'add file');
+
+		lines[1] = 'changed near the top';
+		lines[28] = 'changed near the bottom';
+		writeFile(name, lines.join('\n') + '\n');
+		const hunks = await gitService.getFileHunks(repositoryRoot, name);
+		assert.strictEqual(hunks.length, 2);
+
+		await gitService.stageHunks(repositoryRoot, name, [hunks[0].id]);
+		const { stdout: staged } = await runGit(['diff', '--cached', '--', name], repositoryRoot);
+		assert.ok(staged.includes('+changed near the top'));
+		assert.ok(!staged.includes('+changed near the bottom'));
+	});
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import {
+	CommitLintRules, DEFAULT_COMMIT_LINT_RULES, formatCommitLintIssues, hasCommitLintErrors, lintCommitMessage, parseCommitMessage
+} from '../utils/commitMessageLint';
+
+const withRules = (overrides: Partial<CommitLintRules>): CommitLintRules => ({ ...DEFAULT_COMMIT_LINT_RULES, ...overrides });
+const ruleIds = (message: string, rules?: CommitLintRules) => lintCommitMessage(message, rules).map(issue => issue.rule);
+
+suite('commitMessageLint Test Suite', () => {
+	test('parses type, scope, breaking marker and subject', () => {
+		const parsed = parseCommitMessage('feat(api)!: drop v1 endpoints\n\nThey were deprecated.\n');
+		assert.deepStrictEqual(parsed, {
+			header: 'feat(api)!: drop v1 endpoints',
+			type: 'feat',
+			scope: 'api',
+			breaking: true,
+			subject: 'drop v1 endpoints',
+			body: ['', 'They were deprecated.'],
+		});
+		assert.strictEqual(parseCommitMessage('fix: a\n\nBREAKING CHANGE: config moved')?.breaking, true);
+		assert.strictEqual(parseCommitMessage('Update readme'), undefined);
+	});
+
+	test('accepts a well-formed message', () => {
+		assert.deepStrictEqual(lintCommitMessage('fix(git): keep lines starting with #\n\nGit stripped them as comments.'), []);
+	});
+
+	test('reports an empty message and nothing else', () => {
+		assert.deepStrictEqual(lintCommitMessage('  \n'), [{ rule: 'header-empty', severity: 'error', message: 'The commit message is empty.', line: 1 }]);
+	});
+
+	test('uses the default severity of each rule', () => {
+		const issues = lintCommitMessage('feat: add the new settings view to the extension sidebar.\nno blank line');
+		const severities = Object.fromEntries(issues.map(issue => [issue.rule, issue.severity]));
+		assert.deepStrictEqual(severities, {
+			'subject-full-stop': 'warning',
+			'header-max-length': 'error',
+			'body-leading-blank': 'error',
+		});
+		assert.strictEqual(hasCommitLintErrors(issues), true);
+		assert.strictEqual(hasCommitLintErrors(issues.filter(issue => issue.severity === 'warning')), false);
+	});
+
+	test('checks types, scopes and their case', () => {
+		assert.deepStrictEqual(ruleIds('Feat: x'), ['type-case']);
+		assert.deepStrictEqual(ruleIds('feature: x'), ['type-enum']);
+		assert.deepStrictEqual(ruleIds('feature: x', withRules({ types: [] })), []);
+		assert.deepStrictEqual(ruleIds('fix(): x'), ['scope-empty']);
+		assert.deepStrictEqual(ruleIds('fix: x', withRules({ requireScope: true })), ['scope-empty']);
+		assert.deepStrictEqual(ruleIds('fix(ui): x', withRules({ scopes: ['api', 'cli'] })), ['scope-enum']);
+		assert.deepStrictEqual(ruleIds('fix(cli): x', withRules({ scopes: ['api', 'cli'] })), []);
+	});
+
+	test('reports the line of body issues', () => {
+		const longLine = 'x'.repeat(80);
+		const issues = lintCommitMessage(`fix: x\n\n${longLine}\nbreaking change: removed y`);
+		assert.deepStrictEqual(issues.map(issue => [issue.rule, issue.severity, issue.line]), [
+			['body-max-line-length', 'warning', 3],
+			['footer-breaking-change', 'error', 4],
+		]);
+	});
+
+	test('applies length limits from the rules', () => {
+		const header = `fix: ${'y'.repeat(60)}`;
+		assert.deepStrictEqual(ruleIds(header), ['header-max-length']);
+		assert.deepStrictEqual(ruleIds(header, withRules({ headerMaxLength: 100 })), []);
+		assert.deepStrictEqual(ruleIds(`fix: x\n\n${'z'.repeat(60)}`, withRules({ bodyMaxLineLength: 50 })), ['body-max-line-length']);
+	});
+
+	test('severity overrides change or turn off rules', () => {
+		const message = 'feat: add a subject that ends with a period.';
+		assert.deepStrictEqual(lintCommitMessage(message, withRules({ severities: { 'subject-full-stop': 'error' } })).map(issue => issue.severity), ['error']);
+		assert.deepStrictEqual(lintCommitMessage(message, withRules({ severities: { 'subject-full-stop': 'off' } })), []);
+
+		const downgraded = lintCommitMessage('Update readme', withRules({ severities: { 'header-format': 'warning' } }));
+		assert.deepStrictEqual(downgraded.map(issue => [issue.rule, issue.severity]), [['header-format', 'warning']]);
+		assert.strictEqual(hasCommitLintErrors(downgraded), false);
+	});
+
+	test('an empty message cannot be turned off', () => {
+		assert.deepStrictEqual(ruleIds('', withRules({ severities: { 'header-empty': 'off' } })), ['header-empty']);
+	});
+
+	test('formats issues as a bullet list', () => {
+		assert.strictEqual(formatCommitLintIssues(lintCommitMessage('Feat: x.')), [
+			'- [type-case] Type "Feat" must be lower-case.',
+			'- [subject-full-stop] The subject should not end with a period.',
+		].join('\n'));
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { COMMIT_PLAN_VERSION, CommitPlan, getCommitPlanFormat, parseCommitPlan, serializeCommitPlan } from '../utils/commitPlan';
+
+const PLAN: CommitPlan = {
+	version: COMMIT_PLAN_VERSION,
+	groups: [
+		{
+			repository: '.',
+			files: ['src/app.ts', 'README.md'],
+			specificContext: 'Adds the export command',
+			commitMessage: 'feat: export staged groups\n\nWrites them as JSON or YAML.',
+			title: 'Export',
+			needsReview: true,
+			hunks: { 'src/app.ts': ['0123456789ab', '0123456789ab-2'] },
+			presetId: 'conventional',
+		},
+		{ repository: 'packages/cli', files: ['main.ts'], specificContext: '', commitMessage: '' },
+	],
+};
+
+const parseJson = (value: unknown) => parseCommitPlan(JSON.stringify(value), 'json');
+const withGroup = (group: Record<string, unknown>) => ({ version: 1, groups: [{ repository: '.', files: ['a.ts'], ...group }] });
+
+suite('commitPlan Test Suite', () => {
+	test('picks the format from the file extension', () => {
+		assert.strictEqual(getCommitPlanFormat('/tmp/plan.yaml'), 'yaml');
+		assert.strictEqual(getCommitPlanFormat('plan.YML'), 'yaml');
+		assert.strictEqual(getCommitPlanFormat('plan.json'), 'json');
+		assert.strictEqual(getCommitPlanFormat('plan'), 'json');
+	});
+
+	test('round-trips a plan through JSON and YAML', () => {
+		for (const format of ['json', 'yaml'] as const) {
+			assert.deepStrictEqual(parseCommitPlan(serializeCommitPlan(PLAN, format), format), PLAN, format);
+		}
+	});
+
+	test('fills in defaults and drops empty optional fields', () => {
+		assert.deepStrictEqual(parseJson(withGroup({ title: '', needsReview: false, hunks: {}, presetId: '' })), {
+			version: COMMIT_PLAN_VERSION,
+			groups: [{ repository: '.', files: ['a.ts'], specificContext: '', commitMessage: '' }],
+		});
+	});
+
+	test('reads plans without a version as the current version', () => {
+		assert.strictEqual(parseJson({ groups: [] }).version, COMMIT_PLAN_VERSION);
+		assert.strictEqual(parseJson({ version: 0, groups: [] }).version, COMMIT_PLAN_VERSION);
+	});
+
+	test('rejects plans from a newer version', () => {
+		assert.throws(() => parseJson({ version: 2, groups: [] }), {
+			message: 'The plan has version 2; this version of LLM Committer reads version 1.',
+		});
+	});
+
+	test('rejects files without a groups list', () => {
+		for (const content of [[], { version: 1 }, { groups: {} }, 'text', null]) {
+			assert.throws(() => parseJson(content), { message: 'The file must contain an object with a "groups" list.' });
+		}
+		assert.throws(() => parseCommitPlan('- a\n- b\n', 'yaml'), { message: 'The file must contain an object with a "groups" list.' });
+	});
+
+	test('throws the parser error for malformed files', () => {
+		assert.throws(() => parseCommitPlan('{ "groups": [', 'json'), SyntaxError);
+		assert.throws(() => parseCommitPlan('groups: [\n', 'yaml'));
+	});
+
+	test('names the first invalid group and field', () => {
+		const cases: [unknown, string][] = [
+			[{ version: 1, groups: [withGroup({}).groups[0], 'x'] }, 'Group 2 is not an object.'],
+			[withGroup({ repository: ' ' }), 'Group 1 has no "repository".'],
+			[withGroup({ files: [] }), 'Group 1 needs a non-empty "files" list.'],
+			[withGroup({ files: ['a.ts', 3] }), 'Group 1 needs a non-empty "files" list.'],
+			[withGroup({ commitMessage: 42 }), 'Group 1: "commitMessage" must be a string.'],
+			[withGroup({ needsReview: 'yes' }), 'Group 1: "needsReview" must be true or false.'],
+			[withGroup({ hunks: ['id'] }), 'Group 1: "hunks" must map file paths to lists of hunk ids.'],
+			[withGroup({ hunks: { 'a.ts': 'id' } }), 'Group 1: "hunks" must map file paths to lists of hunk ids.'],
+		];
+		for (const [plan, message] of cases) {
+			assert.throws(() => parseJson(plan), { message });
+		}
+	});
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { buildPatch, parseFileDiff } from '../utils/diffHunks';
+
+const FILE_HEADER = [
+	'diff --git a/src/app.ts b/src/app.ts',
+	'index 1111111..2222222 100644',
+	'--- a/src/app.ts',
+	'+++ b/src/app.ts',
+];
+
+const buildDiff = (hunks: string[][]) => [...FILE_HEADER, ...hunks.flat()].join('\n') + '\n';
+
+const IMPORT_HUNK = ['@@ -1,3 +1,4 @@', ' import a from "a";', '+import b from "b";', ' ', ' export {};'];
+const RETURN_HUNK = ['@@ -10,3 +11,3 @@ function run() {', '     const x = 1;', '-    return x;', '+    return x + 1;', ' }'];
+
+suite('diffHunks Test Suite', () => {
+	test('splits the file header from the hunks', () => {
+		const parsed = parseFileDiff(buildDiff([IMPORT_HUNK, RETURN_HUNK]));
+		assert.deepStrictEqual(parsed.fileHeader, FILE_HEADER);
+		assert.strictEqual(parsed.hunks.length, 2);
+		assert.strictEqual(parsed.hunks[0].header, IMPORT_HUNK[0]);
+		assert.deepStrictEqual(parsed.hunks[1].lines, RETURN_HUNK.slice(1));
+	});
+
+	test('hunk ids depend only on the changed lines', () => {
+		const original = parseFileDiff(buildDiff([IMPORT_HUNK, RETURN_HUNK]));
+		// The same edit after other commits moved it and changed its surroundings.
+		const shifted = parseFileDiff(buildDiff([
+			['@@ -40,3 +52,3 @@ function run() {', '     const y = 2;', '-    return x;', '+    return x + 1;', ' }'],
+		]));
+		assert.strictEqual(shifted.hunks[0].id, original.hunks[1].id);
+		assert.notStrictEqual(original.hunks[0].id, original.hunks[1].id);
+		assert.match(original.hunks[0].id, /^[0-9a-f]{12}$/);
+	});
+
+	test('identical hunks in one file get numbered suffixes', () => {
+		const parsed = parseFileDiff(buildDiff([
+			IMPORT_HUNK,
+			['@@ -20,2 +21,3 @@', ' import a from "a";', '+import b from "b";'],
+			RETURN_HUNK,
+			['@@ -30,2 +32,3 @@', ' // again', '+import b from "b";'],
+		]));
+		const [first, second, other, third] = parsed.hunks.map(hunk => hunk.id);
+		assert.strictEqual(second, `${first}-2`);
+		assert.strictEqual(third, `${first}-3`);
+		assert.ok(!other.includes('-'));
+	});
+
+	test('a diff without hunks has only a file header', () => {
+		const parsed = parseFileDiff('diff --git a/image.png b/image.png\nBinary files a/image.png and b/image.png differ\n');
+		assert.strictEqual(parsed.hunks.length, 0);
+		assert.strictEqual(parsed.fileHeader.length, 2);
+	});
+
+	test('buildPatch reproduces the parsed diff', () => {
+		const diff = buildDiff([IMPORT_HUNK, RETURN_HUNK]);
+		const parsed = parseFileDiff(diff);
+		assert.strictEqual(buildPatch(parsed.fileHeader, parsed.hunks), diff);
+	});
+
+	test('buildPatch keeps only the selected hunks, with ids unchanged', () => {
+		const parsed = parseFileDiff(buildDiff([IMPORT_HUNK, RETURN_HUNK]));
+		const patch = buildPatch(parsed.fileHeader, [parsed.hunks[1]]);
+		assert.strictEqual(patch, buildDiff([RETURN_HUNK]));
+		assert.strictEqual(parseFileDiff(patch).hunks[0].id, parsed.hunks[1].id);
+	});
+
+	test('buildPatch keeps "no newline at end of file" markers with their hunk', () => {
+		const hunk = ['@@ -1 +1 @@', '-old', '\\ No newline at end of file', '+new', '\\ No newline at end of file'];
+		const parsed = parseFileDiff(buildDiff([hunk]));
+		assert.deepStrictEqual(parsed.hunks[0].lines, hunk.slice(1));
+		assert.strictEqual(buildPatch(parsed.fileHeader, parsed.hunks), buildDiff([hunk]));
+	});
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { renderPromptTemplate, validatePromptTemplate } from '../utils/promptTemplate';
+
+const messages = (template: string, stage: 'fileSummary' | 'commitMessage' = 'fileSummary') =>
+	validatePromptTemplate(template, stage).map(issue => `${issue.severity}: ${issue.message}`);
+
+suite('promptTemplate Test Suite', () => {
+	test('accepts a valid template', () => {
+		assert.deepStrictEqual(messages('{{instructions}}\n{{#generalContext}}Context: {{generalContext}}{{/generalContext}}\n{{ diff }}'), []);
+		assert.deepStrictEqual(messages('{{instructions}}\n{{summaries}}', 'commitMessage'), []);
+	});
+
+	test('requires the placeholder that carries the change', () => {
+		assert.deepStrictEqual(messages('{{instructions}}'), ['error: The template must contain {{diff}}.']);
+		assert.deepStrictEqual(messages('{{instructions}}\n{{diff}}', 'commitMessage'), [
+			'error: Unknown placeholder {{diff}}. Available: instructions, generalContext, specificContext, branch, files, summaries, recentCommits, commitRules.',
+			'error: The template must contain {{summaries}}.',
+		]);
+	});
+
+	test('warns when the instructions are not used', () => {
+		assert.deepStrictEqual(messages('{{diff}}'), ['warning: The template does not use {{instructions}}, so the instructions and presets have no effect.']);
+	});
+
+	test('reports unbalanced sections', () => {
+		const base = '{{instructions}}{{diff}}';
+		assert.deepStrictEqual(messages(`${base}{{#branch}}on {{branch}}`), ['error: {{#branch}} is never closed with {{/branch}}.']);
+		assert.deepStrictEqual(messages(`${base}{{/branch}}`), ['error: {{/branch}} has no matching {{#branch}}.']);
+	});
+
+	test('reports crossed sections', () => {
+		assert.deepStrictEqual(messages('{{instructions}}{{diff}}{{#branch}}{{#files}}x{{/branch}}{{/files}}'), [
+			'error: {{/branch}} closes {{#files}}.',
+			'error: {{#branch}} is never closed with {{/branch}}.',
+		]);
+	});
+
+	test('reports braces that are not placeholders', () => {
+		assert.deepStrictEqual(messages('{{instructions}}{{diff}}{{ file path }}{{}}'), [
+			'error: Cannot read {{ file path }}; placeholders look like {{name}}.',
+			'error: Cannot read {{}}; placeholders look like {{name}}.',
+		]);
+	});
+
+	test('keeps sections with a value and drops empty ones', () => {
+		const template = 'A\n{{#branch}}Branch: {{branch}}\n{{/branch}}{{#specificContext}}Context: {{specificContext}}\n{{/specificContext}}B';
+		assert.strictEqual(renderPromptTemplate(template, { branch: 'main', specificContext: '  ' }), 'A\nBranch: main\nB');
+	});
+
+	test('resolves nested sections innermost first', () => {
+		const template = '{{#files}}Files: {{files}}{{#branch}} on {{branch}}{{/branch}}.{{/files}}';
+		assert.strictEqual(renderPromptTemplate(template, { files: 'a.ts', branch: 'dev' }), 'Files: a.ts on dev.');
+		assert.strictEqual(renderPromptTemplate(template, { files: 'a.ts', branch: '' }), 'Files: a.ts.');
+		assert.strictEqual(renderPromptTemplate(template, { files: '', branch: 'dev' }), '');
+		assert.strictEqual(renderPromptTemplate('{{#branch}}x{{#branch}}y{{/branch}}z{{/branch}}', { branch: 'b' }), 'xyz');
+	});
+
+	test('collapses blank lines left by removed sections', () => {
+		const template = 'Start\n\n{{#branch}}{{branch}}{{/branch}}\n\n{{#files}}{{files}}{{/files}}\n\nEnd';
+		assert.strictEqual(renderPromptTemplate(template, {}), 'Start\n\nEnd');
+	});
+
+	test('inserts values verbatim, even when they look like placeholders', () => {
+		const diff = '+const view = `{{branch}}`;\n+{{#files}}keep{{/files}}\n\n\n+price.replace("$&", "$1")';
+		const rendered = renderPromptTemplate('{{branch}}\n{{diff}}', { branch: 'main', diff, files: '' });
+		assert.strictEqual(rendered, `main\n${diff}`);
+	});
+
+	test('renders unknown or missing values as empty', () => {
+		assert.strictEqual(renderPromptTemplate('[{{branch}}]', {}), '[]');
+	});
+});
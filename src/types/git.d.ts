@@ -0,0 +1,25 @@
+// src/types/git.d.ts
+// The part of the built-in Git extension's API (`vscode.git`, API version 1) used by this extension.
+// The full declarations live in the VS Code repository: extensions/git/src/api/git.d.ts
+import { Uri, Event } from 'vscode';
+
+export interface InputBox {
+    value: string;
+}
+
+export interface Repository {
+    readonly rootUri: Uri;
+    readonly inputBox: InputBox;
+}
+
+export interface API {
+    readonly state: 'uninitialized' | 'initialized';
+    readonly onDidChangeState: Event<'uninitialized' | 'initialized'>;
+    readonly repositories: Repository[];
+    getRepository(uri: Uri): Repository | null;
+}
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): API;
+}
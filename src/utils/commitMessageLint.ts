@@ -0,0 +1,140 @@
+// src/utils/commitMessageLint.ts
+
+export const DEFAULT_COMMIT_TYPES = ['feat', 'fix', 'refactor', 'style', 'docs', 'test', 'chore', 'perf', 'ci', 'build'];
+
+export type CommitLintSeverity = 'error' | 'warning';
+
+export const COMMIT_LINT_RULE_IDS = [
+    'header-empty', 'header-format', 'type-case', 'type-enum', 'scope-empty', 'scope-enum', 'subject-empty',
+    'subject-full-stop', 'header-max-length', 'body-leading-blank', 'body-max-line-length', 'footer-breaking-change',
+];
+
+export interface CommitLintRules {
+    types: string[];          // Allowed types; empty allows any lower-case word
+    scopes: string[];         // Allowed scopes; empty allows any scope
+    requireScope: boolean;
+    headerMaxLength: number;  // Length limit of the whole first line, "type(scope)!: subject"
+    bodyMaxLineLength: number;
+    severities: Record<string, CommitLintSeverity | 'off'>; // Per-rule overrides of the default severity, keyed by rule id
+}
+
+export const DEFAULT_COMMIT_LINT_RULES: CommitLintRules = {
+    types: DEFAULT_COMMIT_TYPES,
+    scopes: [],
+    requireScope: false,
+    headerMaxLength: 50,
+    bodyMaxLineLength: 72,
+    severities: {},
+};
+
+export interface ParsedCommitMessage {
+    header: string;
+    type: string;
+    scope?: string;
+    breaking: boolean; // "!" before the colon, or a BREAKING CHANGE footer
+    subject: string;
+    body: string[];    // Lines after the header, including the separating blank line if present
+}
+
+export interface CommitLintIssue {
+    rule: string;      // Short rule id in commitlint's naming, e.g. "header-max-length"
+    severity: CommitLintSeverity;
+    message: string;
+    line: number;      // 1-based line of the message the issue refers to
+}
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^()]*)\))?(!)?: (.*)$/;
+const BREAKING_FOOTER_PATTERN = /^BREAKING[ -]CHANGE: /;
+
+/** Parses a Conventional Commits message. Returns undefined when the header isn't `type(scope)!: subject`. */
+export function parseCommitMessage(message: string): ParsedCommitMessage | undefined {
+    const lines = message.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+    const header = lines[0];
+    const match = HEADER_PATTERN.exec(header);
+    if (!match) {
+        return undefined;
+    }
+    const body = lines.slice(1);
+    return {
+        header,
+        type: match[1],
+        scope: match[2],
+        breaking: !!match[3] || body.some(line => BREAKING_FOOTER_PATTERN.test(line)),
+        subject: match[4],
+        body,
+    };
+}
+
+/** Checks a commit message against the Conventional Commits format and the given length rules. */
+export function lintCommitMessage(message: string, rules: CommitLintRules = DEFAULT_COMMIT_LINT_RULES): CommitLintIssue[] {
+    const issues: CommitLintIssue[] = [];
+    const report = (issue: CommitLintIssue) => {
+        const severity = rules.severities[issue.rule] ?? issue.severity;
+        if (severity !== 'off') {
+            issues.push({ ...issue, severity });
+        }
+    };
+    if (!message.trim()) {
+        return [{ rule: 'header-empty', severity: 'error', message: 'The commit message is empty.', line: 1 }];
+    }
+
+    const parsed = parseCommitMessage(message);
+    const lines = message.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+    const header = lines[0];
+
+    if (!parsed) {
+        report({ rule: 'header-format', severity: 'error', message: `The first line must look like "type(scope): subject" or "type!: subject", got "${header}".`, line: 1 });
+    } else {
+        if (parsed.type !== parsed.type.toLowerCase()) {
+            report({ rule: 'type-case', severity: 'error', message: `Type "${parsed.type}" must be lower-case.`, line: 1 });
+        } else if (rules.types.length > 0 && !rules.types.includes(parsed.type)) {
+            report({ rule: 'type-enum', severity: 'error', message: `Type "${parsed.type}" is not one of: ${rules.types.join(', ')}.`, line: 1 });
+        }
+        if (parsed.scope === undefined && rules.requireScope) {
+            report({ rule: 'scope-empty', severity: 'error', message: `A scope is required, e.g. "${parsed.type}(${rules.scopes[0] || 'scope'}): ...".`, line: 1 });
+        } else if (parsed.scope !== undefined) {
+            if (!parsed.scope.trim()) {
+                report({ rule: 'scope-empty', severity: 'error', message: 'The scope in parentheses is empty; drop the parentheses or name a scope.', line: 1 });
+            } else if (rules.scopes.length > 0 && !rules.scopes.includes(parsed.scope)) {
+                report({ rule: 'scope-enum', severity: 'error', message: `Scope "${parsed.scope}" is not one of: ${rules.scopes.join(', ')}.`, line: 1 });
+            }
+        }
+        if (!parsed.subject.trim()) {
+            report({ rule: 'subject-empty', severity: 'error', message: 'The subject after the colon is empty.', line: 1 });
+        } else if (parsed.subject.trimEnd().endsWith('.')) {
+            report({ rule: 'subject-full-stop', severity: 'warning', message: 'The subject should not end with a period.', line: 1 });
+        }
+    }
+
+    if (header.length > rules.headerMaxLength) {
+        report({ rule: 'header-max-length', severity: 'error', message: `The first line is ${header.length} characters long; the limit is ${rules.headerMaxLength}.`, line: 1 });
+    }
+
+    if (lines.length > 1 && lines[1].trim() !== '') {
+        report({ rule: 'body-leading-blank', severity: 'error', message: 'The first line must be followed by a blank line before the body.', line: 2 });
+    }
+
+    lines.forEach((line, index) => {
+        if (index === 0) {
+            return;
+        }
+        if (line.length > rules.bodyMaxLineLength) {
+            report({ rule: 'body-max-line-length', severity: 'warning', message: `Line ${index + 1} is ${line.length} characters long; wrap body lines at ${rules.bodyMaxLineLength}.`, line: index + 1 });
+        }
+        if (/^breaking[ -]change:/i.test(line) && !BREAKING_FOOTER_PATTERN.test(line)) {
+            report({ rule: 'footer-breaking-change', severity: 'error', message: 'Breaking change footers must be written "BREAKING CHANGE: description".', line: index + 1 });
+        }
+    });
+
+    return issues;
+}
+
+/** True when at least one issue is an error rather than a warning. */
+export function hasCommitLintErrors(issues: CommitLintIssue[]): boolean {
+    return issues.some(issue => issue.severity === 'error');
+}
+
+/** Formats lint issues as a bullet list, e.g. for feeding them back to the LLM. */
+export function formatCommitLintIssues(issues: CommitLintIssue[]): string {
+    return issues.map(issue => `- [${issue.rule}] ${issue.message}`).join('\n');
+}
@@ -0,0 +1,92 @@
+// src/utils/commitPlan.ts
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+export const COMMIT_PLAN_VERSION = 1;
+
+export type CommitPlanFormat = 'json' | 'yaml';
+
+/** A staged group as written to a plan file. Paths are relative, so a plan works in another clone. */
+export interface CommitPlanGroup {
+    repository: string;               // Repository root relative to its workspace folder; "." for the folder itself
+    files: string[];                  // Relative to the repository root
+    specificContext: string;
+    commitMessage: string;
+    title?: string;
+    needsReview?: boolean;
+    hunks?: Record<string, string[]>; // Hunk ids per partially committed file; ids are derived from the changed lines
+    presetId?: string;
+}
+
+/** Staged groups in the order they are committed. */
+export interface CommitPlan {
+    version: number;
+    groups: CommitPlanGroup[];
+}
+
+export function getCommitPlanFormat(filePath: string): CommitPlanFormat {
+    return /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json';
+}
+
+export function serializeCommitPlan(plan: CommitPlan, format: CommitPlanFormat): string {
+    return format === 'yaml' ? stringifyYaml(plan) : `${JSON.stringify(plan, null, 2)}\n`;
+}
+
+/** Parses and checks a plan file. Throws an Error naming the first problem found. */
+export function parseCommitPlan(content: string, format: CommitPlanFormat): CommitPlan {
+    const raw: unknown = format === 'yaml' ? parseYaml(content) : JSON.parse(content);
+    if (!isObject(raw) || !Array.isArray(raw.groups)) {
+        throw new Error('The file must contain an object with a "groups" list.');
+    }
+    if (typeof raw.version === 'number' && raw.version > COMMIT_PLAN_VERSION) {
+        throw new Error(`The plan has version ${raw.version}; this version of LLM Committer reads version ${COMMIT_PLAN_VERSION}.`);
+    }
+    const groups = raw.groups.map((group: unknown, index: number) => parseGroup(group, `Group ${index + 1}`));
+    return { version: COMMIT_PLAN_VERSION, groups };
+}
+
+function parseGroup(raw: unknown, label: string): CommitPlanGroup {
+    if (!isObject(raw)) {
+        throw new Error(`${label} is not an object.`);
+    }
+    if (typeof raw.repository !== 'string' || !raw.repository.trim()) {
+        throw new Error(`${label} has no "repository".`);
+    }
+    if (!isStringList(raw.files) || raw.files.length === 0) {
+        throw new Error(`${label} needs a non-empty "files" list.`);
+    }
+    for (const key of ['specificContext', 'commitMessage', 'title', 'presetId'] as const) {
+        if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+            throw new Error(`${label}: "${key}" must be a string.`);
+        }
+    }
+    if (raw.needsReview !== undefined && typeof raw.needsReview !== 'boolean') {
+        throw new Error(`${label}: "needsReview" must be true or false.`);
+    }
+    let hunks: Record<string, string[]> | undefined;
+    if (raw.hunks !== undefined) {
+        if (!isObject(raw.hunks) || !Object.values(raw.hunks).every(isStringList)) {
+            throw new Error(`${label}: "hunks" must map file paths to lists of hunk ids.`);
+        }
+        hunks = raw.hunks as Record<string, string[]>;
+    }
+
+    const group: CommitPlanGroup = {
+        repository: raw.repository,
+        files: raw.files,
+        specificContext: (raw.specificContext as string | undefined) ?? '',
+        commitMessage: (raw.commitMessage as string | undefined) ?? ''
+    };
+    if (raw.title) { group.title = raw.title as string; }
+    if (raw.needsReview) { group.needsReview = true; }
+    if (hunks && Object.keys(hunks).length > 0) { group.hunks = hunks; }
+    if (raw.presetId) { group.presetId = raw.presetId as string; }
+    return group;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,30 @@
+// src/utils/concurrency.ts
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight at once.
+ * Results are returned in the same order as `items`, regardless of completion order.
+ * Items that have not started yet are skipped once `signal` is aborted (their result is undefined).
+ */
+export async function mapWithConcurrency<T, R>(
+    items: readonly T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<(R | undefined)[]> {
+    const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+    const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+    let nextIndex = 0;
+
+    const runWorker = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            if (signal?.aborted) {
+                return;
+            }
+            const index = nextIndex++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+    return results;
+}
@@ -0,0 +1,56 @@
+// src/utils/diffHunks.ts
+import * as crypto from 'crypto';
+
+export interface DiffHunk {
+    id: string;      // Derived from the hunk's changed lines, so it survives line shifts caused by other commits
+    header: string;  // The "@@ -a,b +c,d @@ ..." line
+    lines: string[]; // Body lines, without the header
+}
+
+export interface ParsedFileDiff {
+    fileHeader: string[]; // "diff --git", "index", "---" and "+++" lines preceding the first hunk
+    hunks: DiffHunk[];
+}
+
+/** Splits the `git diff` output of a single file into its file header and hunks. */
+export function parseFileDiff(rawDiff: string): ParsedFileDiff {
+    const lines = rawDiff.split('\n');
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    const fileHeader: string[] = [];
+    const rawHunks: { header: string; lines: string[] }[] = [];
+    for (const line of lines) {
+        if (line.startsWith('@@')) {
+            rawHunks.push({ header: line, lines: [] });
+        } else if (rawHunks.length === 0) {
+            fileHeader.push(line);
+        } else {
+            rawHunks[rawHunks.length - 1].lines.push(line);
+        }
+    }
+
+    const seen = new Map<string, number>();
+    const hunks = rawHunks.map(hunk => {
+        const changedLines = hunk.lines.filter(line => line.startsWith('+') || line.startsWith('-')).join('\n');
+        const baseId = crypto.createHash('sha1').update(changedLines).digest('hex').substring(0, 12);
+        // Identical edits in one file (e.g. the same import added twice) still need distinct ids.
+        const occurrence = (seen.get(baseId) ?? 0) + 1;
+        seen.set(baseId, occurrence);
+        return { id: occurrence === 1 ? baseId : `${baseId}-${occurrence}`, header: hunk.header, lines: hunk.lines };
+    });
+    return { fileHeader, hunks };
+}
+
+/**
+ * Builds a patch containing only the given hunks. Line counts in the hunk headers are left as they are;
+ * apply it with `git apply --recount` so git recomputes them.
+ */
+export function buildPatch(fileHeader: string[], hunks: DiffHunk[]): string {
+    const lines = [...fileHeader];
+    for (const hunk of hunks) {
+        lines.push(hunk.header, ...hunk.lines);
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,105 @@
+// src/utils/promptTemplate.ts
+
+export type PromptTemplateStage = 'fileSummary' | 'commitMessage';
+
+/** Placeholders each stage can fill, with a short description for the settings view. */
+export const PROMPT_TEMPLATE_PLACEHOLDERS: Record<PromptTemplateStage, Record<string, string>> = {
+    fileSummary: {
+        instructions: 'The instructions in effect (settings, repository file or the group\'s preset)',
+        generalContext: 'General context, including the repository\'s shared context',
+        specificContext: 'Context of the group',
+        branch: 'Current branch name',
+        files: 'All files of the group, one per line',
+        filePath: 'Path of the file being summarized',
+        diff: 'Diff of the file being summarized',
+        recentCommits: 'Earlier commit messages of the repository used as style examples',
+    },
+    commitMessage: {
+        instructions: 'The instructions in effect (settings, repository file or the group\'s preset)',
+        generalContext: 'General context, including the repository\'s shared context',
+        specificContext: 'Context of the group',
+        branch: 'Current branch name',
+        files: 'All files of the group, one per line',
+        summaries: 'The per-file summaries, each under a "--- File: path ---" header',
+        recentCommits: 'Earlier commit messages of the repository used as style examples',
+        commitRules: 'Allowed types, scopes and length limits from commitlint or the repository file',
+    },
+};
+
+// Without these the LLM would not see the change at all.
+const REQUIRED_PLACEHOLDERS: Record<PromptTemplateStage, string[]> = {
+    fileSummary: ['diff'],
+    commitMessage: ['summaries'],
+};
+
+export interface PromptTemplateIssue {
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+// `{{name}}` inserts a value; `{{#name}}...{{/name}}` keeps its content only when the value is not empty.
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+
+/** Checks a template for unknown placeholders, unbalanced sections and missing required placeholders. */
+export function validatePromptTemplate(template: string, stage: PromptTemplateStage): PromptTemplateIssue[] {
+    const issues: PromptTemplateIssue[] = [];
+    const known = PROMPT_TEMPLATE_PLACEHOLDERS[stage];
+    const used = new Set<string>();
+    const openSections: string[] = [];
+
+    for (const match of template.matchAll(TAG_PATTERN)) {
+        const [, marker, name] = match;
+        if (!(name in known)) {
+            issues.push({ severity: 'error', message: `Unknown placeholder {{${marker}${name}}}. Available: ${Object.keys(known).join(', ')}.` });
+            continue;
+        }
+        used.add(name);
+        if (marker === '#') {
+            openSections.push(name);
+        } else if (marker === '/') {
+            const open = openSections.pop();
+            if (open !== name) {
+                issues.push({ severity: 'error', message: open ? `{{/${name}}} closes {{#${open}}}.` : `{{/${name}}} has no matching {{#${name}}}.` });
+                if (open) {
+                    openSections.push(open);
+                }
+            }
+        }
+    }
+    for (const name of openSections) {
+        issues.push({ severity: 'error', message: `{{#${name}}} is never closed with {{/${name}}}.` });
+    }
+
+    // Braces that look like a placeholder but don't parse as one are most likely typos.
+    const leftover = template.replace(TAG_PATTERN, '').match(/\{\{[^}]*\}\}/g);
+    for (const tag of leftover || []) {
+        issues.push({ severity: 'error', message: `Cannot read ${tag}; placeholders look like {{name}}.` });
+    }
+
+    for (const name of REQUIRED_PLACEHOLDERS[stage]) {
+        if (!used.has(name)) {
+            issues.push({ severity: 'error', message: `The template must contain {{${name}}}.` });
+        }
+    }
+    if (!used.has('instructions')) {
+        issues.push({ severity: 'warning', message: 'The template does not use {{instructions}}, so the instructions and presets have no effect.' });
+    }
+    return issues;
+}
+
+/** Fills a template that passed validation. Sections are resolved innermost first, so they can be nested. */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+    const sectionPattern = /\{\{\s*#\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}((?:(?!\{\{\s*#)[\s\S])*?)\{\{\s*\/\s*\1\s*\}\}/;
+    let rendered = template;
+    let section = sectionPattern.exec(rendered);
+    while (section) {
+        const content = (values[section[1]] || '').trim() ? section[2] : '';
+        rendered = rendered.substring(0, section.index) + content + rendered.substring(section.index + section[0].length);
+        section = sectionPattern.exec(rendered);
+    }
+    return rendered
+        // Removed sections leave runs of blank lines behind; collapsed before the values go in, so diffs stay untouched.
+        .replace(/\n{3,}/g, '\n\n')
+        .replace(TAG_PATTERN, (_match, _marker: string, name: string) => values[name] ?? '')
+        .trim();
+}
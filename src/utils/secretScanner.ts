@@ -0,0 +1,186 @@
+// src/utils/secretScanner.ts
+
+export interface SecretFinding {
+    source: string;   // File path, or a label such as "General context"
+    rule: string;     // Id of the rule that matched, e.g. "aws-access-key"
+    description: string;
+    line?: number;    // Line in the new version of the file, when the text is a diff with hunk headers
+    preview: string;  // Masked excerpt that is safe to show and log
+}
+
+export interface SecretScanResult {
+    content: string;  // The input with every match replaced by a [REDACTED:<rule>] marker
+    findings: SecretFinding[];
+}
+
+interface SecretRule {
+    id: string;
+    description: string;
+    pattern: RegExp;  // Must be global; the secret is the first capture group that matched, otherwise the whole match
+}
+
+const SECRET_RULES: SecretRule[] = [
+    { id: 'private-key', description: 'Private key', pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/g },
+    { id: 'aws-access-key', description: 'AWS access key ID', pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/g },
+    { id: 'github-token', description: 'GitHub token', pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+    { id: 'anthropic-api-key', description: 'Anthropic API key', pattern: /\b(sk-ant-[A-Za-z0-9_-]{20,})/g },
+    { id: 'openai-api-key', description: 'OpenAI API key', pattern: /\b(sk-(?!ant-)(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,})/g },
+    { id: 'google-api-key', description: 'Google API key', pattern: /\b(AIza[0-9A-Za-z_-]{35})\b/g },
+    { id: 'slack-token', description: 'Slack token', pattern: /\b(xox[abposr]-[A-Za-z0-9-]{10,})\b/g },
+    { id: 'stripe-key', description: 'Stripe secret key', pattern: /\b((?:sk|rk)_(?:live|test)_[0-9A-Za-z]{20,})\b/g },
+    { id: 'jwt', description: 'JSON Web Token', pattern: /\b(eyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,})/g },
+    { id: 'connection-string-password', description: 'Password in a connection string', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:([^\s@/]{3,})@/gi },
+    {
+        // A quoted literal, or an unquoted value ending the line that contains a digit or symbol (so `token = newToken` is not flagged).
+        id: 'secret-assignment',
+        description: 'Value assigned to a password, secret, token or key',
+        pattern: /(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret|auth)["']?\s*[:=]\s*(?:["']([^"'\s]{8,})["']|((?=\S*[0-9!@#$%^&*+/=])[A-Za-z0-9+/=_\-!@#$%^&*]{8,})\s*$)/gi
+    },
+];
+
+// `.env`, `.env.local`, `production.env` ... but not the committed templates.
+const ENV_FILE_PATTERN = /(^|[\\/])(\.env(\.[\w-]+)?|[\w-]+\.env)$/i;
+const ENV_TEMPLATE_PATTERN = /\.(example|sample|template|dist)$/i;
+const ENV_ASSIGNMENT_PATTERN = /^[+\- ]?\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*["']?([^"'\s#][^"'#]*?)["']?\s*(?:#.*)?$/;
+
+// Texts a custom pattern is tried on before use; a pattern matching empty text in any of them is rejected.
+const EMPTY_MATCH_PROBES = ['', 'a', 'Ab1 =:"\'_-/\n#'];
+
+const HIGH_ENTROPY_CANDIDATE_PATTERN = /[A-Za-z0-9+/_=-]{24,}/g;
+const HIGH_ENTROPY_THRESHOLD = 4.3; // Bits per character; random base64 scores about 5.5, English identifiers stay below 4
+
+/**
+ * Compiles a regular expression source configured by the user. Throws a SyntaxError when it is invalid or
+ * matches empty text (e.g. `a*` or `^`), since such a pattern would report a secret on every line.
+ */
+export function compileSecretPattern(pattern: string): RegExp {
+    const regex = new RegExp(pattern, 'g');
+    for (const probe of EMPTY_MATCH_PROBES) {
+        for (const match of probe.matchAll(regex)) {
+            if (match[0] === '') {
+                throw new SyntaxError(`Invalid regular expression: /${pattern}/: Matches empty text`);
+            }
+        }
+    }
+    return regex;
+}
+
+/**
+ * Scans text that is about to be sent to an LLM (usually a diff) for secrets and returns a redacted copy.
+ * `customPatterns` are compiled with compileSecretPattern, so an invalid one makes this throw a SyntaxError.
+ */
+export function scanForSecrets(text: string, source: string, customPatterns: string[] = []): SecretScanResult {
+    const rules = [...SECRET_RULES, ...customPatterns.map((pattern, index) => ({
+        id: `custom-${index + 1}`,
+        description: `Custom pattern ${pattern}`,
+        pattern: compileSecretPattern(pattern),
+    }))];
+    const isEnvFile = ENV_FILE_PATTERN.test(source) && !ENV_TEMPLATE_PATTERN.test(source);
+    const lineNumbers = mapDiffLineNumbers(text);
+    const findings: SecretFinding[] = [];
+    let insidePrivateKey = false;
+
+    const redactedLines = text.split('\n').map((line, index) => {
+        const report = (rule: string, description: string, secret: string) => {
+            findings.push({ source, rule, description, line: lineNumbers[index], preview: maskSecret(secret) });
+        };
+
+        // Everything between the BEGIN and END markers of a private key is secret.
+        if (insidePrivateKey) {
+            if (/-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/.test(line)) {
+                insidePrivateKey = false;
+            }
+            // Keep the diff marker ("+", "-" or " ") so the redacted diff still reads as a diff.
+            return line.replace(/^([+\- ]?).+$/, '$1[REDACTED:private-key]');
+        }
+
+        let redacted = line;
+        for (const rule of rules) {
+            redacted = redacted.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+                // Replacer arguments are the capture groups followed by the numeric offset.
+                const groups = args.slice(0, args.findIndex(arg => typeof arg === 'number'));
+                const secret = groups.find((group): group is string => typeof group === 'string') ?? match;
+                // Empty matches can still slip through patterns the probes miss, e.g. ones behind a lookbehind.
+                if (!secret || secret.startsWith('[REDACTED:')) {
+                    return match;
+                }
+                report(rule.id, rule.description, secret);
+                if (rule.id === 'private-key') {
+                    insidePrivateKey = !/-----END /.test(line);
+                    return match;
+                }
+                return match.replace(secret, `[REDACTED:${rule.id}]`);
+            });
+        }
+
+        if (isEnvFile) {
+            const envMatch = ENV_ASSIGNMENT_PATTERN.exec(redacted);
+            if (envMatch && !envMatch[1].startsWith('[REDACTED:')) {
+                report('env-assignment', 'Value in an environment file', envMatch[1]);
+                redacted = redacted.replace(envMatch[1], '[REDACTED:env-assignment]');
+            }
+        }
+
+        redacted = redacted.replace(HIGH_ENTROPY_CANDIDATE_PATTERN, (candidate: string) => {
+            if (!isLikelyRandom(candidate)) {
+                return candidate;
+            }
+            report('high-entropy-string', 'High-entropy string (possible key or token)', candidate);
+            return '[REDACTED:high-entropy-string]';
+        });
+        return redacted;
+    });
+
+    return { content: redactedLines.join('\n'), findings };
+}
+
+/** Shows only the start of a secret, e.g. "AKIA…(20 chars)", so findings can be listed without leaking it. */
+export function maskSecret(secret: string): string {
+    const visible = secret.length > 12 ? 4 : Math.min(2, secret.length);
+    return `${secret.substring(0, visible)}…(${secret.length} chars)`;
+}
+
+function isLikelyRandom(candidate: string): boolean {
+    // Subresource integrity hashes in lockfiles ("sha512-...") are public.
+    if (/^sha(1|256|384|512)-/.test(candidate)) {
+        return false;
+    }
+    // Hashes in lockfiles and commit ids are hexadecimal; real keys mix cases and digits.
+    if (!/[a-z]/.test(candidate) || !/[A-Z]/.test(candidate) || !/[0-9]/.test(candidate)) {
+        return false;
+    }
+    // Paths and identifiers like "src/components/MyComponentFile" are not secrets.
+    if (/[/_-]/.test(candidate) && candidate.split(/[/_-]/).every(part => part.length < 12)) {
+        return false;
+    }
+    return shannonEntropy(candidate) >= HIGH_ENTROPY_THRESHOLD;
+}
+
+function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+/** Maps each line of a diff to its line number in the new file, using the "@@ -a,b +c,d @@" hunk headers. */
+function mapDiffLineNumbers(text: string): (number | undefined)[] {
+    let nextLine: number | undefined;
+    return text.split('\n').map(line => {
+        const header = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+        if (header) {
+            nextLine = parseInt(header[1], 10);
+            return undefined;
+        }
+        if (nextLine === undefined || line.startsWith('-')) {
+            return undefined;
+        }
+        return nextLine++;
+    });
+}
@@ -0,0 +1,37 @@
+// src/utils/styleExamples.ts
+
+const MAX_EXAMPLE_LENGTH = 600;
+const MIN_EXAMPLE_LENGTH = 10;
+// Autosquash markers, reverts and work-in-progress commits say little about the repository's usual style.
+const SKIPPED_MESSAGE_PATTERN = /^(fixup!|squash!|amend!|revert\b|wip\b|merge\b)/i;
+
+/**
+ * Picks up to `count` commit messages to show the LLM as style examples. Candidates are taken in the
+ * given order (most relevant first), skipping noise and duplicates; long messages are cut at a line break.
+ */
+export function curateStyleExamples(candidates: string[], count: number): string[] {
+    const examples: string[] = [];
+    const seenSubjects = new Set<string>();
+    for (const candidate of candidates) {
+        if (examples.length >= count) {
+            break;
+        }
+        const message = candidate.trim();
+        const subject = message.split('\n')[0].trim();
+        if (message.length < MIN_EXAMPLE_LENGTH || SKIPPED_MESSAGE_PATTERN.test(subject) || seenSubjects.has(subject.toLowerCase())) {
+            continue;
+        }
+        seenSubjects.add(subject.toLowerCase());
+        examples.push(truncateExample(message));
+    }
+    return examples;
+}
+
+function truncateExample(message: string): string {
+    if (message.length <= MAX_EXAMPLE_LENGTH) {
+        return message;
+    }
+    const truncated = message.substring(0, MAX_EXAMPLE_LENGTH);
+    const lastNewline = truncated.lastIndexOf('\n');
+    return `${lastNewline > 0 ? truncated.substring(0, lastNewline) : truncated}\n...`;
+}
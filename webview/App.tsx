@@ -6,34 +6,105 @@ const vscode = (window as any).acquireVsCodeApi();
 
 interface StagedGroup {
   id: string;
+  repositoryRoot: string;
   files: string[];
   specificContext: string;
   commitMessage: string;
+  title?: string;
+  needsReview?: boolean;
+  hunks?: Record<string, string[]>;
+  presetId?: string;
 }
 
 interface CurrentGroup {
+    repositoryRoot: string;
     files: string[];
     specificContext: string;
     commitMessage?: string;
     isGenerating?: boolean;
+    hunks?: Record<string, string[]>;
+    presetId?: string;
 }
 
-type LLMProviderWebview = 'openai' | 'anthropic' | 'gemini' | 'openrouter';
+interface RepositoryChanges {
+    root: string;
+    name: string;
+    changedFiles: string[];
+}
+
+interface CommitLintIssue {
+    rule: string;
+    severity: 'error' | 'warning';
+    message: string;
+    line: number;
+}
+
+interface SecretFinding {
+    source: string;
+    rule: string;
+    description: string;
+    line?: number;
+    preview: string;
+}
+
+interface DiffHunk {
+    id: string;
+    header: string;
+    lines: string[];
+}
+
+type LLMProviderWebview = 'openai' | 'anthropic' | 'gemini' | 'openrouter' | 'ollama' | 'openai-compatible';
+type OpenAICompatibleAuthScheme = 'bearer' | 'api-key' | 'none';
+type SettingSource = 'default' | 'user' | 'repository' | 'workspace' | 'workspaceFolder';
+
+interface InstructionPreset {
+    id: string;
+    name: string;
+    instructions: string;
+}
+
+type PromptTemplateStage = 'fileSummary' | 'commitMessage';
+
+interface PromptTemplateIssue {
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+// Mirrors PROMPT_TEMPLATE_PLACEHOLDERS in src/utils/promptTemplate.ts.
+const PROMPT_TEMPLATE_PLACEHOLDER_NAMES: Record<PromptTemplateStage, string[]> = {
+    fileSummary: ['instructions', 'generalContext', 'specificContext', 'branch', 'files', 'filePath', 'diff', 'recentCommits'],
+    commitMessage: ['instructions', 'generalContext', 'specificContext', 'branch', 'files', 'summaries', 'recentCommits', 'commitRules'],
+};
+
+interface OpenAICompatibleSettings {
+    baseUrl: string;
+    authScheme: OpenAICompatibleAuthScheme;
+    headers: Record<string, string>;
+}
 
 interface WebviewSettings {
     hasApiKey: boolean;
+    requiresApiKey: boolean;
+    providersWithApiKey: LLMProviderWebview[];
     provider: LLMProviderWebview;
     model: string;
     maxTokens: number;
     temperature: number;
     instructionsLength: number;
     openRouterRefererUrl?: string;
+    ollamaBaseUrl?: string;
+    openAICompatible?: OpenAICompatibleSettings;
+    settingSources?: Record<string, SettingSource>;
+    repositoryConfigFile?: string;
+    instructionPresets?: InstructionPreset[];
+    promptTemplates?: Record<PromptTemplateStage, string>;
 }
 interface AppState {
-    changedFiles: string[];
+    repositories: RepositoryChanges[];
     currentGroup: CurrentGroup | null;
     currentView: 'fileselection' | 'group' | 'settings' | 'reviewStagedGroup';
     selectedFiles: string[];
+    selectedRepositoryRoot: string | null;
     generalContext: string;
     settings: WebviewSettings;
     stagedGroups: StagedGroup[];
@@ -44,27 +115,36 @@ interface EditingStagedGroupState {
   specificContext: string;
   commitMessage: string;
   files: string[];
+  hunks?: Record<string, string[]>;
+  presetId?: string;
   isGeneratingMessage: boolean;
 }
 
 
+// Hunk state is keyed per repository, since nested repositories can contain files with the same relative path.
+const hunkKey = (repositoryRoot: string, filePath: string) => `${repositoryRoot}\u0000${filePath}`;
+
 const App: React.FC = () => {
   const [count, setCount] = useState(0);
   
   const [appState, setAppState] = useState<AppState>({
-    changedFiles: [],
+    repositories: [],
     currentGroup: null,
     currentView: 'fileselection',
     selectedFiles: [],
+    selectedRepositoryRoot: null,
     generalContext: '',
     settings: {
         hasApiKey: false,
+        requiresApiKey: true,
+        providersWithApiKey: [],
         provider: 'openai',
         model: 'gpt-4o-mini',
         maxTokens: 4000,
         temperature: 0.3,
         instructionsLength: 0,
         openRouterRefererUrl: 'http://localhost',
+        ollamaBaseUrl: 'http://localhost:11434',
     },
     stagedGroups: [],
     currentEditingStagedGroupId: null,
@@ -77,8 +157,19 @@ const App: React.FC = () => {
     provider: 'openai' as LLMProviderWebview,
     model: 'gpt-4o-mini',
     maxTokens: 4000,
-    temperature: 0.3
+    temperature: 0.3,
+    ollamaBaseUrl: 'http://localhost:11434',
+    openAICompatibleBaseUrl: '',
+    openAICompatibleAuthScheme: 'bearer' as OpenAICompatibleAuthScheme,
+    openAICompatibleHeaders: '{}'
   });
+  const [headersError, setHeadersError] = useState<string | null>(null);
+  const [presetDrafts, setPresetDrafts] = useState<InstructionPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const [templateDrafts, setTemplateDrafts] = useState<Record<PromptTemplateStage, string>>({ fileSummary: '', commitMessage: '' });
+  const [templateStage, setTemplateStage] = useState<PromptTemplateStage>('commitMessage');
+  const [templatePreview, setTemplatePreview] = useState<{ stage: PromptTemplateStage; issues: PromptTemplateIssue[]; preview: string } | null>(null);
+  const [discoveredModels, setDiscoveredModels] = useState<{ provider: LLMProviderWebview; models: string[] } | null>(null);
 
   const [isCommittingAll, setIsCommittingAll] = useState(false);
   const [commitSummary, setCommitSummary] = useState<string | null>(null);
@@ -91,7 +182,16 @@ const App: React.FC = () => {
   const [editingStagedGroupData, setEditingStagedGroupData] = useState<EditingStagedGroupState | null>(null);
   const [originalStagedGroupForEdit, setOriginalStagedGroupForEdit] = useState<StagedGroup | null>(null);
 
-  const [generationProgress, setGenerationProgress] = useState<{ message: string; percentage: number } | null>(null);
+  const [isCancellingGeneration, setIsCancellingGeneration] = useState(false);
+  const [isAutoGrouping, setIsAutoGrouping] = useState(false);
+  const [fileHunks, setFileHunks] = useState<Record<string, { hunks: DiffHunk[]; loading: boolean; error?: string }>>({});
+  const [expandedHunkFiles, setExpandedHunkFiles] = useState<string[]>([]);
+  const [groupsSelectedForMerge, setGroupsSelectedForMerge] = useState<string[]>([]);
+  const [secretScan, setSecretScan] = useState<{ findings: SecretFinding[]; blocked: boolean } | null>(null);
+  const [messageLint, setMessageLint] = useState<{ message: string; issues: CommitLintIssue[] } | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<{ message: string; percentage: number; partialMessage?: string; stagedGroupId?: string } | null>(null);
+  // Where each file summary of the last generation came from; stagedGroupId is undefined for the new group.
+  const [summarySources, setSummarySources] = useState<{ stagedGroupId?: string; cachedFiles: string[] }>({ cachedFiles: [] });
 
   const getDefaultModelForProvider = (provider: LLMProviderWebview): string => {
     switch (provider) {
@@ -99,6 +199,8 @@ const App: React.FC = () => {
         case 'anthropic': return 'claude-3-5-sonnet-20240620';
         case 'gemini': return 'gemini-1.5-flash-latest';
         case 'openrouter': return 'openrouter/auto';
+        case 'ollama': return 'llama3.1';
+        case 'openai-compatible': return '';
         default: return 'gpt-4o-mini';
     }
   };
@@ -111,6 +213,82 @@ const App: React.FC = () => {
     }));
   }, [appState.settings.provider, appState.settings.model]);
 
+  useEffect(() => {
+    const presets = appState.settings.instructionPresets || [];
+    setPresetDrafts(presets);
+    setSelectedPresetId(prev => presets.some(p => p.id === prev) ? prev : presets[0]?.id ?? null);
+  }, [appState.settings.instructionPresets]);
+
+  useEffect(() => {
+    setTemplateDrafts(appState.settings.promptTemplates || { fileSummary: '', commitMessage: '' });
+  }, [appState.settings.promptTemplates]);
+
+  // Validate and preview the template being edited, shortly after the user stops typing.
+  const templateToPreview = templateDrafts[templateStage];
+  useEffect(() => {
+    if (appState.currentView !== 'settings' || !templateToPreview.trim()) {
+      setTemplatePreview(null);
+      return;
+    }
+    const timer = setTimeout(() => vscode.postMessage({ command: 'previewPromptTemplate', payload: { stage: templateStage, template: templateToPreview } }), 300);
+    return () => clearTimeout(timer);
+  }, [appState.currentView, templateStage, templateToPreview]);
+
+  // Local providers expose their installed models, so ask the extension to discover them.
+  useEffect(() => {
+    if (appState.currentView === 'settings' && (settingsForm.provider === 'ollama' || settingsForm.provider === 'openai-compatible')) {
+      vscode.postMessage({ command: 'getAvailableModels', payload: { provider: settingsForm.provider } });
+    }
+  }, [appState.currentView, settingsForm.provider]);
+
+  const canGenerate = appState.settings.hasApiKey || !appState.settings.requiresApiKey;
+
+  useEffect(() => {
+    // Drop merge selections for groups that were committed, unstaged or merged away.
+    setGroupsSelectedForMerge(prev => prev.filter(id => appState.stagedGroups.some(g => g.id === id)));
+  }, [appState.stagedGroups]);
+
+  // Lint whichever commit message is being edited, shortly after the user stops typing.
+  const messageToLint = appState.currentView === 'group'
+    ? newGroupLocalCommitMessage
+    : appState.currentView === 'reviewStagedGroup' ? editingStagedGroupData?.commitMessage ?? '' : '';
+  // The repository decides which rules apply, since it may have its own commitlint config.
+  const lintRepositoryRoot = appState.currentView === 'group'
+    ? appState.currentGroup?.repositoryRoot
+    : appState.stagedGroups.find(g => g.id === appState.currentEditingStagedGroupId)?.repositoryRoot;
+  useEffect(() => {
+    if (!messageToLint.trim()) {
+      return;
+    }
+    const timer = setTimeout(() => vscode.postMessage({ command: 'lintCommitMessage', payload: { message: messageToLint, repositoryRoot: lintRepositoryRoot } }), 300);
+    return () => clearTimeout(timer);
+  }, [messageToLint, lintRepositoryRoot]);
+
+  const isAnyGenerationRunning = !!appState.currentGroup?.isGenerating || !!editingStagedGroupData?.isGeneratingMessage || isAutoGrouping;
+  useEffect(() => {
+    if (!isAnyGenerationRunning) {
+      setIsCancellingGeneration(false);
+      setGenerationProgress(null);
+    }
+  }, [isAnyGenerationRunning]);
+  const formProviderHasApiKey = (appState.settings.providersWithApiKey || []).includes(settingsForm.provider);
+  const repositoryConfigFileName = appState.settings.repositoryConfigFile?.split(/[\\/]/).pop();
+  const settingSourceLabel = (key: string) => {
+    const source = appState.settings.settingSources?.[key];
+    if (!source) {
+      return null;
+    }
+    const labels: Record<SettingSource, string> = {
+      default: 'default',
+      user: 'user settings',
+      repository: repositoryConfigFileName || 'repository file',
+      workspace: 'workspace settings',
+      workspaceFolder: 'folder settings',
+    };
+    return <span className={`setting-source source-${source}`} title="Where the value currently in effect comes from">{labels[source]}</span>;
+  };
+  const keyMarker = (provider: LLMProviderWebview) => (appState.settings.providersWithApiKey || []).includes(provider) ? ' ✓' : '';
+
 
   const debounceTimeout = React.useRef<NodeJS.Timeout | null>(null);
   const debouncedUpdateGeneralContext = useCallback((context: string) => {
@@ -155,6 +333,8 @@ const App: React.FC = () => {
               specificContext: groupFromAppState.specificContext,
               commitMessage: groupFromAppState.commitMessage,
               files: [...groupFromAppState.files],
+              hunks: groupFromAppState.hunks,
+              presetId: groupFromAppState.presetId,
               isGeneratingMessage: false,
             });
             setOriginalStagedGroupForEdit({ ...groupFromAppState });
@@ -219,6 +399,12 @@ const App: React.FC = () => {
               model: message.payload.settings.model || getDefaultModelForProvider(newProvider as LLMProviderWebview),
               maxTokens: message.payload.settings.maxTokens || 4000,
               temperature: message.payload.settings.temperature !== undefined ? message.payload.settings.temperature : 0.3,
+              ollamaBaseUrl: message.payload.settings.ollamaBaseUrl || prev.ollamaBaseUrl,
+              ...(message.payload.settings.openAICompatible ? {
+                openAICompatibleBaseUrl: message.payload.settings.openAICompatible.baseUrl,
+                openAICompatibleAuthScheme: message.payload.settings.openAICompatible.authScheme,
+                openAICompatibleHeaders: JSON.stringify(message.payload.settings.openAICompatible.headers || {}, null, 2),
+              } : {}),
             }));
           }
           break;
@@ -262,6 +448,41 @@ const App: React.FC = () => {
             break;
         case 'updateGenerationProgress':
             setGenerationProgress(message.payload);
+            // Streamed text goes straight into the textarea; the final message still arrives through stateUpdate.
+            if (typeof message.payload.partialMessage === 'string') {
+                if (message.payload.stagedGroupId) {
+                    if (message.payload.stagedGroupId === appState.currentEditingStagedGroupId) {
+                        setEditingStagedGroupData(prev => prev ? ({ ...prev, commitMessage: message.payload.partialMessage }) : null);
+                    }
+                } else {
+                    setNewGroupLocalCommitMessage(message.payload.partialMessage);
+                }
+            }
+            break;
+        case 'fileHunksLoaded':
+            setFileHunks(prev => ({ ...prev, [hunkKey(message.payload.repositoryRoot, message.payload.filePath)]: { hunks: message.payload.hunks || [], loading: false, error: message.payload.error } }));
+            break;
+        case 'secretScanResult':
+            setSecretScan(message.payload.findings?.length > 0 ? { findings: message.payload.findings, blocked: !!message.payload.blocked } : null);
+            break;
+        case 'commitMessageLintResult':
+            setMessageLint({ message: message.payload.message, issues: message.payload.issues || [] });
+            break;
+        case 'autoGroupStatus':
+            setIsAutoGrouping(!!message.payload.isRunning);
+            break;
+        case 'fileSummaryStatus':
+            setSummarySources(prev => {
+                const sameGroup = prev.stagedGroupId === message.payload.stagedGroupId;
+                const cachedFiles = (sameGroup ? prev.cachedFiles : []).filter(file => file !== message.payload.filePath);
+                return { stagedGroupId: message.payload.stagedGroupId, cachedFiles: message.payload.fromCache ? [...cachedFiles, message.payload.filePath] : cachedFiles };
+            });
+            break;
+        case 'promptTemplatePreview':
+            setTemplatePreview({ stage: message.payload.stage, issues: message.payload.issues || [], preview: message.payload.preview || '' });
+            break;
+        case 'availableModelsLoaded':
+            setDiscoveredModels({ provider: message.payload.provider, models: message.payload.models || [] });
             break;
       }
     };
@@ -291,29 +512,29 @@ const App: React.FC = () => {
     vscode.postMessage({ command: 'fetchChanges' });
   };
 
-  const handleViewDiff = (filePath: string) => {
+  const handleViewDiff = (repositoryRoot: string, filePath: string) => {
     vscode.postMessage({
       command: 'viewFileDiff',
-      payload: { filePath: filePath }
+      payload: { repositoryRoot, filePath: filePath }
     });
   };
 
-  const handleRevertFile = (filePath: string) => {
+  const handleRevertFile = (repositoryRoot: string, filePath: string) => {
     vscode.postMessage({
       command: 'revertFileChanges',
-      payload: { filePath: filePath }
+      payload: { repositoryRoot, filePath: filePath }
     });
   };
 
-  const handleToggleFileSelection = (filePath: string) => {
-    const isStaged = appState.stagedGroups.some(group => group.files.includes(filePath));
+  const handleToggleFileSelection = (repositoryRoot: string, filePath: string) => {
+    const isStaged = appState.stagedGroups.some(group => group.repositoryRoot === repositoryRoot && group.files.includes(filePath) && !group.hunks?.[filePath]);
     if (isStaged) {
         vscode.postMessage({command: 'alert', text: `${(filePath.split(/[\\/]/).pop() || filePath)} is already in a staged group.`});
         return;
     }
     vscode.postMessage({
       command: 'toggleFileSelection',
-      payload: { filePath: filePath }
+      payload: { repositoryRoot, filePath: filePath }
     });
   };
 
@@ -352,6 +573,13 @@ const App: React.FC = () => {
     }
   };
 
+  const handleRemoveApiKey = () => {
+    vscode.postMessage({
+      command: 'saveApiKey',
+      payload: { apiKey: '', provider: settingsForm.provider }
+    });
+  };
+
   const handleSaveInstructions = () => {
     vscode.postMessage({
       command: 'saveLlmInstructions',
@@ -363,23 +591,102 @@ const App: React.FC = () => {
   };
 
   const handleSaveLlmSettings = () => {
+    let openAICompatible: OpenAICompatibleSettings | undefined;
+    if (settingsForm.provider === 'openai-compatible') {
+      let headers: Record<string, string>;
+      try {
+        headers = JSON.parse(settingsForm.openAICompatibleHeaders.trim() || '{}');
+        if (typeof headers !== 'object' || headers === null || Array.isArray(headers) || Object.values(headers).some(v => typeof v !== 'string')) {
+          throw new Error('Headers must be a JSON object with string values.');
+        }
+      } catch (e) {
+        setHeadersError(e instanceof Error ? e.message : String(e));
+        return;
+      }
+      setHeadersError(null);
+      openAICompatible = {
+        baseUrl: settingsForm.openAICompatibleBaseUrl,
+        authScheme: settingsForm.openAICompatibleAuthScheme,
+        headers,
+      };
+    }
     vscode.postMessage({
       command: 'saveLlmSettings',
       payload: {
         provider: settingsForm.provider,
         model: settingsForm.model,
         maxTokens: settingsForm.maxTokens,
-        temperature: settingsForm.temperature
+        temperature: settingsForm.temperature,
+        ollamaBaseUrl: settingsForm.ollamaBaseUrl,
+        openAICompatible
       }
     });
   };
 
+  const handleRefreshModels = () => {
+    vscode.postMessage({ command: 'getAvailableModels', payload: { provider: settingsForm.provider } });
+  };
+
   const handleTestConnection = () => {
     vscode.postMessage({ command: 'testApiConnection' });
   };
 
+  const selectedPreset = presetDrafts.find(p => p.id === selectedPresetId);
+  const presetDraftsChanged = JSON.stringify(presetDrafts) !== JSON.stringify(appState.settings.instructionPresets || []);
+
+  const updateSelectedPreset = (changes: Partial<InstructionPreset>) => {
+    setPresetDrafts(prev => prev.map(p => p.id === selectedPresetId ? { ...p, ...changes } : p));
+  };
+
+  const handleAddPreset = (template?: InstructionPreset) => {
+    const preset: InstructionPreset = {
+      id: `preset-${Date.now().toString(36)}`,
+      name: template ? `${template.name} (copy)` : 'New preset',
+      instructions: template ? template.instructions : settingsForm.instructions,
+    };
+    setPresetDrafts(prev => [...prev, preset]);
+    setSelectedPresetId(preset.id);
+  };
+
+  const handleDeletePreset = () => {
+    const remaining = presetDrafts.filter(p => p.id !== selectedPresetId);
+    setPresetDrafts(remaining);
+    setSelectedPresetId(remaining[0]?.id ?? null);
+  };
+
+  const handleSavePresets = () => {
+    if (presetDrafts.some(p => !p.name.trim() || !p.instructions.trim())) {
+      vscode.postMessage({ command: 'alert', text: 'Every preset needs a name and instructions.' });
+      return;
+    }
+    vscode.postMessage({ command: 'saveInstructionPresets', payload: { presets: presetDrafts.map(p => ({ ...p, name: p.name.trim() })) } });
+  };
+
+  const templateDraftsChanged = JSON.stringify(templateDrafts) !== JSON.stringify(appState.settings.promptTemplates || { fileSummary: '', commitMessage: '' });
+  const shownTemplatePreview = templatePreview && templatePreview.stage === templateStage && templateToPreview.trim() ? templatePreview : null;
+
+  const handleSavePromptTemplates = () => {
+    vscode.postMessage({ command: 'savePromptTemplates', payload: templateDrafts });
+  };
+
+  const renderPresetPicker = (id: string, presetId: string | undefined, onChange: (presetId: string) => void) => {
+    const presets = appState.settings.instructionPresets || [];
+    const isMissing = !!presetId && !presets.some(p => p.id === presetId);
+    return (
+      <div className="group-section">
+        <label htmlFor={id}>Instructions</label>
+        <select id={id} value={presetId || ''} onChange={(e) => onChange(e.target.value)} style={{ width: '100%', padding: '4px 8px' }}>
+          <option value="">Regular instructions (settings)</option>
+          {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          {isMissing && <option value={presetId}>Deleted preset (regular instructions are used)</option>}
+        </select>
+      </div>
+    );
+  };
+
   const handleGenerateNewGroupMessage = () => {
     if (!appState.currentGroup) return;
+    setSummarySources({ cachedFiles: [] });
     vscode.postMessage({
       command: 'generateCommitMessage',
       payload: {
@@ -389,6 +696,18 @@ const App: React.FC = () => {
     });
   };
 
+  const handleFixNewGroupMessage = () => {
+    vscode.postMessage({
+      command: 'fixCommitMessage',
+      payload: { message: newGroupLocalCommitMessage, groupContext: newGroupLocalSpecificContext }
+    });
+  };
+
+  const handleCancelGeneration = () => {
+    setIsCancellingGeneration(true);
+    vscode.postMessage({ command: 'cancelGeneration' });
+  };
+
   const handleStageCurrentGroup = () => {
     // Use local state values for staging
     if (appState.currentGroup && newGroupLocalCommitMessage.trim() && appState.currentGroup.files.length > 0) {
@@ -415,6 +734,23 @@ const App: React.FC = () => {
 
   const handleUnstageGroup = (groupId: string) => {
       vscode.postMessage({ command: 'unstageGroup', payload: { groupId } });
+      setGroupsSelectedForMerge(prev => prev.filter(id => id !== groupId));
+  };
+
+  const handleAutoGroup = () => {
+      // With files selected only those are grouped; otherwise every ungrouped change is.
+      vscode.postMessage({ command: 'autoGroupFiles', payload: { files: appState.selectedFiles } });
+  };
+
+  const handleToggleGroupForMerge = (groupId: string) => {
+      setGroupsSelectedForMerge(prev => prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]);
+  };
+
+  const handleMergeSelectedGroups = () => {
+      // Keep the on-screen order so the topmost selected group absorbs the others.
+      const groupIds = appState.stagedGroups.map(g => g.id).filter(id => groupsSelectedForMerge.includes(id));
+      vscode.postMessage({ command: 'mergeStagedGroups', payload: { groupIds } });
+      setGroupsSelectedForMerge([]);
   };
 
   const handleReviewStagedGroup = (groupId: string) => {
@@ -431,6 +767,21 @@ const App: React.FC = () => {
           setEditingStagedGroupData(prev => prev ? ({ ...prev, commitMessage: message }) : null);
       }
   };
+    const handleSetEditingStagedGroupHunks = (filePath: string) => (hunkIds: string[] | null) => {
+        setEditingStagedGroupData(prev => {
+            if (!prev) {
+                return null;
+            }
+            const hunks = { ...(prev.hunks || {}) };
+            if (hunkIds) {
+                hunks[filePath] = hunkIds;
+            } else {
+                delete hunks[filePath];
+            }
+            return { ...prev, hunks: Object.keys(hunks).length > 0 ? hunks : undefined };
+        });
+    };
+
     const handleRemoveFileFromEditingStagedGroup = (filePath: string) => {
         if (editingStagedGroupData) {
             setEditingStagedGroupData(prev => prev ? ({ ...prev, files: prev.files.filter(f => f !== filePath) }) : null);
@@ -455,6 +806,10 @@ const App: React.FC = () => {
                     specificContext: editingStagedGroupData.specificContext,
                     commitMessage: editingStagedGroupData.commitMessage,
                     files: editingStagedGroupData.files,
+                    hunks: editingStagedGroupData.hunks || {},
+                    presetId: editingStagedGroupData.presetId || '',
+                    // Saving a proposal with a message is what confirms it as reviewed.
+                    ...(editingStagedGroupData.commitMessage.trim() ? { needsReview: false } : {}),
                 }
             }
         });
@@ -465,29 +820,121 @@ const App: React.FC = () => {
              // We use the local editingStagedGroupData as it's now the "source of truth" for what was saved.
             setOriginalStagedGroupForEdit({
                 id: appState.currentEditingStagedGroupId,
+                repositoryRoot: updatedGroup.repositoryRoot,
                 ...editingStagedGroupData
             });
         }
     }
   };
 
+  const handleFixEditedStagedGroupMessage = () => {
+    if (!editingStagedGroupData || !appState.currentEditingStagedGroupId) return;
+    vscode.postMessage({
+      command: 'fixCommitMessage',
+      payload: {
+        message: editingStagedGroupData.commitMessage,
+        groupContext: editingStagedGroupData.specificContext,
+        stagedGroupId: appState.currentEditingStagedGroupId,
+        presetId: editingStagedGroupData.presetId || ''
+      }
+    });
+  };
+
   const handleGenerateEditedStagedGroupMessage = () => {
     if (appState.currentEditingStagedGroupId && editingStagedGroupData) {
+        setSummarySources({ stagedGroupId: appState.currentEditingStagedGroupId, cachedFiles: [] });
         vscode.postMessage({
             command: 'generateCommitMessage',
             payload: {
                 stagedGroupId: appState.currentEditingStagedGroupId,
                 files: editingStagedGroupData.files,
                 groupContext: editingStagedGroupData.specificContext,
+                hunks: editingStagedGroupData.hunks || {},
+                presetId: editingStagedGroupData.presetId || '',
             }
         });
     }
   };
 
-  const availableChangedFiles = useMemo(() => {
-    const stagedFilePaths = new Set(appState.stagedGroups.flatMap(g => g.files));
-    return appState.changedFiles.filter(f => !stagedFilePaths.has(f));
-  }, [appState.changedFiles, appState.stagedGroups]);
+  // Files with only some hunks in staged groups stay available so their remaining hunks can be grouped.
+  const availableChangesByRepository = useMemo(() => appState.repositories.map(repo => {
+    const stagedFilePaths = new Set(appState.stagedGroups
+      .filter(g => g.repositoryRoot === repo.root)
+      .flatMap(g => g.files.filter(f => !g.hunks?.[f])));
+    return { ...repo, availableFiles: repo.changedFiles.filter(f => !stagedFilePaths.has(f)) };
+  }), [appState.repositories, appState.stagedGroups]);
+
+  const availableFileCount = availableChangesByRepository.reduce((count, repo) => count + repo.availableFiles.length, 0);
+  const showRepositoryNames = appState.repositories.length > 1;
+  const repositoryName = (root: string) => appState.repositories.find(repo => repo.root === root)?.name || root.split(/[\\/]/).pop() || root;
+
+  const partiallyStagedFiles = useMemo(
+    () => new Set(appState.stagedGroups.flatMap(g => Object.keys(g.hunks || {}).map(file => hunkKey(g.repositoryRoot, file)))),
+    [appState.stagedGroups]
+  );
+
+  const handleToggleHunkPicker = (repositoryRoot: string, file: string) => {
+    const key = hunkKey(repositoryRoot, file);
+    if (expandedHunkFiles.includes(key)) {
+      setExpandedHunkFiles(prev => prev.filter(f => f !== key));
+      return;
+    }
+    setExpandedHunkFiles(prev => [...prev, key]);
+    // Always reload: the working tree may have changed since the hunks were last listed.
+    setFileHunks(prev => ({ ...prev, [key]: { hunks: prev[key]?.hunks || [], loading: true } }));
+    vscode.postMessage({ command: 'getFileHunks', payload: { repositoryRoot, filePath: file } });
+  };
+
+  /**
+   * Lists the hunks of a file with checkboxes. `selected` undefined means the whole file is used;
+   * hunks claimed by other staged groups are shown but cannot be picked.
+   */
+  const renderHunkPicker = (repositoryRoot: string, file: string, selected: string[] | undefined, excludeGroupId: string | null, onChange: (hunkIds: string[] | null) => void) => {
+    const key = hunkKey(repositoryRoot, file);
+    if (!expandedHunkFiles.includes(key)) {
+      return null;
+    }
+    const entry = fileHunks[key];
+    if (!entry || entry.loading) {
+      return <div className="hunk-picker"><span className="loading-spinner">⟳</span> Loading hunks...</div>;
+    }
+    if (entry.error) {
+      return <div className="hunk-picker feedback-error">{entry.error}</div>;
+    }
+    if (entry.hunks.length === 0) {
+      return <div className="hunk-picker">No hunks to pick (new, binary or already staged file). The whole file is used.</div>;
+    }
+    const claimed = new Set(appState.stagedGroups
+      .filter(g => g.id !== excludeGroupId && g.repositoryRoot === repositoryRoot)
+      .flatMap(g => g.hunks?.[file] || []));
+    const toggleHunk = (hunkId: string) => {
+      const current = selected || [];
+      const next = current.includes(hunkId) ? current.filter(id => id !== hunkId) : [...current, hunkId];
+      onChange(next.length > 0 ? next : null);
+    };
+    return (
+      <div className="hunk-picker">
+        <div style={{ marginBottom: '4px' }}>
+          {selected ? `${selected.length} of ${entry.hunks.length} hunks selected` : `Whole file (${entry.hunks.length} hunks)`}
+          {selected && <button className="secondary-button" onClick={() => onChange(null)} style={{ fontSize: '10px', padding: '0 4px', marginLeft: '6px' }}>Use whole file</button>}
+        </div>
+        {entry.hunks.map(hunk => (
+          <label key={hunk.id} className={`hunk-item ${claimed.has(hunk.id) ? 'hunk-claimed' : ''}`} title={claimed.has(hunk.id) ? 'Already part of another staged group' : undefined}>
+            <input
+              type="checkbox"
+              checked={!!selected?.includes(hunk.id)}
+              disabled={claimed.has(hunk.id)}
+              onChange={() => toggleHunk(hunk.id)}
+            />
+            <div>
+              <code>{hunk.header}</code>
+              <pre>{hunk.lines.slice(0, 12).join('\n')}{hunk.lines.length > 12 ? `\n... (${hunk.lines.length - 12} more lines)` : ''}</pre>
+            </div>
+          </label>
+        ))}
+      </div>
+    );
+  };
 
 
   const renderFileSelectionView = () => (
@@ -508,7 +955,7 @@ const App: React.FC = () => {
       </div>
       <hr />
       <div className="changes-section">
-        <h2>Available Changes ({availableChangedFiles.length})</h2>
+        <h2>Available Changes ({availableFileCount})</h2>
         <div style={{ padding: '4px 8px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <button
             className="secondary-button"
@@ -518,47 +965,77 @@ const App: React.FC = () => {
           >
             {isLoadingFiles ? <span className="loading-spinner">⟳</span> : '↻'} Refresh
           </button>
-          {appState.selectedFiles.length > 0 && (
-            <button
-              className="primary-button"
-              onClick={handleCreateGroup}
-              style={{ fontSize: '11px', padding: '2px 8px' }}
-            >
-              Create Group ({appState.selectedFiles.length})
-            </button>
-          )}
+          <div style={{ display: 'flex', gap: '4px' }}>
+            {availableFileCount > 1 && (
+              <button
+                className="secondary-button"
+                onClick={handleAutoGroup}
+                disabled={isAutoGrouping || !canGenerate}
+                style={{ fontSize: '11px', padding: '2px 6px' }}
+                title={appState.selectedFiles.length > 0 ? 'Let the LLM split the selected files into commit groups' : 'Let the LLM split all available changes into commit groups'}
+              >
+                {isAutoGrouping ? <><span className="loading-spinner">⟳</span> Grouping...</> : `✨ Auto-group${appState.selectedFiles.length > 0 ? ` (${appState.selectedFiles.length})` : ''}`}
+              </button>
+            )}
+            {appState.selectedFiles.length > 0 && (
+              <button
+                className="primary-button"
+                onClick={handleCreateGroup}
+                style={{ fontSize: '11px', padding: '2px 8px' }}
+              >
+                Create Group ({appState.selectedFiles.length})
+              </button>
+            )}
+          </div>
         </div>
+        {isAutoGrouping && (
+          <div style={{ padding: '0 8px 4px', display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '11px', color: 'var(--vscode-descriptionForeground)' }}>
+            <span>Asking the LLM to propose commit groups...</span>
+            <button className="secondary-button revert-button" onClick={handleCancelGeneration} disabled={isCancellingGeneration} style={{ fontSize: '10px', padding: '1px 6px' }}>
+              {isCancellingGeneration ? 'Cancelling...' : 'Cancel'}
+            </button>
+          </div>
+        )}
 
-        {isLoadingFiles && availableChangedFiles.length === 0 && (
+        {isLoadingFiles && availableFileCount === 0 && (
           <div className="loading-indicator">Loading changes...</div>
         )}
-        {!isLoadingFiles && availableChangedFiles.length === 0 && appState.stagedGroups.length === 0 && (
+        {!isLoadingFiles && availableFileCount === 0 && appState.stagedGroups.length === 0 && (
           <div className="no-changes-message">No uncommitted changes detected.</div>
         )}
-        {!isLoadingFiles && availableChangedFiles.length === 0 && appState.stagedGroups.length > 0 && (
+        {!isLoadingFiles && availableFileCount === 0 && appState.stagedGroups.length > 0 && (
           <div className="no-changes-message">All changes are in staged groups.</div>
         )}
 
-        {availableChangedFiles.length > 0 && (
-          <ul className="file-list">
-            {availableChangedFiles.map((file) => (
-              <li key={file} className={`file-item ${appState.selectedFiles.includes(file) ? 'selected' : ''}`}>
-                <input
-                  type="checkbox"
-                  checked={appState.selectedFiles.includes(file)}
-                  onChange={() => handleToggleFileSelection(file)}
-                  style={{ margin: '0 8px 0 12px' }}
-                  aria-label={`Select ${file} for grouping`}
-                />
-                <span className="file-name" style={{ paddingLeft: '4px' }}>{(file.split(/[\\/]/).pop() || file)}</span>
-                <div className="file-actions">
-                  <button onClick={() => handleViewDiff(file)} title="Open Changes">Diff</button>
-                  <button onClick={() => handleRevertFile(file)} title="Discard Changes" className="revert-button">↶</button>
-                </div>
-              </li>
-            ))}
-          </ul>
-        )}
+        {availableChangesByRepository.filter(repo => repo.availableFiles.length > 0).map(repo => {
+          const isSelectedRepository = appState.selectedRepositoryRoot === repo.root;
+          return (
+            <div key={repo.root}>
+              {showRepositoryNames && (
+                <h3 className="repository-header" title={repo.root}>{repo.name} ({repo.availableFiles.length})</h3>
+              )}
+              <ul className="file-list">
+                {repo.availableFiles.map((file) => (
+                  <li key={file} className={`file-item ${isSelectedRepository && appState.selectedFiles.includes(file) ? 'selected' : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={isSelectedRepository && appState.selectedFiles.includes(file)}
+                      onChange={() => handleToggleFileSelection(repo.root, file)}
+                      style={{ margin: '0 8px 0 12px' }}
+                      aria-label={`Select ${file} for grouping`}
+                    />
+                    <span className="file-name" style={{ paddingLeft: '4px' }}>{(file.split(/[\\/]/).pop() || file)}</span>
+                    {partiallyStagedFiles.has(hunkKey(repo.root, file)) && <span className="cached-badge" title="Some hunks of this file are already in a staged group">partly grouped</span>}
+                    <div className="file-actions">
+                      <button onClick={() => handleViewDiff(repo.root, file)} title="Open Changes">Diff</button>
+                      <button onClick={() => handleRevertFile(repo.root, file)} title="Discard Changes" className="revert-button">↶</button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
       </div>
       <hr />
       <div className="staged-changes-section">
@@ -583,8 +1060,20 @@ const App: React.FC = () => {
                 {appState.stagedGroups.map(group => (
                     <li key={group.id} className="staged-group-item" style={{ padding: '4px 12px', borderBottom: '1px solid var(--vscode-sideBar-border)'}}>
                         <div style={{ fontWeight: 'bold', marginBottom: '4px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                            <span title={group.commitMessage} style={{overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', flexGrow: 1, marginRight: '8px' }}>
-                                {(group.commitMessage.split('\n')[0].substring(0, 60) || "Untitled Group")} ({group.files.length} files)
+                            {appState.stagedGroups.filter(g => g.repositoryRoot === group.repositoryRoot).length > 1 && (
+                                <input
+                                    type="checkbox"
+                                    checked={groupsSelectedForMerge.includes(group.id)}
+                                    onChange={() => handleToggleGroupForMerge(group.id)}
+                                    style={{ margin: '0 6px 0 0' }}
+                                    aria-label="Select group for merging"
+                                    title="Select to merge with other groups"
+                                />
+                            )}
+                            <span title={group.commitMessage || group.specificContext} style={{overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', flexGrow: 1, marginRight: '8px' }}>
+                                {showRepositoryNames && <span className="repository-badge" title={group.repositoryRoot}>{repositoryName(group.repositoryRoot)}</span>}
+                                {(group.commitMessage.split('\n')[0].substring(0, 60) || group.title || "Untitled Group")} ({group.files.length} files)
+                                {group.needsReview && <span className="review-badge" title="Proposed by auto-grouping. Open it, generate or write a message and save to confirm.">needs review</span>}
                             </span>
                             <div>
                                 <button onClick={() => handleReviewStagedGroup(group.id)} title="Review/Edit Group" className="secondary-button" style={{fontSize: '10px', padding: '1px 4px', marginRight: '4px'}}>Edit</button>
@@ -601,6 +1090,13 @@ const App: React.FC = () => {
                 ))}
             </ul>
         )}
+        {groupsSelectedForMerge.length > 1 && !isCommittingAll && (
+          <div style={{ padding: '4px 12px' }}>
+            <button className="secondary-button" onClick={handleMergeSelectedGroups} style={{ fontSize: '11px', padding: '2px 8px' }}>
+              Merge Selected Groups ({groupsSelectedForMerge.length})
+            </button>
+          </div>
+        )}
         {appState.stagedGroups.length > 0 && !isCommittingAll && (
           <div style={{ padding: '8px 12px', marginTop: '8px', borderTop: '1px solid var(--vscode-sideBar-border)' }}>
             <button
@@ -622,6 +1118,85 @@ const App: React.FC = () => {
     </div>
   );
 
+  const renderSecretScanBanner = () => {
+    if (!secretScan || appState.currentView === 'settings') {
+      return null;
+    }
+    return (
+      <div className={`secret-scan-banner ${secretScan.blocked ? 'blocked' : ''}`}>
+        <div className="secret-scan-header">
+          <strong>
+            {secretScan.blocked
+              ? `🔒 Nothing was sent: ${secretScan.findings.length} possible secret(s) found`
+              : `🔒 ${secretScan.findings.length} possible secret(s) were redacted before sending`}
+          </strong>
+          <button className="secondary-button" onClick={() => setSecretScan(null)} title="Dismiss" style={{ fontSize: '10px', padding: '0 6px' }}>✕</button>
+        </div>
+        <ul>
+          {secretScan.findings.map((finding, index) => (
+            <li key={`${finding.source}-${finding.rule}-${index}`} title={finding.description}>
+              <span className="file-name">{finding.source}{finding.line ? `:${finding.line}` : ''}</span> {finding.description} <code>{finding.preview}</code>
+            </li>
+          ))}
+        </ul>
+        {secretScan.blocked && <div>Remove the secrets from the changes, or set <code>llmCommitter.secretHandling</code> to <code>"redact"</code>.</div>}
+      </div>
+    );
+  };
+
+  // Results for an older version of the message are hidden until the new one has been linted.
+  const renderLintIssues = (message: string, isGenerating: boolean, onFix: () => void) => {
+    if (isGenerating || !message.trim() || !messageLint || messageLint.message !== message || messageLint.issues.length === 0) {
+      return null;
+    }
+    return (
+      <div className="lint-issues">
+        <ul>
+          {messageLint.issues.map((issue, index) => (
+            <li key={`${issue.rule}-${index}`} className={`lint-issue lint-${issue.severity}`}>
+              {issue.severity === 'error' ? '✖' : '⚠'} {issue.message} <span className="lint-rule">{issue.rule}</span>
+            </li>
+          ))}
+        </ul>
+        <button
+          className="secondary-button"
+          onClick={onFix}
+          disabled={!canGenerate}
+          title={!canGenerate ? "API Key required" : "Send the message and these problems back to the LLM for a corrected version"}
+          style={{ fontSize: '11px', padding: '2px 8px' }}
+        >
+          🤖 Fix with LLM
+        </button>
+      </div>
+    );
+  };
+
+  const renderCachedBadge = (file: string, stagedGroupId?: string) => (
+    summarySources.stagedGroupId === stagedGroupId && summarySources.cachedFiles.includes(file)
+      ? <span className="cached-badge" title="Summary reused from cache; this diff was not sent to the LLM again">cached</span>
+      : null
+  );
+
+  const renderGenerationProgress = () => (
+    <div style={{ marginTop: '12px', fontSize: '11px', color: 'var(--vscode-descriptionForeground)' }}>
+      <div style={{ width: '100%', backgroundColor: 'var(--vscode-editorWidget-background)', borderRadius: '3px', height: '4px', overflow: 'hidden' }}>
+        <div style={{ width: `${generationProgress?.percentage ?? 0}%`, backgroundColor: 'var(--vscode-progressBar-background)', height: '100%', transition: 'width 0.3s ease-out' }}></div>
+      </div>
+      <div style={{ marginTop: '4px', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+        <span>{generationProgress?.message || 'Starting...'}</span>
+        <button
+          className="secondary-button revert-button"
+          onClick={handleCancelGeneration}
+          disabled={isCancellingGeneration}
+          style={{ fontSize: '10px', padding: '1px 6px' }}
+          title="Stop generating and discard remaining summaries"
+        >
+          {isCancellingGeneration ? 'Cancelling...' : 'Cancel'}
+        </button>
+      </div>
+    </div>
+  );
+
   const renderGroupView = () => (
     <div className="app-container">
       <div style={{ padding: '8px 12px', borderBottom: '1px solid var(--vscode-sideBar-border)', display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -636,12 +1211,21 @@ const App: React.FC = () => {
           </div>
         )}
         <div className="group-section">
-          <h3>Files in New Group ({appState.currentGroup?.files.length || 0})</h3>
+          <h3>
+            Files in New Group ({appState.currentGroup?.files.length || 0})
+            {showRepositoryNames && appState.currentGroup && <span className="repository-badge" title={appState.currentGroup.repositoryRoot}>{repositoryName(appState.currentGroup.repositoryRoot)}</span>}
+          </h3>
           <ul className="file-list" style={{ marginBottom: '16px' }}>
             {appState.currentGroup?.files.map((file) => (
-              <li key={file} className="file-item">
+              <li key={file} className={`file-item ${expandedHunkFiles.includes(hunkKey(appState.currentGroup!.repositoryRoot, file)) ? 'with-hunks' : ''}`}>
                 <span className="file-name">{(file.split(/[\\/]/).pop() || file)}</span>
-                <div className="file-actions"><button onClick={() => handleViewDiff(file)} title="Diff">Diff</button></div>
+                {renderCachedBadge(file)}
+                {appState.currentGroup?.hunks?.[file] && <span className="cached-badge">{appState.currentGroup.hunks[file].length} hunk(s)</span>}
+                <div className="file-actions">
+                  <button onClick={() => handleToggleHunkPicker(appState.currentGroup!.repositoryRoot, file)} title="Choose which hunks of this file belong to the group">Hunks</button>
+                  <button onClick={() => handleViewDiff(appState.currentGroup!.repositoryRoot, file)} title="Diff">Diff</button>
+                </div>
+                {renderHunkPicker(appState.currentGroup!.repositoryRoot, file, appState.currentGroup?.hunks?.[file], null, (hunkIds) => vscode.postMessage({ command: 'setCurrentGroupHunks', payload: { filePath: file, hunkIds } }))}
               </li>
             ))}
           </ul>
@@ -659,6 +1243,7 @@ const App: React.FC = () => {
             rows={3}
           />
         </div>
+        {renderPresetPicker('new-group-preset', appState.currentGroup?.presetId, (presetId) => vscode.postMessage({ command: 'setCurrentGroupPreset', payload: { presetId } }))}
         <div className="group-section">
           <label htmlFor="new-commit-message">
             Commit Message
@@ -675,11 +1260,12 @@ const App: React.FC = () => {
             rows={10}
             style={{ marginBottom: '12px' }}
           />
+          {renderLintIssues(newGroupLocalCommitMessage, !!appState.currentGroup?.isGenerating, handleFixNewGroupMessage)}
           <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
             <button
               className="primary-button"
               onClick={handleGenerateNewGroupMessage}
-              disabled={appState.currentGroup?.isGenerating || !appState.settings.hasApiKey || (appState.currentGroup?.files.length ?? 0) === 0}
+              disabled={appState.currentGroup?.isGenerating || !canGenerate || (appState.currentGroup?.files.length ?? 0) === 0}
             >
               {appState.currentGroup?.isGenerating ? <><span className="loading-spinner">⟳</span> Generating...</> : '🤖 Generate Message'}
             </button>
@@ -691,15 +1277,8 @@ const App: React.FC = () => {
               Stage Group
             </button>
           </div>
-          {generationProgress && appState.currentView === 'group' && appState.currentGroup?.isGenerating && (
-            <div style={{ marginTop: '12px', fontSize: '11px', color: 'var(--vscode-descriptionForeground)' }}>
-              <div style={{ width: '100%', backgroundColor: 'var(--vscode-editorWidget-background)', borderRadius: '3px', height: '4px', overflow: 'hidden' }}>
-                <div style={{ width: `${generationProgress.percentage}%`, backgroundColor: 'var(--vscode-progressBar-background)', height: '100%', transition: 'width 0.3s ease-out' }}></div>
-              </div>
-              <div style={{ marginTop: '4px' }}>{generationProgress.message}</div>
-            </div>
-          )}
-          {!appState.settings.hasApiKey && <div className="warning-state" style={{fontSize: '11px', marginTop: '8px'}}>⚠️ API key required - configure in Settings.</div>}
+          {appState.currentView === 'group' && appState.currentGroup?.isGenerating && renderGenerationProgress()}
+          {!canGenerate && <div className="warning-state" style={{fontSize: '11px', marginTop: '8px'}}>⚠️ API key required - configure in Settings.</div>}
         </div>
       </div>
     </div>
@@ -711,11 +1290,15 @@ const App: React.FC = () => {
     }
     
     const baselineGroupForComparison = originalStagedGroupForEdit;
+    const editingRepositoryRoot = appState.stagedGroups.find(g => g.id === appState.currentEditingStagedGroupId)?.repositoryRoot
+        ?? originalStagedGroupForEdit?.repositoryRoot ?? '';
 
     const hasUnsavedChanges = baselineGroupForComparison && editingStagedGroupData && (
         editingStagedGroupData.commitMessage !== baselineGroupForComparison.commitMessage ||
         editingStagedGroupData.specificContext !== baselineGroupForComparison.specificContext ||
-        JSON.stringify(editingStagedGroupData.files.slice().sort()) !== JSON.stringify(baselineGroupForComparison.files.slice().sort())
+        JSON.stringify(editingStagedGroupData.files.slice().sort()) !== JSON.stringify(baselineGroupForComparison.files.slice().sort()) ||
+        JSON.stringify(editingStagedGroupData.hunks || {}) !== JSON.stringify(baselineGroupForComparison.hunks || {}) ||
+        (editingStagedGroupData.presetId || '') !== (baselineGroupForComparison.presetId || '')
     );
 
     return (
@@ -734,6 +1317,11 @@ const App: React.FC = () => {
             </div>
 
             <div className="group-content" style={{ padding: '12px' }}>
+                {appState.stagedGroups.find(g => g.id === appState.currentEditingStagedGroupId)?.needsReview && (
+                    <div className="warning-state" style={{fontSize: '12px', marginBottom: '8px'}}>
+                        ✨ Proposed by auto-grouping. Check the files and context, generate or write a commit message, then save to confirm the group.
+                    </div>
+                )}
                 {appState.generalContext && (
                     <div className="group-section">
                         <label>General Context (Applied)</label>
@@ -742,7 +1330,10 @@ const App: React.FC = () => {
                 )}
 
                 <div className="group-section">
-                    <h3>Files in Group ({editingStagedGroupData.files.length})</h3>
+                    <h3>
+                        Files in Group ({editingStagedGroupData.files.length})
+                        {showRepositoryNames && <span className="repository-badge" title={editingRepositoryRoot}>{repositoryName(editingRepositoryRoot)}</span>}
+                    </h3>
                     {editingStagedGroupData.files.length === 0 && 
                         <div className="warning-state" style={{fontSize: '12px', marginBottom:'8px'}}>
                             ⚠️ No files in this group. This group will be unstaged if saved without files.
@@ -750,10 +1341,13 @@ const App: React.FC = () => {
                     }
                     <ul className="file-list" style={{ marginBottom: '16px', maxHeight: '150px', overflowY: 'auto', border: '1px solid var(--vscode-input-border)' }}>
                         {editingStagedGroupData.files.map((file) => (
-                            <li key={file} className="file-item" style={{padding: '2px 6px'}}>
+                            <li key={file} className={`file-item ${expandedHunkFiles.includes(hunkKey(editingRepositoryRoot, file)) ? 'with-hunks' : ''}`} style={{padding: '2px 6px'}}>
                                 <span className="file-name" title={file}>{(file.split(/[\\/]/).pop() || file)}</span>
+                                {renderCachedBadge(file, appState.currentEditingStagedGroupId ?? undefined)}
+                                {editingStagedGroupData.hunks?.[file] && <span className="cached-badge">{editingStagedGroupData.hunks[file].length} hunk(s)</span>}
                                 <div className="file-actions always-visible">
-                                    <button onClick={() => handleViewDiff(file)} title="View Diff for this file">Diff</button>
+                                    <button onClick={() => handleToggleHunkPicker(editingRepositoryRoot, file)} title="Choose which hunks of this file belong to the group">Hunks</button>
+                                    <button onClick={() => handleViewDiff(editingRepositoryRoot, file)} title="View Diff for this file">Diff</button>
                                     <button 
                                         onClick={() => handleRemoveFileFromEditingStagedGroup(file)} 
                                         title="Remove from group" 
@@ -763,6 +1357,7 @@ const App: React.FC = () => {
                                         ✕
                                     </button>
                                 </div>
+                                {renderHunkPicker(editingRepositoryRoot, file, editingStagedGroupData.hunks?.[file], appState.currentEditingStagedGroupId, handleSetEditingStagedGroupHunks(file))}
                             </li>
                         ))}
                     </ul>
@@ -779,6 +1374,7 @@ const App: React.FC = () => {
                         rows={3}
                     />
                 </div>
+                {renderPresetPicker('edit-group-preset', editingStagedGroupData.presetId, (presetId) => setEditingStagedGroupData(prev => prev ? ({ ...prev, presetId: presetId || undefined }) : null))}
 
                 <div className="group-section">
                     <label htmlFor="edit-commit-message">
@@ -794,13 +1390,14 @@ const App: React.FC = () => {
                         rows={10}
                         style={{ marginBottom: '12px' }}
                     />
+                    {renderLintIssues(editingStagedGroupData.commitMessage, editingStagedGroupData.isGeneratingMessage, handleFixEditedStagedGroupMessage)}
                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '8px' }}>
                         <div style={{display: 'flex', gap: '8px', flexWrap: 'wrap'}}>
                             <button
                                 className="primary-button"
                                 onClick={handleGenerateEditedStagedGroupMessage}
-                                disabled={editingStagedGroupData.isGeneratingMessage || !appState.settings.hasApiKey || editingStagedGroupData.files.length === 0}
-                                title={!appState.settings.hasApiKey ? "API Key required" : editingStagedGroupData.files.length === 0 ? "Add files to group first" : "Regenerate message with LLM"}
+                                disabled={editingStagedGroupData.isGeneratingMessage || !canGenerate || editingStagedGroupData.files.length === 0}
+                                title={!canGenerate ? "API Key required" : editingStagedGroupData.files.length === 0 ? "Add files to group first" : "Regenerate message with LLM"}
                             >
                                 {editingStagedGroupData.isGeneratingMessage ? <><span className="loading-spinner">⟳</span> Regenerating...</> : '🤖 Regenerate'}
                             </button>
@@ -826,15 +1423,8 @@ const App: React.FC = () => {
                             Unstage Group
                         </button>
                     </div>
-                    {generationProgress && appState.currentView === 'reviewStagedGroup' && editingStagedGroupData.isGeneratingMessage && (
-                        <div style={{ marginTop: '12px', fontSize: '11px', color: 'var(--vscode-descriptionForeground)' }}>
-                            <div style={{ width: '100%', backgroundColor: 'var(--vscode-editorWidget-background)', borderRadius: '3px', height: '4px', overflow: 'hidden' }}>
-                                <div style={{ width: `${generationProgress.percentage}%`, backgroundColor: 'var(--vscode-progressBar-background)', height: '100%', transition: 'width 0.3s ease-out' }}></div>
-                            </div>
-                            <div style={{ marginTop: '4px' }}>{generationProgress.message}</div>
-                        </div>
-                    )}
-                    {!appState.settings.hasApiKey && editingStagedGroupData.files.length > 0 &&
+                    {appState.currentView === 'reviewStagedGroup' && editingStagedGroupData.isGeneratingMessage && renderGenerationProgress()}
+                    {!canGenerate && editingStagedGroupData.files.length > 0 &&
                         <div className="warning-state" style={{fontSize: '11px', marginTop: '8px'}}>
                             ⚠️ API key required for message regeneration. Configure in Settings.
                         </div>
@@ -858,7 +1448,19 @@ const App: React.FC = () => {
       </div>
       <div className="settings-content" style={{ padding: '12px' }}>
         <div className="settings-section">
-          <h3>AI Provider</h3>
+          <h3>Effective Settings</h3>
+          <div className="context-help-text">
+            {appState.settings.repositoryConfigFile
+              ? <>Shared settings from <code title={appState.settings.repositoryConfigFile}>{repositoryConfigFileName}</code> in {repositoryName(appState.settings.repositoryConfigFile.replace(/[\\/][^\\/]*$/, ''))}.</>
+              : <>No <code>.llmcommitter.json</code> in this repository.</>}
+            {' '}Precedence: default &lt; user settings &lt; repository file &lt; workspace settings &lt; folder settings. Saving below writes workspace settings.
+          </div>
+          {appState.settings.settingSources?.generalContext && <div className="context-help-text">The repository's general context is added in front of yours. {settingSourceLabel('generalContext')}</div>}
+          {appState.settings.settingSources?.commitTypes && <div className="context-help-text">Allowed commit types come from the repository. {settingSourceLabel('commitTypes')}</div>}
+          {appState.settings.settingSources?.ignorePatterns && <div className="context-help-text">The repository adds ignore patterns. {settingSourceLabel('ignorePatterns')}</div>}
+        </div>
+        <div className="settings-section">
+          <h3>AI Provider {settingSourceLabel('provider')}</h3>
           <select id="provider-select" value={settingsForm.provider}
             onChange={(e) => {
               const newProvider = e.target.value as LLMProviderWebview;
@@ -867,30 +1469,95 @@ const App: React.FC = () => {
             }}
             style={{ width: '100%', padding: '4px 8px' }}
           >
-            <option value="openai">OpenAI</option>
-            <option value="anthropic">Anthropic (Claude)</option>
-            <option value="gemini">Google (Gemini)</option>
-            <option value="openrouter">OpenRouter</option>
+            <option value="openai">OpenAI{keyMarker('openai')}</option>
+            <option value="anthropic">Anthropic (Claude){keyMarker('anthropic')}</option>
+            <option value="gemini">Google (Gemini){keyMarker('gemini')}</option>
+            <option value="openrouter">OpenRouter{keyMarker('openrouter')}</option>
+            <option value="ollama">Ollama (Local)</option>
+            <option value="openai-compatible">OpenAI-compatible (Custom URL){keyMarker('openai-compatible')}</option>
+          </select>
+          <div className="context-help-text">✓ = API key saved. Each provider keeps its own key.</div>
+        </div>
+        {settingsForm.provider === 'openai-compatible' && (
+        <div className="settings-section">
+          <h3>Endpoint</h3>
+          <label htmlFor="compat-base-url" style={{display:'block', marginBottom:'2px'}}>Base URL</label>
+          <input id="compat-base-url" type="text" value={settingsForm.openAICompatibleBaseUrl}
+            onChange={(e) => setSettingsForm(prev => ({ ...prev, openAICompatibleBaseUrl: e.target.value }))}
+            placeholder="http://localhost:8000/v1"
+            style={{ width: '100%', marginBottom:'8px' }}
+          />
+          <label htmlFor="compat-auth-scheme" style={{display:'block', marginBottom:'2px'}}>Authentication</label>
+          <select id="compat-auth-scheme" value={settingsForm.openAICompatibleAuthScheme}
+            onChange={(e) => setSettingsForm(prev => ({ ...prev, openAICompatibleAuthScheme: e.target.value as OpenAICompatibleAuthScheme }))}
+            style={{ width: '100%', padding: '4px 8px', marginBottom:'8px' }}
+          >
+            <option value="bearer">Authorization: Bearer &lt;key&gt;</option>
+            <option value="api-key">api-key: &lt;key&gt; (Azure OpenAI)</option>
+            <option value="none">None</option>
           </select>
+          <label htmlFor="compat-headers" style={{display:'block', marginBottom:'2px'}}>Extra Headers (JSON)</label>
+          <textarea id="compat-headers" value={settingsForm.openAICompatibleHeaders}
+            onChange={(e) => setSettingsForm(prev => ({ ...prev, openAICompatibleHeaders: e.target.value }))}
+            placeholder='{ "X-Team": "platform" }'
+            className="general-context-textarea"
+            rows={3}
+          />
+          {headersError && <div className="warning-state" style={{fontSize: '11px'}}>⚠️ {headersError}</div>}
+          <div className="context-help-text">
+            A full chat-completions URL (e.g. an Azure deployment URL with "?api-version=") is used as-is. Save with "Save Model Settings" below.
+          </div>
+        </div>
+        )}
+        {settingsForm.provider === 'ollama' ? (
+        <div className="settings-section">
+          <h3>Ollama Server</h3>
+          <label htmlFor="ollama-base-url" style={{display:'block', marginBottom:'2px'}}>Base URL</label>
+          <input id="ollama-base-url" type="text" value={settingsForm.ollamaBaseUrl}
+            onChange={(e) => setSettingsForm(prev => ({ ...prev, ollamaBaseUrl: e.target.value }))}
+            placeholder="http://localhost:11434"
+            style={{ width: '100%', marginBottom:'8px' }}
+          />
+          <div className="context-help-text">
+            No API key needed. Diffs are sent only to this server. Save with "Save Model Settings" below.
+          </div>
+          <button className="secondary-button" onClick={handleTestConnection} style={{marginTop: '8px'}}>Test Connection</button>
         </div>
+        ) : (
         <div className="settings-section">
           <h3>{settingsForm.provider.charAt(0).toUpperCase() + settingsForm.provider.slice(1)} API Key</h3>
           <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
             <input id="api-key" type="password" value={settingsForm.apiKey}
               onChange={(e) => setSettingsForm(prev => ({ ...prev, apiKey: e.target.value }))}
-              placeholder={appState.settings.hasApiKey ? "•••••••••••••••• (Saved)" : `Enter your ${settingsForm.provider.charAt(0).toUpperCase() + settingsForm.provider.slice(1)} API key`}
+              placeholder={formProviderHasApiKey ? "•••••••••••••••• (Saved)" : `Enter your ${settingsForm.provider.charAt(0).toUpperCase() + settingsForm.provider.slice(1)} API key`}
               style={{ flex: 1 }}
             />
             <button className="primary-button" onClick={handleSaveApiKey} disabled={!settingsForm.apiKey.trim()}>Save</button>
+            {formProviderHasApiKey && <button className="secondary-button revert-button" onClick={handleRemoveApiKey} title="Remove the saved key for this provider">Remove</button>}
           </div>
           <div className="context-help-text">
-            {appState.settings.hasApiKey ? '✅ API key configured.' : `⚠️ API key required.`}
+            {formProviderHasApiKey ? '✅ API key configured for this provider.' : `⚠️ API key required.`}
           </div>
-          <button className="secondary-button" onClick={handleTestConnection} disabled={!appState.settings.hasApiKey} style={{marginTop: '8px'}}>Test Connection</button>
+          <button className="secondary-button" onClick={handleTestConnection} disabled={!canGenerate} style={{marginTop: '8px'}}>Test Connection</button>
         </div>
+        )}
         <div className="settings-section">
             <h3>Model Configuration</h3>
-            <label htmlFor="model-select" style={{display:'block', marginBottom:'2px'}}>Model</label>
+            <label htmlFor="model-select" style={{display:'block', marginBottom:'2px'}}>Model {settingSourceLabel('model')}</label>
+            {settingsForm.provider === 'openai-compatible' ? (
+              <>
+                <input id="model-select" type="text" list="compat-models" value={settingsForm.model}
+                  onChange={(e) => setSettingsForm(prev => ({ ...prev, model: e.target.value }))}
+                  placeholder="Model or deployment name"
+                  style={{ width: '100%', marginBottom:'8px' }}
+                />
+                <datalist id="compat-models">
+                  {discoveredModels?.provider === 'openai-compatible' && discoveredModels.models.map(model => (
+                    <option key={model} value={model} />
+                  ))}
+                </datalist>
+              </>
+            ) : (
             <select id="model-select" value={settingsForm.model}
                 onChange={(e) => setSettingsForm(prev => ({ ...prev, model: e.target.value }))}
                 style={{ width: '100%', padding: '4px 8px', marginBottom:'8px' }}
@@ -931,13 +1598,33 @@ const App: React.FC = () => {
                   <option value="meta-llama/llama-3-8b-instruct">Meta: Llama 3 8B Instruct</option>
                 </>
               )}
+              {settingsForm.provider === 'ollama' && (
+                <>
+                  {discoveredModels?.provider === 'ollama' && !discoveredModels.models.includes(settingsForm.model) && (
+                    <option value={settingsForm.model}>{settingsForm.model} (not installed)</option>
+                  )}
+                  {discoveredModels?.provider === 'ollama' && discoveredModels.models.map(model => (
+                    <option key={model} value={model}>{model}</option>
+                  ))}
+                  {discoveredModels?.provider !== 'ollama' && <option value={settingsForm.model}>{settingsForm.model}</option>}
+                </>
+              )}
             </select>
-            <label htmlFor="max-tokens" style={{display:'block', marginBottom:'2px'}}>Max Tokens: {settingsForm.maxTokens}</label>
+            )}
+            {settingsForm.provider === 'ollama' && (
+              <div className="context-help-text" style={{marginBottom:'8px'}}>
+                {discoveredModels?.provider === 'ollama' && discoveredModels.models.length === 0
+                  ? '⚠️ No models found. Is the Ollama server running?'
+                  : 'Models installed on the Ollama server.'}
+                <button className="secondary-button" onClick={handleRefreshModels} style={{fontSize: '10px', padding: '1px 4px', marginLeft: '6px'}}>↻ Refresh</button>
+              </div>
+            )}
+            <label htmlFor="max-tokens" style={{display:'block', marginBottom:'2px'}}>Max Tokens: {settingsForm.maxTokens} {settingSourceLabel('maxTokens')}</label>
             <input id="max-tokens" type="range" min="1000" max="8000" step="500" value={settingsForm.maxTokens}
                 onChange={(e) => setSettingsForm(prev => ({ ...prev, maxTokens: parseInt(e.target.value) }))}
                 style={{ width: '100%', marginBottom:'8px' }}
             />
-            <label htmlFor="temperature" style={{display:'block', marginBottom:'2px'}}>Creativity (Temperature): {settingsForm.temperature}</label>
+            <label htmlFor="temperature" style={{display:'block', marginBottom:'2px'}}>Creativity (Temperature): {settingsForm.temperature} {settingSourceLabel('temperature')}</label>
             <input id="temperature" type="range" min="0" max="1" step="0.1" value={settingsForm.temperature}
                 onChange={(e) => setSettingsForm(prev => ({ ...prev, temperature: parseFloat(e.target.value) }))}
                 style={{ width: '100%', marginBottom:'12px' }}
@@ -945,7 +1632,7 @@ const App: React.FC = () => {
             <button className="primary-button" onClick={handleSaveLlmSettings}>Save Model Settings</button>
         </div>
         <div className="settings-section">
-          <h3>LLM Instructions</h3>
+          <h3>LLM Instructions {settingSourceLabel('instructions')}</h3>
           <textarea id="llm-instructions" value={settingsForm.instructions}
             onChange={(e) => setSettingsForm(prev => ({ ...prev, instructions: e.target.value }))}
             placeholder="Custom instructions (optional, uses default if empty)..."
@@ -957,6 +1644,72 @@ const App: React.FC = () => {
               {appState.settings.instructionsLength > 0 ? `Current: ${appState.settings.instructionsLength} chars` : 'Using default instructions.'}
             </div>
           <button className="primary-button" onClick={handleSaveInstructions}>Save Instructions</button>
+        </div>
+        <div className="settings-section">
+          <h3>Instruction Presets</h3>
+          <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+            <select id="preset-select" value={selectedPresetId || ''} onChange={(e) => setSelectedPresetId(e.target.value || null)} style={{ flex: 1, padding: '4px 8px' }} disabled={presetDrafts.length === 0}>
+              {presetDrafts.length === 0 && <option value="">No presets</option>}
+              {presetDrafts.map(preset => <option key={preset.id} value={preset.id}>{preset.name || '(unnamed)'}</option>)}
+            </select>
+            <button className="secondary-button" onClick={() => handleAddPreset()} title="Create a preset from the instructions above">New</button>
+            <button className="secondary-button" onClick={() => selectedPreset && handleAddPreset(selectedPreset)} disabled={!selectedPreset}>Duplicate</button>
+            <button className="secondary-button revert-button" onClick={handleDeletePreset} disabled={!selectedPreset}>Delete</button>
+          </div>
+          {selectedPreset && (
+            <>
+              <label htmlFor="preset-name" style={{display:'block', marginBottom:'2px'}}>Name</label>
+              <input id="preset-name" type="text" value={selectedPreset.name}
+                onChange={(e) => updateSelectedPreset({ name: e.target.value })}
+                style={{ width: '100%', marginBottom:'8px' }}
+              />
+              <label htmlFor="preset-instructions" style={{display:'block', marginBottom:'2px'}}>Instructions</label>
+              <textarea id="preset-instructions" value={selectedPreset.instructions}
+                onChange={(e) => updateSelectedPreset({ instructions: e.target.value })}
+                className="general-context-textarea"
+                rows={5}
+                style={{ marginBottom:'8px' }}
+              />
+            </>
+          )}
+          <div className="context-help-text" style={{marginBottom:'8px'}}>
+            Pick a preset per group in the group view. Groups remember their preset, so regenerating uses the same instructions.
+          </div>
+          <button className="primary-button" onClick={handleSavePresets} disabled={!presetDraftsChanged}>Save Presets</button>
+          {presetDraftsChanged && <span className="unsaved-indicator">(Unsaved Changes)</span>}
+        </div>
+        <div className="settings-section">
+          <h3>Prompt Templates</h3>
+          <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+            <select id="template-stage-select" value={templateStage} onChange={(e) => setTemplateStage(e.target.value as PromptTemplateStage)} style={{ flex: 1, padding: '4px 8px' }}>
+              <option value="fileSummary">File summary prompt</option>
+              <option value="commitMessage">Commit message prompt</option>
+            </select>
+            {settingSourceLabel(templateStage === 'fileSummary' ? 'fileSummaryPromptTemplate' : 'commitMessagePromptTemplate')}
+          </div>
+          <textarea id="prompt-template" value={templateDrafts[templateStage]}
+            onChange={(e) => setTemplateDrafts(prev => ({ ...prev, [templateStage]: e.target.value }))}
+            placeholder="Leave empty to use the built-in prompt..."
+            className="general-context-textarea"
+            rows={8}
+            style={{ marginBottom:'4px', fontFamily: 'var(--vscode-editor-font-family)' }}
+          />
+          <div className="context-help-text" style={{marginBottom:'8px'}}>
+            Placeholders: {PROMPT_TEMPLATE_PLACEHOLDER_NAMES[templateStage].map(name => `{{${name}}}`).join(' ')}. Wrap text in {'{{#name}}...{{/name}}'} to drop it when the value is empty.
+          </div>
+          {shownTemplatePreview && shownTemplatePreview.issues.length > 0 && (
+            <ul className="template-issues">
+              {shownTemplatePreview.issues.map((issue, index) => <li key={index} className={`template-issue ${issue.severity}`}>{issue.message}</li>)}
+            </ul>
+          )}
+          {shownTemplatePreview?.preview && (
+            <details className="template-preview">
+              <summary>Preview with sample values</summary>
+              <pre>{shownTemplatePreview.preview}</pre>
+            </details>
+          )}
+          <button className="primary-button" onClick={handleSavePromptTemplates} disabled={!templateDraftsChanged || !!shownTemplatePreview?.issues.some(issue => issue.severity === 'error')}>Save Templates</button>
+          {templateDraftsChanged && <span className="unsaved-indicator">(Unsaved Changes)</span>}
         </div>
          {settingsForm.provider === 'openrouter' && (
             <div className="settings-section">
@@ -982,6 +1735,7 @@ const App: React.FC = () => {
 
   return (
     <>
+      {renderSecretScanBanner()}
       {appState.currentView === 'fileselection' && renderFileSelectionView()}
       {appState.currentView === 'group' && renderGroupView()}
       {appState.currentView === 'settings' && renderSettingsView()}